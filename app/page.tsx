@@ -1,62 +1,121 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { SetStateAction, useEffect, useMemo, useRef, useState } from "react";
 import {
+  Area,
   CartesianGrid,
   ComposedChart,
+  Customized,
   Legend,
   Line,
+  ReferenceLine,
   ResponsiveContainer,
   Scatter,
   Tooltip,
   XAxis,
   YAxis,
 } from "recharts";
-import { DataPoint, RegressionResult } from "@/types";
-import { calculateRegression, predictPrice } from "@/lib/regression";
-
-const STORAGE_KEY = "housePriceTrainingData";
-
-function formatMoney(value: number): string {
-  if (!Number.isFinite(value)) return "-";
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: 0,
-  }).format(value);
-}
-
-function round(n: number, digits = 2): number {
-  const p = Math.pow(10, digits);
-  return Math.round(n * p) / p;
-}
-
-function validateArea(area: number): string | null {
-  if (!Number.isFinite(area)) return "Area is required.";
-  if (area <= 0) return "Area must be a positive number.";
-  if (area > 10000) return "Area must be ≤ 10,000.";
-  return null;
-}
-
-function validatePrice(price: number): string | null {
-  if (!Number.isFinite(price)) return "Price is required.";
-  if (price <= 0) return "Price must be a positive number.";
-  if (price > 100000000) return "Price must be ≤ $100,000,000.";
-  return null;
-}
+import {
+  BatchPrediction,
+  BootstrapResult,
+  DataPoint,
+  Dataset,
+  ErrorMetrics,
+  Evaluation,
+  FitDiagnostic,
+  FitMethod,
+  FitOptions,
+  GroupingMode,
+  ModelType,
+  PinnedModel,
+  PointDiagnostics,
+  RegressionResult,
+  SyntheticSpec,
+  Units,
+  ValidationMode,
+  WeightingMode,
+  Workspace,
+} from "@/types";
+import {
+  categoryEquation,
+  FitError,
+  groupModel,
+  INTERCEPT,
+  predictPrice,
+  PredictionInput,
+  predictWithInterval,
+  rescaleArea,
+  supportsIntervals,
+} from "@/lib/regression";
+import { areaFactor, convertPoints } from "@/lib/units";
+import { DEFAULT_HUBER_K, FIT_METHODS } from "@/lib/robust";
+import { DEFAULT_MIXING, isRegularized, REGULARIZATION_FOLDS } from "@/lib/regularized";
+import { formatMoney, formatPlain, makeId, parseNumber, round } from "@/lib/format";
+import { validateArea, validateFeature, validatePrice, validateSaleDate, validateWeight } from "@/lib/validation";
+import { DEFAULT_HALF_LIFE_DAYS, WEIGHTING_MODES } from "@/lib/weights";
+import { STUDENTIZED_LIMIT } from "@/lib/diagnostics";
+import { createTrainer, Trainer } from "@/lib/trainer";
+import { downsample } from "@/lib/downsample";
+import { extent } from "@/lib/stats";
+import { randomSeed } from "@/lib/random";
+import { BREAKPOINT_COUNTS, GROUPING_MODES, MODEL_TYPES, POLYNOMIAL_DEGREES, termLabel } from "@/lib/models";
+import {
+  AREA,
+  CATEGORY,
+  collectCategories,
+  collectFeatureKeys,
+  featureLabel,
+  featureValue,
+  SUGGESTED_FEATURES,
+  toFeatureKey,
+} from "@/lib/features";
+import { downloadText, RowError, toCsv } from "@/lib/csv";
+import { DataImport, ImportMode } from "@/components/DataImport";
+import { DatasetSwitcher } from "@/components/DatasetSwitcher";
+import { TrainingTable } from "@/components/TrainingTable";
+import { UnitSettings } from "@/components/UnitSettings";
+import { ModelActions } from "@/components/ModelActions";
+import { BatchPredictions } from "@/components/BatchPredictions";
+import { GradientDescent } from "@/components/GradientDescent";
+import { FitIssues } from "@/components/FitIssues";
+import { ResidualDiagnostics } from "@/components/ResidualDiagnostics";
+import { RegularizationPath } from "@/components/RegularizationPath";
+import { BootstrapUncertainty } from "@/components/BootstrapUncertainty";
+import { sampleModel } from "@/lib/bootstrap";
+import { ModelComparison } from "@/components/ModelComparison";
+import { ChartEditLayer, ChartEditMode } from "@/components/ChartEditLayer";
+import { ChartDownload } from "@/components/ChartDownload";
+import { ReportExport } from "@/components/ReportExport";
+import { SampleData } from "@/components/SampleData";
+import { SyntheticTruth } from "@/components/SyntheticTruth";
+import { ChartImage, chartImage, findCharts } from "@/lib/chartImage";
+import { buildReport } from "@/lib/report";
+import { assumptionTests } from "@/lib/assumptions";
+import { ChartBox, pointsInBox } from "@/lib/chartEdit";
+import { ValidationOptions } from "@/lib/evaluation";
+import { COMPARISON_FOLDS, COMPARISON_SEED, comparisonMetrics, hasFeatures, modelLabel, PIN_COLORS } from "@/lib/comparison";
+import { parseBatch, predictBatch } from "@/lib/batch";
+import { createDataset, emptyWorkspace, loadWorkspace, saveWorkspace } from "@/lib/storage";
+import { indexedDbAvailable, loadWorkspaceDb, saveWorkspaceDb } from "@/lib/db";
+import { decodeShare, readShareHash } from "@/lib/share";
+import { rescaleSyntheticSpec } from "@/lib/synthetic";
 
-function parseNumber(v: string): number {
-  const cleaned = v.replace(/,/g, "").trim();
-  if (cleaned === "") return NaN;
-  return Number(cleaned);
-}
+// Rapid edits are coalesced into one write
+const SAVE_DELAY_MS = 300;
+// Bootstrap refits drawn on the main chart
+const BOOTSTRAP_LINES = 50;
+// Point and line colors by category, in the dataset's sorted category order
+// Live refits while a point is dragged use every included point, like an unvalidated training run
+const NO_VALIDATION: ValidationOptions = { mode: "none", testFraction: 0, folds: 0, seed: 0 };
+const CATEGORY_COLORS = ["#2563eb", "#16a34a", "#db2777", "#ca8a04", "#7c3aed", "#0891b2", "#ea580c", "#4b5563"];
 
-function makeId(): string {
-  // Works in modern browsers; falls back to a timestamp+random string.
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const anyCrypto = globalThis.crypto as any;
-  if (anyCrypto?.randomUUID) return anyCrypto.randomUUID();
-  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+// Training points of a weighted fit are drawn with their area proportional to their weight;
+// points the fit has no weight for (e.g. added since) keep the default size
+function WeightedPoint(props: any) {
+  const { cx, cy, fill, payload, weights, maxWeight } = props;
+  const w: number | undefined = weights[payload?.id];
+  const r = w === undefined ? 4.5 : Math.max(1.5, 7 * Math.sqrt(w / maxWeight));
+  return <circle cx={cx} cy={cy} r={r} fill={fill} />;
 }
 
 function StarPoint(props: any) {
@@ -82,8 +141,135 @@ function StarPoint(props: any) {
   return <path d={d} fill={fill} stroke="#15803d" strokeWidth={1} />;
 }
 
+// Straight and broken lines are drawn point to point; curved families are smoothed between samples
+function lineType(model: RegressionResult | null | undefined): "linear" | "monotone" {
+  return model?.modelType === "linear" || model?.modelType === "segmented" ? "linear" : "monotone";
+}
+
+// Grouped models only have curves for a given category. Segmented lines get a vertex at each
+// breakpoint, with a gap (null price) where the line jumps.
+function sampleCurve(
+  model: RegressionResult | null,
+  data: DataPoint[],
+  featureMeans: Record<string, number>,
+  category?: string
+): { area: number; price: number | null }[] {
+  if (!model || data.length === 0 || !model.features.includes(AREA)) return [];
+  if (model.categories && category === undefined) return [];
+  const [minX, maxX] = extent(data.map((d) => d.area));
+  const at = (a: number) => predictPrice({ area: a, features: featureMeans, category }, model);
+  const segmented = model.segmented ?? groupModel(model, category)?.segmented;
+  if (segmented) {
+    const edges = [minX, ...segmented.breakpoints.map((c) => c.value).filter((c) => c > minX && c < maxX), maxX];
+    return edges.flatMap((a, i) => {
+      if (segmented.continuous || i === 0 || i === edges.length - 1) return [{ area: a, price: at(a) }];
+      // Past the jump the segment is straight, so its start extrapolates from two areas inside it
+      const d = (edges[i + 1] - a) / 3;
+      return [
+        { area: a, price: at(a) },
+        { area: a, price: null },
+        { area: a, price: 2 * at(a + d) - at(a + 2 * d) },
+      ];
+    });
+  }
+  const steps = model.modelType === "linear" ? 1 : 60;
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const a = minX + ((maxX - minX) * i) / steps;
+    return { area: a, price: at(a) };
+  });
+}
+
+// With extra features the charts show the effect of area, holding the others at their training means
+function featureMeansFor(model: RegressionResult | null, data: DataPoint[]): Record<string, number> {
+  const means: Record<string, number> = {};
+  if (!model || data.length === 0) return means;
+  model.features.forEach((f) => {
+    if (f !== AREA) means[f] = data.reduce((s, d) => s + featureValue(d, f), 0) / data.length;
+  });
+  return means;
+}
+
+// Refits keep a segmented model's breakpoints so their terms match the model's; separate
+// category models each have their own, so their refits search again.
+function segmentOptions(model: RegressionResult): FitOptions {
+  const { segmented } = model;
+  if (segmented) return { breakpoints: segmented.breakpoints.map((c) => c.value), continuous: segmented.continuous };
+  const group = model.groups ? Object.values(model.groups)[0]?.segmented : undefined;
+  return group ? { breakpointCount: group.breakpoints.length, continuous: group.continuous } : {};
+}
+
+// localStorage can throw on access when the browser blocks storage
+function legacyStorage(): Storage | null {
+  try {
+    return localStorage;
+  } catch {
+    return null;
+  }
+}
+
+function applyUpdate<T>(update: SetStateAction<T>, prev: T): T {
+  return typeof update === "function" ? (update as (p: T) => T)(prev) : update;
+}
+
 export default function Page() {
-  const [data, setData] = useState<DataPoint[]>([]);
+  const [workspace, setWorkspace] = useState<Workspace>(emptyWorkspace);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [storageWarning, setStorageWarning] = useState<string>("");
+  const storageBackend = useRef<"indexeddb" | "localstorage" | null>(null);
+  // Last workspace written to IndexedDB, to find the datasets that changed since
+  const savedWorkspace = useRef<Workspace | null>(null);
+
+  const active = workspace.datasets.find((d) => d.id === workspace.activeId) ?? workspace.datasets[0];
+  const data = active.points;
+  const featureKeys = active.featureKeys;
+  const model = active.model;
+  const units = active.units;
+
+  function updateActive(update: (d: Dataset) => Dataset) {
+    setWorkspace((ws) => ({
+      ...ws,
+      datasets: ws.datasets.map((d) => (d.id === ws.activeId ? update(d) : d)),
+    }));
+  }
+
+  // Editing points invalidates the saved model; new feature columns are picked up from the points
+  function setData(update: SetStateAction<DataPoint[]>) {
+    updateActive((d) => {
+      const points = applyUpdate(update, d.points);
+      const found = collectFeatureKeys(points).filter((k) => !d.featureKeys.includes(k));
+      return {
+        ...d,
+        points,
+        featureKeys: found.length > 0 ? [...d.featureKeys, ...found] : d.featureKeys,
+        model: null,
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  function setFeatureKeys(update: SetStateAction<string[]>) {
+    updateActive((d) => ({ ...d, featureKeys: applyUpdate(update, d.featureKeys) }));
+  }
+
+  function setModel(m: RegressionResult | null) {
+    updateActive((d) => ({ ...d, model: m }));
+  }
+
+  // A new area unit converts the stored areas and re-expresses the trained model, so
+  // predictions are unchanged; currency and locale only affect formatting and parsing
+  function changeUnits(next: Units) {
+    updateActive((d) => {
+      if (next.area === d.units.area) return { ...d, units: next };
+      return {
+        ...d,
+        units: next,
+        points: convertPoints(d.points, d.units.area, next.area),
+        model: d.model ? rescaleArea(d.model, areaFactor(d.units.area, next.area)) : null,
+        ...(d.synthetic ? { synthetic: rescaleSyntheticSpec(d.synthetic, areaFactor(d.units.area, next.area)) } : {}),
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  }
 
   // Training form
   const [area, setArea] = useState<string>("");
@@ -92,112 +278,613 @@ export default function Page() {
   const [formError, setFormError] = useState<string>("");
   const [areaError, setAreaError] = useState<string | null>(null);
   const [priceError, setPriceError] = useState<string | null>(null);
+  const [featureInputs, setFeatureInputs] = useState<Record<string, string>>({});
+  const [featureErrors, setFeatureErrors] = useState<Record<string, string | null>>({});
+  const [categoryInput, setCategoryInput] = useState<string>("");
+  const [weightInput, setWeightInput] = useState<string>("");
+  const [dateInput, setDateInput] = useState<string>("");
+  const [weightError, setWeightError] = useState<string | null>(null);
+  const [dateError, setDateError] = useState<string | null>(null);
+
+  // Extra feature columns
+  const [newFeature, setNewFeature] = useState<string>("");
 
   // Model
-  const [model, setModel] = useState<RegressionResult | null>(null);
+  // Same options fitted on every point, shown when some points are excluded
+  const [allPointsModel, setAllPointsModel] = useState<RegressionResult | null>(null);
   const [trainError, setTrainError] = useState<string>("");
+  const [trainIssues, setTrainIssues] = useState<FitDiagnostic[]>([]);
+  const [selectedFeatures, setSelectedFeatures] = useState<string[]>([AREA]);
+  const [modelType, setModelType] = useState<ModelType>("linear");
+  const [degree, setDegree] = useState<number>(2);
+  const [breakpointCount, setBreakpointCount] = useState<number>(1);
+  const [continuous, setContinuous] = useState<boolean>(true);
+  const [fitMethod, setFitMethod] = useState<FitMethod>("ols");
+  const [huberK, setHuberK] = useState<string>(String(DEFAULT_HUBER_K));
+  const [ransacThreshold, setRansacThreshold] = useState<string>("");
+  const [grouping, setGrouping] = useState<GroupingMode>("none");
+  const [weighting, setWeighting] = useState<WeightingMode>("none");
+  const [halfLife, setHalfLife] = useState<string>(String(DEFAULT_HALF_LIFE_DAYS));
+  const [mixing, setMixing] = useState<string>(String(DEFAULT_MIXING));
+  // Least-squares fit with the same options, overlaid when a robust or regularized method is active
+  const [olsModel, setOlsModel] = useState<RegressionResult | null>(null);
+  // Fraction of model fits done while training runs in the worker, null when idle
+  const [trainProgress, setTrainProgress] = useState<number | null>(null);
+  const trainingRun = useRef<number>(0);
+  const trainerRef = useRef<Trainer | null>(null);
+
+  // Validation
+  const [validationMode, setValidationMode] = useState<ValidationMode>("none");
+  const [testPercent, setTestPercent] = useState<string>("20");
+  const [folds, setFolds] = useState<string>("5");
+  const [seedInput, setSeedInput] = useState<string>("");
+  const [evaluation, setEvaluation] = useState<Evaluation | null>(null);
 
   // Prediction
   const [predictArea, setPredictArea] = useState<string>("");
+  const [predictFeatures, setPredictFeatures] = useState<Record<string, string>>({});
+  const [predictCategory, setPredictCategory] = useState<string>("");
   const [predictError, setPredictError] = useState<string>("");
   const [predictedPrice, setPredictedPrice] = useState<number | null>(null);
+  const [predictedRange, setPredictedRange] = useState<[number, number] | null>(null);
+  const [predictedInput, setPredictedInput] = useState<PredictionInput | null>(null);
+  const [bootstrap, setBootstrap] = useState<BootstrapResult | null>(null);
+  const [intervalLevel, setIntervalLevel] = useState<string>("95");
+  const [batchRows, setBatchRows] = useState<string[][]>([]);
+  const [batchIntervals, setBatchIntervals] = useState<boolean>(true);
+  const [descentLine, setDescentLine] = useState<{ m: number; b: number } | null>(null);
+  const [chartTab, setChartTab] = useState<"fit" | "diagnostics" | "regularization">("fit");
+
+  // Chart editing
+  const [chartMode, setChartMode] = useState<ChartEditMode>("view");
+  const [chartError, setChartError] = useState<string>("");
+  // Position of the point being dragged; it is only written to the dataset on release
+  const [dragged, setDragged] = useState<{ id: string; area: number; price: number } | null>(null);
+  // Axis domains held while dragging so the chart does not rescale under the pointer
+  const [chartDomain, setChartDomain] = useState<ChartBox | null>(null);
+  const [liveModel, setLiveModel] = useState<RegressionResult | null>(null);
+  const liveFit = useRef<{ busy: boolean; next: DataPoint[] | null }>({ busy: false, next: null });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Charts for the report are copied from the Visualization section as currently drawn
+  const chartsRef = useRef<HTMLElement>(null);
 
-  // Load data from localStorage
+  // Model comparison
+  const [pinned, setPinned] = useState<PinnedModel[]>([]);
+  const [pinning, setPinning] = useState<boolean>(false);
+  const [pinError, setPinError] = useState<string>("");
+
+  // Load the workspace, upgrading older formats. IndexedDB is preferred; browsers without
+  // it (or with it blocked) fall back to localStorage.
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return;
-      const parsed = JSON.parse(raw) as DataPoint[];
-      if (Array.isArray(parsed)) setData(parsed);
-    } catch {
-      // ignore
+    async function load() {
+      let result: { workspace: Workspace; warning: string | null } | null = null;
+      if (indexedDbAvailable()) {
+        try {
+          result = await loadWorkspaceDb(legacyStorage());
+          storageBackend.current = "indexeddb";
+          savedWorkspace.current = result.workspace;
+        } catch {
+          result = null;
+        }
+      }
+      if (!result) {
+        try {
+          result = loadWorkspace(localStorage);
+          storageBackend.current = "localstorage";
+        } catch {
+          // No storage at all (e.g. disabled); keep the in-memory workspace
+        }
+      }
+      if (result) {
+        setWorkspace(result.workspace);
+        if (result.warning) setStorageWarning(result.warning);
+      }
+      setLoaded(true);
+
+      // A share link opens as a new dataset next to the saved ones
+      const encoded = readShareHash(window.location.hash);
+      if (!encoded) return;
+      history.replaceState(null, "", window.location.pathname + window.location.search);
+      try {
+        const shared = await decodeShare(encoded);
+        const dataset: Dataset = {
+          ...createDataset(`Shared: ${shared.name}`, shared.points),
+          featureKeys: shared.featureKeys,
+          units: shared.units,
+          model: shared.model,
+        };
+        setWorkspace((ws) => ({ ...ws, activeId: dataset.id, datasets: [...ws.datasets, dataset] }));
+      } catch (err) {
+        setStorageWarning(err instanceof Error ? err.message : "Could not open the share link.");
+      }
     }
+    load();
   }, []);
 
-  // Persist
+  // Persist shortly after the last change, but never before loading so unreadable data
+  // is not overwritten. IndexedDB saves only rewrite the datasets that changed.
   useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    } catch {
-      // ignore
-    }
-  }, [data]);
+    if (!loaded) return;
+    const timer = setTimeout(() => {
+      if (storageBackend.current === "indexeddb") {
+        // The baseline only advances once the write commits, so a failed save is written again next time
+        saveWorkspaceDb(savedWorkspace.current, workspace)
+          .then(() => {
+            savedWorkspace.current = workspace;
+          })
+          .catch(() => {
+            setStorageWarning("Saving to the browser database failed; recent changes may be lost on reload.");
+          });
+      } else if (storageBackend.current === "localstorage") {
+        try {
+          saveWorkspace(localStorage, workspace);
+        } catch {
+          setStorageWarning("Saving to localStorage failed (the dataset may be too large for it).");
+        }
+      }
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workspace, loaded]);
 
-  // Reset model when data changes
+  // Reset derived results when the points change or another dataset is selected;
+  // the trained model itself lives on the dataset
   useEffect(() => {
-    setModel(null);
+    setAllPointsModel(null);
+    setOlsModel(null);
+    setEvaluation(null);
     setPredictedPrice(null);
+    setPredictedRange(null);
+    setBootstrap(null);
     setTrainError("");
+    setTrainIssues([]);
     setPredictError("");
+    setSelectedIds([]);
+    setLiveModel(null);
+    trainingRun.current++;
+    setTrainProgress(null);
   }, [data]);
 
-  const canAddMore = data.length < 50;
+  useEffect(() => () => trainerRef.current?.dispose(), []);
+
+  // Resamples belong to the model they were drawn for
+  useEffect(() => setBootstrap(null), [model]);
+
+  const modelFeatures = model ? model.features : selectedFeatures;
+  const categories = useMemo(() => collectCategories(data), [data]);
+  const categoryColor = (c: string) => CATEGORY_COLORS[Math.max(0, categories.indexOf(c)) % CATEGORY_COLORS.length];
+
+  // The worker is started on first use
+  function trainer(): Trainer {
+    if (!trainerRef.current) trainerRef.current = createTrainer();
+    return trainerRef.current;
+  }
 
   function onSubmitTraining(e: React.FormEvent) {
     e.preventDefault();
     setFormError("");
 
-    const a = parseNumber(area);
-    const p = parseNumber(price);
+    const a = parseNumber(area, units.locale);
+    const p = parseNumber(price, units.locale);
+
+    const aErr = validateArea(a, units);
+    const pErr = validatePrice(p, units);
+
+    // Extra features are optional; blank inputs are left unset on the point
+    const features: Record<string, number> = {};
+    const fErrs: Record<string, string | null> = {};
+    featureKeys.forEach((k) => {
+      const raw = featureInputs[k] ?? "";
+      if (raw.trim() === "") return;
+      const v = parseNumber(raw, units.locale);
+      fErrs[k] = validateFeature(v);
+      if (!fErrs[k]) features[k] = v;
+    });
 
-    const aErr = validateArea(a);
-    const pErr = validatePrice(p);
+    // Weight and sale date are optional too; a blank weight counts as 1 in weighted fits
+    const weight = weightInput.trim() === "" ? undefined : parseNumber(weightInput, units.locale);
+    const wErr = weight === undefined ? null : validateWeight(weight);
+    const date = dateInput.trim();
+    const dErr = date === "" ? null : validateSaleDate(date);
 
     setAreaError(aErr);
     setPriceError(pErr);
+    setFeatureErrors(fErrs);
+    setWeightError(wErr);
+    setDateError(dErr);
 
-    if (aErr || pErr) return;
+    if (aErr || pErr || wErr || dErr || Object.values(fErrs).some((err) => err)) return;
 
-    if (!canAddMore && editId === null) {
-      setFormError("Maximum of 50 entries reached.");
-      return;
-    }
+    const category = categoryInput.trim();
+    const extra = {
+      ...(Object.keys(features).length > 0 ? { features } : {}),
+      ...(category !== "" ? { category } : {}),
+      ...(weight !== undefined ? { weight } : {}),
+      ...(date !== "" ? { date } : {}),
+    };
 
     if (editId) {
       setData((prev) =>
-        prev.map((d) => (d.id === editId ? { ...d, area: a, price: p } : d))
+        prev.map((d) => {
+          if (d.id !== editId) return d;
+          const { features: _old, category: _oldCategory, weight: _oldWeight, date: _oldDate, ...rest } = d;
+          return { ...rest, area: a, price: p, ...extra };
+        })
       );
       setEditId(null);
     } else {
-      setData((prev) => [...prev, { id: makeId(), area: a, price: p }]);
+      setData((prev) => [...prev, { id: makeId(), area: a, price: p, ...extra }]);
     }
 
     setArea("");
     setPrice("");
+    setFeatureInputs({});
+    setCategoryInput("");
+    setWeightInput("");
+    setDateInput("");
     setAreaError(null);
     setPriceError(null);
+    setFeatureErrors({});
+    setWeightError(null);
+    setDateError(null);
   }
 
   function startEdit(d: DataPoint) {
     setEditId(d.id);
-    setArea(String(d.area));
-    setPrice(String(d.price));
+    setArea(formatPlain(d.area, units.locale));
+    setPrice(formatPlain(d.price, units.locale));
+    setCategoryInput(d.category ?? "");
+    setWeightInput(d.weight !== undefined ? formatPlain(d.weight, units.locale) : "");
+    setDateInput(d.date ?? "");
+    setFeatureInputs(
+      Object.fromEntries(Object.entries(d.features ?? {}).map(([k, v]) => [k, formatPlain(v, units.locale)]))
+    );
     setAreaError(null);
     setPriceError(null);
+    setFeatureErrors({});
+    setWeightError(null);
+    setDateError(null);
     setFormError("");
   }
 
+  function toggleExcluded(id: string) {
+    setData((prev) =>
+      prev.map((d) => {
+        if (d.id !== id) return d;
+        const { excluded, ...rest } = d;
+        return excluded ? rest : { ...rest, excluded: true };
+      })
+    );
+  }
+
   function remove(id: string) {
     setData((prev) => prev.filter((d) => d.id !== id));
   }
 
+  function movedPoints(id: string, a: number, p: number): DataPoint[] {
+    return data.map((d) => (d.id === id ? { ...d, area: a, price: p } : d));
+  }
+
+  function addFromChart(a: number, p: number) {
+    const err = validateArea(a, units) ?? validatePrice(p, units);
+    setChartError(err ?? "");
+    if (!err) setData((prev) => [...prev, { id: makeId(), area: a, price: p }]);
+  }
+
+  function startDrag(id: string, domain: ChartBox) {
+    const d = data.find((x) => x.id === id);
+    if (!d) return;
+    setChartError("");
+    setChartDomain(domain);
+    setDragged({ id, area: d.area, price: d.price });
+  }
+
+  // The active model's settings are refitted in the worker as the point moves. Only the
+  // latest position waits in the queue, so slow fits skip the positions in between.
+  function dragPoint(id: string, a: number, p: number) {
+    setDragged({ id, area: a, price: p });
+    if (!modelOptions) return;
+    liveFit.current.next = movedPoints(id, a, p);
+    if (!liveFit.current.busy) runLiveFits(modelOptions);
+  }
+
+  async function runLiveFits(options: FitOptions) {
+    const queue = liveFit.current;
+    const run = trainingRun.current;
+    queue.busy = true;
+    while (queue.next) {
+      const points = queue.next;
+      queue.next = null;
+      try {
+        const r = await trainer().train({ points, options, validation: NO_VALIDATION });
+        if (run === trainingRun.current) setLiveModel(r.model);
+      } catch {
+        // Degenerate positions (e.g. every point at one area) have no line until the point moves on
+        if (run === trainingRun.current) setLiveModel(null);
+      }
+    }
+    queue.busy = false;
+  }
+
+  function endDrag() {
+    liveFit.current.next = null;
+    setDragged(null);
+    setChartDomain(null);
+    setLiveModel(null);
+  }
+
+  // Invalid positions snap back. Valid ones are saved together with a refit of the active
+  // model's settings, so the line stays on the chart instead of waiting for "Train model".
+  async function dropPoint(id: string, a: number, p: number) {
+    const err = validateArea(a, units) ?? validatePrice(p, units);
+    if (err) {
+      setChartError(`Point moved back: ${err}`);
+      endDrag();
+      return;
+    }
+    const points = movedPoints(id, a, p);
+    let refit: RegressionResult | null = null;
+    if (modelOptions) {
+      const run = trainingRun.current;
+      try {
+        refit = (await trainer().train({ points, options: modelOptions, validation: NO_VALIDATION })).model;
+      } catch {
+        setChartError("The edited points could not be fitted; train the model again to see why.");
+      }
+      if (run !== trainingRun.current) {
+        endDrag();
+        return;
+      }
+    }
+    setData(points);
+    if (refit) setModel(refit);
+    endDrag();
+  }
+
+  function selectBox(box: ChartBox) {
+    setChartError("");
+    setSelectedIds(pointsInBox(data, box).map((d) => d.id));
+  }
+
+  function excludeSelected() {
+    const ids = new Set(selectedIds);
+    setData((prev) => prev.map((d) => (ids.has(d.id) && !d.excluded ? { ...d, excluded: true } : d)));
+  }
+
+  function deleteSelected() {
+    if (!window.confirm(`Delete ${selectedIds.length} selected point(s)?`)) return;
+    const ids = new Set(selectedIds);
+    setData((prev) => prev.filter((d) => !ids.has(d.id)));
+  }
+
+  function addFeature(e: React.FormEvent) {
+    e.preventDefault();
+    const suggested = SUGGESTED_FEATURES.find((f) => f.label.toLowerCase() === newFeature.trim().toLowerCase());
+    const key = suggested ? suggested.key : toFeatureKey(newFeature);
+    if (key === "" || key === AREA || key === CATEGORY || key === "price" || featureKeys.includes(key)) return;
+    setFeatureKeys((prev) => [...prev, key]);
+    setNewFeature("");
+  }
+
+  function removeFeature(key: string) {
+    const used = data.some((d) => d.features && key in d.features);
+    if (used && !window.confirm(`Remove ${featureLabel(key)} and its values from every point?`)) return;
+    setFeatureKeys((prev) => prev.filter((k) => k !== key));
+    setSelectedFeatures((prev) => prev.filter((k) => k !== key));
+    if (used) {
+      setData((prev) =>
+        prev.map((d) => {
+          if (!d.features || !(key in d.features)) return d;
+          const { [key]: _removed, ...features } = d.features;
+          const { features: _old, ...rest } = d;
+          return Object.keys(features).length > 0 ? { ...rest, features } : rest;
+        })
+      );
+    }
+  }
+
+  function toggleSelectedFeature(key: string, on: boolean) {
+    setSelectedFeatures((prev) =>
+      on ? [AREA, ...featureKeys].filter((k) => k === key || prev.includes(k)) : prev.filter((k) => k !== key)
+    );
+  }
+
+  function selectDataset(id: string) {
+    cancelEdit();
+    setWorkspace((ws) => ({ ...ws, activeId: id }));
+  }
+
+  function createNewDataset(name: string) {
+    const dataset = { ...createDataset(name), units };
+    setWorkspace((ws) => ({ ...ws, activeId: dataset.id, datasets: [...ws.datasets, dataset] }));
+  }
+
+  // Sample and generated datasets open alongside the others, in their own units
+  function createSampleDataset(name: string, points: DataPoint[], sampleUnits: Units, synthetic?: SyntheticSpec) {
+    cancelEdit();
+    const dataset: Dataset = {
+      ...createDataset(name, points),
+      units: sampleUnits,
+      ...(synthetic ? { synthetic } : {}),
+    };
+    setWorkspace((ws) => ({ ...ws, activeId: dataset.id, datasets: [...ws.datasets, dataset] }));
+  }
+
+  function renameDataset(id: string, name: string) {
+    setWorkspace((ws) => ({
+      ...ws,
+      datasets: ws.datasets.map((d) => (d.id === id ? { ...d, name, updatedAt: new Date().toISOString() } : d)),
+    }));
+  }
+
+  function duplicateDataset(id: string) {
+    const source = workspace.datasets.find((d) => d.id === id);
+    if (!source) return;
+    const copy: Dataset = {
+      ...createDataset(`${source.name} (copy)`),
+      points: source.points.map((p) => ({ ...p, id: makeId() })),
+      featureKeys: [...source.featureKeys],
+      units: source.units,
+      ...(source.synthetic ? { synthetic: source.synthetic } : {}),
+    };
+    setWorkspace((ws) => ({ ...ws, activeId: copy.id, datasets: [...ws.datasets, copy] }));
+  }
+
+  function deleteDataset(id: string) {
+    cancelEdit();
+    setWorkspace((ws) => {
+      const datasets = ws.datasets.filter((d) => d.id !== id);
+      if (datasets.length === 0) return ws;
+      return { ...ws, datasets, activeId: ws.activeId === id ? datasets[0].id : ws.activeId };
+    });
+  }
+
+  function onImport(points: DataPoint[], mode: ImportMode): string | null {
+    setData((prev) => (mode === "append" ? [...prev, ...points] : points));
+    // Replaced points no longer come from the generator
+    if (mode === "replace") updateActive(({ synthetic: _synthetic, ...d }) => d);
+    return null;
+  }
+
+  function exportData() {
+    const hasWeights = data.some((d) => d.weight !== undefined);
+    const hasDates = data.some((d) => d.date !== undefined);
+    downloadText(
+      "training-data.csv",
+      toCsv(
+        [
+          "area",
+          "price",
+          ...featureKeys,
+          ...(categories.length > 0 ? [CATEGORY] : []),
+          ...(hasWeights ? ["weight"] : []),
+          ...(hasDates ? ["sale_date"] : []),
+        ],
+        data.map((d) => [
+          d.area,
+          d.price,
+          ...featureKeys.map((k) => d.features?.[k] ?? ""),
+          ...(categories.length > 0 ? [d.category ?? ""] : []),
+          ...(hasWeights ? [d.weight ?? ""] : []),
+          ...(hasDates ? [d.date ?? ""] : []),
+        ]),
+        units.locale
+      )
+    );
+  }
+
+  function exportResiduals() {
+    downloadText(
+      "residuals.csv",
+      toCsv(
+        ["area", "actual", "predicted", "residual"],
+        residuals.map((r) => [r.area, r.actual, r.predicted, r.residual]),
+        units.locale
+      )
+    );
+  }
+
   function cancelEdit() {
     setEditId(null);
     setArea("");
     setPrice("");
+    setFeatureInputs({});
+    setCategoryInput("");
+    setWeightInput("");
+    setDateInput("");
     setAreaError(null);
     setPriceError(null);
+    setFeatureErrors({});
+    setWeightError(null);
+    setDateError(null);
     setFormError("");
   }
 
-  function train() {
+  async function train() {
     setTrainError("");
+    setTrainIssues([]);
+
+    const testFraction = parseNumber(testPercent, units.locale) / 100;
+    const k = parseNumber(folds, units.locale);
+    const seed = seedInput.trim() === "" ? randomSeed() : Math.trunc(parseNumber(seedInput, units.locale));
+    if (validationMode === "holdout" && !(testFraction > 0 && testFraction < 1)) {
+      setTrainError("Test fraction must be between 0 and 100%.");
+      return;
+    }
+    if (validationMode === "kfold" && !(Number.isInteger(k) && k >= 2)) {
+      setTrainError("Folds must be a whole number of at least 2.");
+      return;
+    }
+    if (!Number.isFinite(seed)) {
+      setTrainError("Seed must be a number.");
+      return;
+    }
+    const kHuber = parseNumber(huberK, units.locale);
+    if (fitMethod === "huber" && !(kHuber > 0)) {
+      setTrainError("Huber constant must be a positive number.");
+      return;
+    }
+    const threshold = ransacThreshold.trim() === "" ? undefined : parseNumber(ransacThreshold, units.locale);
+    if (fitMethod === "ransac" && threshold !== undefined && !(threshold > 0)) {
+      setTrainError("Inlier threshold must be a positive number (or blank for automatic).");
+      return;
+    }
+
+    const l1Share = parseNumber(mixing, units.locale);
+    if (fitMethod === "elastic-net" && !(l1Share >= 0 && l1Share <= 1)) {
+      setTrainError("L1 share must be between 0 and 1.");
+      return;
+    }
+
+    // Weighting applies to least squares only; the robust methods set their own weights
+    const weighted = fitMethod === "ols" && weighting !== "none";
+    const halfLifeDays = parseNumber(halfLife, units.locale);
+    if (weighted && weighting !== "manual" && !(halfLifeDays > 0)) {
+      setTrainError("Half-life must be a positive number of days.");
+      return;
+    }
+
+    const options: FitOptions = {
+      features: selectedFeatures,
+      modelType,
+      degree,
+      ...(modelType === "segmented" ? { breakpointCount, continuous } : {}),
+      method: fitMethod,
+      ...(weighted ? { weighting, halfLifeDays } : {}),
+      ...(fitMethod === "elastic-net" ? { mixing: l1Share } : {}),
+      huberK: kHuber,
+      ransacThreshold: threshold,
+      seed,
+      // Levels come from every point in the fit so a validation split cannot silently drop one
+      ...(categories.length > 0 && grouping !== "none"
+        ? { grouping, categories: collectCategories(includedPoints) }
+        : {}),
+    };
+
+    // Results are dropped if the points change (or another dataset is selected) meanwhile
+    const run = ++trainingRun.current;
+    setTrainProgress(0);
     try {
-      const r = calculateRegression(data);
-      setModel(r);
+      const r = await trainer().train(
+        { points: data, options, validation: { mode: validationMode, testFraction, folds: k, seed } },
+        (fraction) => {
+          if (run === trainingRun.current) setTrainProgress(fraction);
+        }
+      );
+      if (run !== trainingRun.current) return;
+      setModel(r.model);
+      setEvaluation(r.evaluation);
+      setOlsModel(r.olsModel);
+      setAllPointsModel(r.allPointsModel);
     } catch (err) {
+      if (run !== trainingRun.current) return;
       setModel(null);
-      setTrainError(err instanceof Error ? err.message : "Failed to train model");
+      setAllPointsModel(null);
+      setOlsModel(null);
+      setEvaluation(null);
+      if (err instanceof FitError) setTrainIssues(err.diagnostics);
+      else setTrainError(err instanceof Error ? err.message : "Failed to train model");
+    } finally {
+      if (run === trainingRun.current) setTrainProgress(null);
     }
   }
 
@@ -208,50 +895,351 @@ export default function Page() {
     if (!model) {
       setPredictError("Train the model first.");
       setPredictedPrice(null);
+      setPredictedRange(null);
       return;
     }
 
-    const a = parseNumber(predictArea);
-    const err = validateArea(a);
-    if (err) {
-      setPredictError(err);
+    const level = parseNumber(intervalLevel, units.locale) / 100;
+    if (!(level > 0 && level < 1)) {
+      setPredictError("Interval level must be between 0 and 100%.");
       setPredictedPrice(null);
+      setPredictedRange(null);
       return;
     }
 
-    const y = predictPrice(a, model.m, model.b);
-    setPredictedPrice(y);
+    const input: PredictionInput = { area: NaN, features: {} };
+    if (model.categories) {
+      if (!model.categories.includes(predictCategory)) {
+        setPredictError("Choose a category; the model predicts each one differently.");
+        setPredictedPrice(null);
+        setPredictedRange(null);
+        return;
+      }
+      input.category = predictCategory;
+    }
+    for (const f of model.features) {
+      if (f === AREA) {
+        input.area = parseNumber(predictArea, units.locale);
+        const err = validateArea(input.area, units);
+        if (err) {
+          setPredictError(err);
+          setPredictedPrice(null);
+          setPredictedRange(null);
+          return;
+        }
+      } else {
+        const v = parseNumber(predictFeatures[f] ?? "", units.locale);
+        const err = validateFeature(v);
+        if (err) {
+          setPredictError(`${featureLabel(f)}: ${err}`);
+          setPredictedPrice(null);
+          setPredictedRange(null);
+          return;
+        }
+        input.features![f] = v;
+      }
+    }
+
+    const band = predictWithInterval(input, model, level);
+    setPredictedInput(input);
+    setPredictedPrice(band.price);
+    setPredictedRange(supportsIntervals(model) ? band.prediction : null);
+  }
+
+  // Snapshots the active model with its metrics; the cross-validation refits run in the worker
+  async function pinModel() {
+    if (!model || !modelOptions) return;
+    setPinError("");
+    setPinning(true);
+    const points = trainPoints;
+    const folds = Math.min(COMPARISON_FOLDS, points.length);
+    let cv: ErrorMetrics | null = null;
+    try {
+      if (folds >= 2) {
+        const outcome = await trainer().train({
+          points,
+          options: modelOptions,
+          validation: { mode: "kfold", testFraction: 0, folds, seed: COMPARISON_SEED },
+        });
+        cv = outcome.evaluation.outOfSample;
+      }
+    } catch (err) {
+      // The pin is still useful without the column
+      setPinError(`Cross-validation failed, so CV RMSE is blank: ${err instanceof Error ? err.message : "unknown error"}`);
+    }
+    const pin: PinnedModel = {
+      id: makeId(),
+      label: modelLabel(model),
+      datasetId: active.id,
+      datasetName: active.name,
+      units,
+      model,
+      metrics: comparisonMetrics(points, model, cv),
+      excluded: excludedPoints.length,
+    };
+    setPinned((prev) => [...prev, pin]);
+    setPinning(false);
+  }
+
+  function buildPageReport(print: boolean): string {
+    const level = parseNumber(intervalLevel, units.locale) / 100;
+    return buildReport(
+      {
+        datasetName: active.name,
+        units,
+        points: data,
+        featureKeys,
+        model,
+        trainPoints,
+        evaluation,
+        tests: model && trainPoints.length > 0 ? assumptionTests(trainPoints, model) : [],
+        influence: Array.from(diagnostics.values()),
+        prediction:
+          model && predictedPrice !== null && predictedInput
+            ? { input: predictedInput, price: predictedPrice, range: predictedRange, level }
+            : null,
+        batch: batch.results,
+        charts: chartsRef.current
+          ? findCharts(chartsRef.current)
+              .map((card) => chartImage(card))
+              .filter((c): c is ChartImage => c !== null)
+          : [],
+      },
+      { print }
+    );
+  }
+
+  // Makes a pinned model the active one for the selected dataset, like loading an artifact
+  function promotePin(pin: PinnedModel) {
+    setModel(
+      pin.units.area !== units.area ? rescaleArea(pin.model, areaFactor(pin.units.area, units.area)) : pin.model
+    );
+    setEvaluation(null);
+    setOlsModel(null);
+    setAllPointsModel(null);
+    setTrainIssues([]);
+    setPredictedPrice(null);
+    setPredictedRange(null);
   }
 
-  const regressionLine = useMemo(() => {
-    if (!model || data.length === 0) return [] as { area: number; price: number }[];
-    const xs = data.map((d) => d.area);
-    const minX = Math.min(...xs);
-    const maxX = Math.max(...xs);
-    return [
-      { area: minX, price: predictPrice(minX, model.m, model.b) },
-      { area: maxX, price: predictPrice(maxX, model.m, model.b) },
-    ];
-  }, [model, data]);
+  const featureMeans = useMemo(() => featureMeansFor(model, data), [model, data]);
+  // While a point is dragged the chart shows its live refit instead of the saved model
+  const chartModel = dragged && liveModel ? liveModel : model;
+
+  // Straight lines need two points; curved families are sampled along the area range
+  const regressionLine = useMemo(
+    () => sampleCurve(chartModel, data, featureMeans),
+    [chartModel, data, featureMeans]
+  );
+  // Each category gets its own line over its own area range
+  const categoryLines = useMemo(
+    () =>
+      (chartModel?.categories ?? []).map((c) => ({
+        category: c,
+        line: sampleCurve(chartModel, data.filter((d) => d.category === c), featureMeans, c),
+      })),
+    [chartModel, data, featureMeans]
+  );
+  const bootstrapLines = useMemo(
+    () =>
+      model && !model.categories && bootstrap && !dragged
+        ? bootstrap.samples.slice(0, BOOTSTRAP_LINES).map((s) => sampleCurve(sampleModel(model, s), data, featureMeans))
+        : [],
+    [model, bootstrap, dragged, data, featureMeans]
+  );
+  // Refits of the active model (bootstrap, pinned cross-validation) reuse its settings, including
+  // a regularized fit's λ; robust tuning comes from the current inputs
+  const modelOptions = useMemo<FitOptions | null>(() => {
+    if (!model) return null;
+    const kHuber = parseNumber(huberK, units.locale);
+    const threshold = parseNumber(ransacThreshold, units.locale);
+    return {
+      features: model.features,
+      modelType: model.modelType,
+      degree: model.degree,
+      ...segmentOptions(model),
+      method: model.method,
+      huberK: kHuber > 0 ? kHuber : DEFAULT_HUBER_K,
+      ransacThreshold: threshold > 0 ? threshold : undefined,
+      seed: 0,
+      ...(model.grouping ? { grouping: model.grouping, categories: model.categories } : {}),
+      ...(model.weighting ? { weighting: model.weighting.mode, halfLifeDays: model.weighting.halfLifeDays } : {}),
+      // Refits keep the cross-validated λ rather than choosing their own
+      ...(model.regularization ? { mixing: model.regularization.mixing, lambda: model.regularization.lambda } : {}),
+    };
+  }, [model, huberK, ransacThreshold, units.locale]);
+  const olsLine = useMemo(() => sampleCurve(olsModel, data, featureMeans), [olsModel, data, featureMeans]);
+  // Pins are drawn in the selected dataset's area unit, skipping those it has no features for
+  const pinnedLines = useMemo(
+    () =>
+      pinned.map((pin) => {
+        if (!hasFeatures(pin.model, featureKeys)) return [];
+        const m = pin.units.area !== units.area ? rescaleArea(pin.model, areaFactor(pin.units.area, units.area)) : pin.model;
+        return sampleCurve(m, data, featureMeansFor(m, data));
+      }),
+    [pinned, featureKeys, units.area, data]
+  );
+  const allPointsLine = useMemo(
+    () => sampleCurve(allPointsModel, data, featureMeans),
+    [allPointsModel, data, featureMeans]
+  );
+
+  // Confidence and prediction bands, sampled along the area range (bands are curved)
+  const intervalBands = useMemo(() => {
+    const level = parseNumber(intervalLevel, units.locale) / 100;
+    if (
+      !chartModel ||
+      chartModel.categories ||
+      !supportsIntervals(chartModel) ||
+      !chartModel.features.includes(AREA) ||
+      !(level > 0 && level < 1)
+    ) {
+      return [] as { area: number; confidence: [number, number]; prediction: [number, number] }[];
+    }
+    const [minX, maxX] = extent(data.map((d) => d.area));
+    const steps = 40;
+    // Segmented bands also bend at the breakpoints
+    const knots = (chartModel.segmented?.breakpoints ?? []).map((c) => c.value).filter((c) => c > minX && c < maxX);
+    const areas = Array.from({ length: steps + 1 }, (_, i) => minX + ((maxX - minX) * i) / steps);
+    return [...areas, ...knots].sort((x, y) => x - y).map((a) => {
+      const band = predictWithInterval({ area: a, features: featureMeans }, chartModel, level);
+      return { area: a, confidence: band.confidence, prediction: band.prediction };
+    });
+  }, [chartModel, data, featureMeans, intervalLevel, units.locale]);
+
+  const testIds = useMemo(() => new Set(evaluation?.testIds ?? []), [evaluation]);
+  const trainPoints = useMemo(() => data.filter((d) => !testIds.has(d.id) && !d.excluded), [data, testIds]);
+  const testPoints = useMemo(() => data.filter((d) => testIds.has(d.id)), [data, testIds]);
+  const excludedPoints = useMemo(() => data.filter((d) => d.excluded), [data]);
+  const includedPoints = useMemo(() => data.filter((d) => !d.excluded), [data]);
+  const descentLineData = useMemo(() => {
+    if (!descentLine || data.length === 0) return [];
+    return extent(data.map((d) => d.area)).map((a) => ({ area: a, price: descentLine.m * a + descentLine.b }));
+  }, [descentLine, data]);
+  const ransacOutliers = useMemo(() => {
+    const inliers = model?.robust?.inlierIds;
+    if (!inliers) return [] as DataPoint[];
+    const kept = new Set(inliers);
+    return trainPoints.filter((d) => !kept.has(d.id));
+  }, [model, trainPoints]);
+
+  // Batch rows are re-read whenever the model changes, since its features decide the columns
+  const batch = useMemo(() => {
+    const empty = { results: [] as BatchPrediction[], errors: [] as RowError[], parseError: "" };
+    if (batchRows.length === 0) return empty;
+    if (!model) return { ...empty, parseError: "Train the model first." };
+    try {
+      const { inputs, errors } = parseBatch(batchRows, model.features, units, model.categories);
+      const range = trainPoints.length > 0 ? extent(trainPoints.map((d) => d.area)) : null;
+      const level = parseNumber(intervalLevel, units.locale) / 100;
+      const results = predictBatch(inputs, model, range, batchIntervals && level > 0 && level < 1 ? level : null);
+      return { results, errors, parseError: "" };
+    } catch (err) {
+      return { ...empty, parseError: err instanceof Error ? err.message : "Could not read the batch" };
+    }
+  }, [batchRows, model, trainPoints, intervalLevel, batchIntervals, units]);
+
+  const batchPoints = useMemo(
+    () => (model?.features.includes(AREA) ? batch.results.map((r) => ({ area: r.area, price: r.price })) : []),
+    [model, batch]
+  );
+
+  // Computed in the worker; stale results from an earlier model are ignored
+  const [diagnostics, setDiagnostics] = useState<Map<string, PointDiagnostics>>(() => new Map());
+  useEffect(() => {
+    setDiagnostics(new Map());
+    if (!model) return;
+    let current = true;
+    trainer()
+      .diagnose(trainPoints, model)
+      .then((list) => {
+        if (current) setDiagnostics(new Map(list.map((d) => [d.id, d])));
+      })
+      .catch(() => {
+        // Diagnostics are optional; the table simply shows "-"
+      });
+    return () => {
+      current = false;
+    };
+  }, [model, trainPoints]);
 
   const residuals = useMemo(() => {
-    if (!model) return [] as { area: number; residual: number; actual: number; predicted: number }[];
+    if (!model) {
+      return [] as {
+        id: string;
+        area: number;
+        residual: number;
+        actual: number;
+        predicted: number;
+        test: boolean;
+        excluded: boolean;
+      }[];
+    }
     return data.map((d) => {
-      const yhat = predictPrice(d.area, model.m, model.b);
+      const yhat = predictPrice(d, model);
       return {
+        id: d.id,
         area: d.area,
         residual: d.price - yhat,
         actual: d.price,
         predicted: yhat,
+        test: testIds.has(d.id),
+        excluded: !!d.excluded,
       };
     });
-  }, [model, data]);
+  }, [model, data, testIds]);
+
+  // Scatter series are thinned for drawing only; fits, tables and exports use every point
+  const plotted = useMemo(() => {
+    const byPrice = (series: DataPoint[]) => downsample(series, (d) => d.area, (d) => d.price);
+    const byResidual = (series: typeof residuals) => downsample(series, (r) => r.area, (r) => r.residual);
+    const flagged = (id: string) => {
+      const d = diagnostics.get(id);
+      return !!d && (d.highLeverage || d.outlier || d.influential);
+    };
+    return {
+      train: byPrice(trainPoints),
+      // Uncategorized points come last under an empty category
+      byCategory: [...categories, ""]
+        .map((c) => ({ category: c, points: byPrice(trainPoints.filter((d) => (d.category ?? "") === c)) }))
+        .filter((s) => s.points.length > 0),
+      excluded: byPrice(excludedPoints),
+      test: byPrice(testPoints),
+      ransacOutliers: byPrice(ransacOutliers),
+      batch: downsample(batchPoints, (p) => p.area, (p) => p.price),
+      residuals: byResidual(residuals.filter((r) => !r.test && !r.excluded && !flagged(r.id))),
+      flaggedResiduals: byResidual(residuals.filter((r) => flagged(r.id))),
+      excludedResiduals: byResidual(residuals.filter((r) => r.excluded)),
+      testResiduals: byResidual(residuals.filter((r) => r.test)),
+    };
+  }, [trainPoints, categories, excludedPoints, testPoints, ransacOutliers, batchPoints, residuals, diagnostics]);
+  const weightedShape = useMemo(() => {
+    if (!model?.weighting) return undefined;
+    const { weights } = model.weighting;
+    return <WeightedPoint weights={weights} maxWeight={extent(Object.values(weights))[1]} />;
+  }, [model]);
+  const thinned = plotted.train.length < trainPoints.length || plotted.residuals.length < residuals.length;
+  // The dragged point is drawn where the pointer is; the dataset only changes on release
+  const drawn = useMemo(() => {
+    const place = (series: DataPoint[]) =>
+      dragged ? series.map((d) => (d.id === dragged.id ? { ...d, area: dragged.area, price: dragged.price } : d)) : series;
+    return {
+      train: place(plotted.train),
+      byCategory: plotted.byCategory.map((s) => ({ ...s, points: place(s.points) })),
+      excluded: place(plotted.excluded),
+      test: place(plotted.test),
+    };
+  }, [plotted, dragged]);
+  const selectedPoints = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return downsample(data.filter((d) => ids.has(d.id)), (d) => d.area, (d) => d.price);
+  }, [data, selectedIds]);
 
   const predictionPoint = useMemo(() => {
-    const a = parseNumber(predictArea);
-    if (!model || !Number.isFinite(a) || predictedPrice === null) return [] as any[];
+    const a = parseNumber(predictArea, units.locale);
+    if (!model || !model.features.includes(AREA) || !Number.isFinite(a) || predictedPrice === null) return [] as any[];
     return [{ area: a, price: predictedPrice }];
-  }, [model, predictArea, predictedPrice]);
+  }, [model, predictArea, predictedPrice, units.locale]);
 
   return (
     <main className="min-h-screen bg-zinc-50 text-zinc-900">
@@ -270,19 +1258,76 @@ export default function Page() {
         <section className="mb-10 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
           <div className="flex items-center justify-between gap-4">
             <h2 className="text-lg font-semibold">Training data</h2>
-            <div className="text-xs text-zinc-600">
-              Stored in localStorage • {data.length}/50 points
+            <div className="flex items-center gap-3">
+              <div className="text-xs text-zinc-600">
+                Stored in your browser • {data.length.toLocaleString(units.locale)} points
+              </div>
+              <button
+                type="button"
+                onClick={exportData}
+                disabled={data.length === 0}
+                className="rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Export CSV
+              </button>
             </div>
           </div>
 
+          {storageWarning ? <p className="mt-3 text-sm text-red-600">{storageWarning}</p> : null}
+
+          <DatasetSwitcher
+            datasets={workspace.datasets}
+            activeId={active.id}
+            onSelect={selectDataset}
+            onCreate={createNewDataset}
+            onRename={renameDataset}
+            onDuplicate={duplicateDataset}
+            onDelete={deleteDataset}
+          />
+
+          <UnitSettings units={units} onChange={changeUnits} />
+
+          <form onSubmit={addFeature} className="mt-5 flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-medium">Extra features:</span>
+            {featureKeys.length === 0 ? <span className="text-zinc-600">none</span> : null}
+            {featureKeys.map((k) => (
+              <span key={k} className="inline-flex items-center gap-1 rounded-full border border-zinc-200 px-2 py-0.5">
+                {featureLabel(k)}
+                <button
+                  type="button"
+                  onClick={() => removeFeature(k)}
+                  className="text-zinc-500 hover:text-zinc-900"
+                  aria-label={`Remove ${featureLabel(k)}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              value={newFeature}
+              onChange={(e) => setNewFeature(e.target.value)}
+              list="suggested-features"
+              className="w-36 rounded-lg border border-zinc-200 px-2 py-1 outline-none focus:border-zinc-400"
+              placeholder="e.g., Bedrooms"
+            />
+            <datalist id="suggested-features">
+              {SUGGESTED_FEATURES.filter((f) => !featureKeys.includes(f.key)).map((f) => (
+                <option key={f.key} value={f.label} />
+              ))}
+            </datalist>
+            <button type="submit" className="rounded-lg border border-zinc-200 px-3 py-1 hover:bg-zinc-50">
+              Add column
+            </button>
+          </form>
+
           <form onSubmit={onSubmitTraining} className="mt-5">
             <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
               <div>
-                <label className="block text-sm font-medium">Area (sq m)</label>
+                <label className="block text-sm font-medium">Area ({units.area})</label>
                 <input
                   value={area}
                   onChange={(e) => setArea(e.target.value)}
-                  onBlur={() => setAreaError(validateArea(parseNumber(area)))}
+                  onBlur={() => setAreaError(validateArea(parseNumber(area, units.locale), units))}
                   inputMode="decimal"
                   className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
                   placeholder="e.g., 120"
@@ -291,11 +1336,11 @@ export default function Page() {
               </div>
 
               <div>
-                <label className="block text-sm font-medium">Price (USD)</label>
+                <label className="block text-sm font-medium">Price ({units.currency})</label>
                 <input
                   value={price}
                   onChange={(e) => setPrice(e.target.value)}
-                  onBlur={() => setPriceError(validatePrice(parseNumber(price)))}
+                  onBlur={() => setPriceError(validatePrice(parseNumber(price, units.locale), units))}
                   inputMode="decimal"
                   className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
                   placeholder="e.g., 250000"
@@ -303,11 +1348,70 @@ export default function Page() {
                 {priceError ? <p className="mt-1 text-xs text-red-600">{priceError}</p> : null}
               </div>
 
+              {featureKeys.map((k) => (
+                <div key={k}>
+                  <label className="block text-sm font-medium">
+                    {featureLabel(k)} <span className="font-normal text-zinc-500">(optional)</span>
+                  </label>
+                  <input
+                    value={featureInputs[k] ?? ""}
+                    onChange={(e) => setFeatureInputs((prev) => ({ ...prev, [k]: e.target.value }))}
+                    inputMode="decimal"
+                    className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                  />
+                  {featureErrors[k] ? <p className="mt-1 text-xs text-red-600">{featureErrors[k]}</p> : null}
+                </div>
+              ))}
+
+              <div>
+                <label className="block text-sm font-medium">
+                  Category <span className="font-normal text-zinc-500">(optional)</span>
+                </label>
+                <input
+                  value={categoryInput}
+                  onChange={(e) => setCategoryInput(e.target.value)}
+                  list="point-categories"
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                  placeholder="e.g., Downtown"
+                />
+                <datalist id="point-categories">
+                  {categories.map((c) => (
+                    <option key={c} value={c} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium">
+                  Weight <span className="font-normal text-zinc-500">(optional)</span>
+                </label>
+                <input
+                  value={weightInput}
+                  onChange={(e) => setWeightInput(e.target.value)}
+                  inputMode="decimal"
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                  placeholder="1"
+                />
+                {weightError ? <p className="mt-1 text-xs text-red-600">{weightError}</p> : null}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium">
+                  Sale date <span className="font-normal text-zinc-500">(optional)</span>
+                </label>
+                <input
+                  type="date"
+                  value={dateInput}
+                  onChange={(e) => setDateInput(e.target.value)}
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                />
+                {dateError ? <p className="mt-1 text-xs text-red-600">{dateError}</p> : null}
+              </div>
+
               <div className="flex items-end gap-2">
                 <button
                   type="submit"
                   className="inline-flex w-full items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50"
-                  disabled={!canAddMore && !editId}
                 >
                   {editId ? "Save" : "Add"}
                 </button>
@@ -326,102 +1430,613 @@ export default function Page() {
             {formError ? <p className="mt-3 text-sm text-red-600">{formError}</p> : null}
           </form>
 
-          <div className="mt-6 overflow-x-auto">
-            <table className="w-full border-collapse text-sm">
-              <thead>
-                <tr className="border-b border-zinc-200 text-left text-zinc-700">
-                  <th className="py-2">Area</th>
-                  <th className="py-2">Price</th>
-                  <th className="py-2">Actions</th>
-                </tr>
-              </thead>
-              <tbody>
-                {data.length === 0 ? (
-                  <tr>
-                    <td className="py-4 text-zinc-600" colSpan={3}>
-                      No data yet. Add at least two points to train the model.
-                    </td>
-                  </tr>
-                ) : (
-                  data.map((d) => (
-                    <tr key={d.id} className="border-b border-zinc-100 last:border-0">
-                      <td className="py-2">{d.area}</td>
-                      <td className="py-2">{formatMoney(d.price)}</td>
-                      <td className="py-2">
-                        <div className="flex flex-wrap gap-2">
-                          <button
-                            className="rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50"
-                            onClick={() => startEdit(d)}
-                            type="button"
-                          >
-                            Edit
-                          </button>
-                          <button
-                            className="rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50"
-                            onClick={() => remove(d.id)}
-                            type="button"
-                          >
-                            Delete
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))
-                )}
-              </tbody>
-            </table>
-          </div>
+          <SampleData units={units} onCreate={createSampleDataset} />
+
+          <DataImport onImport={onImport} units={units} />
+
+          <TrainingTable
+            data={data}
+            featureKeys={featureKeys}
+            categories={categories}
+            units={units}
+            model={model}
+            diagnostics={diagnostics}
+            onEdit={startEdit}
+            onDelete={remove}
+            onToggleExcluded={toggleExcluded}
+          />
+
+          {model ? (
+            <p className="mt-3 text-xs text-zinc-600">
+              Highlighted rows are flagged by leverage (&gt; 2p/n), studentized residual (beyond ±{STUDENTIZED_LIMIT}) or
+              Cook&apos;s distance (&gt; 4/n). Untick &quot;In fit&quot; to keep a point in the dataset but leave it out
+              of training.
+            </p>
+          ) : null}
         </section>
 
         <section className="mb-10 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
           <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
             <h2 className="text-lg font-semibold">Model</h2>
-            <button
-              onClick={train}
-              disabled={data.length < 2}
-              className="inline-flex items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50"
-            >
-              Train model
-            </button>
+            <div className="flex items-center gap-3">
+              {trainProgress !== null ? (
+                <div className="h-2 w-32 overflow-hidden rounded-full bg-zinc-200" title="Training progress">
+                  <div className="h-full bg-zinc-900" style={{ width: `${Math.round(trainProgress * 100)}%` }} />
+                </div>
+              ) : null}
+              <button
+                onClick={train}
+                disabled={data.length < 2 || trainProgress !== null}
+                className="inline-flex items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {trainProgress !== null ? `Training… ${Math.round(trainProgress * 100)}%` : "Train model"}
+              </button>
+            </div>
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium">Model type</label>
+              <select
+                value={modelType}
+                onChange={(e) => setModelType(e.target.value as ModelType)}
+                className="mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400"
+              >
+                {MODEL_TYPES.map((t) => (
+                  <option key={t.type} value={t.type}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {modelType === "polynomial" ? (
+              <div>
+                <label className="block text-sm font-medium">Degree</label>
+                <select
+                  value={degree}
+                  onChange={(e) => setDegree(Number(e.target.value))}
+                  className="mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                >
+                  {POLYNOMIAL_DEGREES.map((d) => (
+                    <option key={d} value={d}>
+                      {d}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+            {modelType === "segmented" ? (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium">Breakpoints</label>
+                  <select
+                    value={breakpointCount}
+                    onChange={(e) => setBreakpointCount(Number(e.target.value))}
+                    className="mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                  >
+                    {BREAKPOINT_COUNTS.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium">At breakpoints</label>
+                  <select
+                    value={continuous ? "continuous" : "jumps"}
+                    onChange={(e) => setContinuous(e.target.value === "continuous")}
+                    className="mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                  >
+                    <option value="continuous">Segments meet</option>
+                    <option value="jumps">Allow jumps</option>
+                  </select>
+                </div>
+              </div>
+            ) : null}
+            {categories.length > 0 ? (
+              <div>
+                <label className="block text-sm font-medium">Categories</label>
+                <select
+                  value={grouping}
+                  onChange={(e) => setGrouping(e.target.value as GroupingMode)}
+                  className="mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                >
+                  {GROUPING_MODES.map((g) => (
+                    <option key={g.mode} value={g.mode}>
+                      {g.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium">Fitting method</label>
+              <select
+                value={fitMethod}
+                onChange={(e) => setFitMethod(e.target.value as FitMethod)}
+                className="mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400"
+              >
+                {FIT_METHODS.map((m) => (
+                  <option key={m.method} value={m.method}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {fitMethod === "huber" ? (
+              <div>
+                <label className="block text-sm font-medium">Huber constant (k)</label>
+                <input
+                  value={huberK}
+                  onChange={(e) => setHuberK(e.target.value)}
+                  inputMode="decimal"
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                />
+              </div>
+            ) : null}
+            {fitMethod === "ransac" ? (
+              <div>
+                <label className="block text-sm font-medium">
+                  Inlier threshold <span className="font-normal text-zinc-500">(blank = MAD of price)</span>
+                </label>
+                <input
+                  value={ransacThreshold}
+                  onChange={(e) => setRansacThreshold(e.target.value)}
+                  inputMode="decimal"
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                  placeholder="e.g., 25000"
+                />
+              </div>
+            ) : null}
+            {fitMethod === "elastic-net" ? (
+              <div>
+                <label className="block text-sm font-medium">
+                  L1 share <span className="font-normal text-zinc-500">(0 = ridge, 1 = lasso)</span>
+                </label>
+                <input
+                  value={mixing}
+                  onChange={(e) => setMixing(e.target.value)}
+                  inputMode="decimal"
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                />
+              </div>
+            ) : null}
+            {fitMethod === "ols" ? (
+              <div>
+                <label className="block text-sm font-medium">Weighting</label>
+                <select
+                  value={weighting}
+                  onChange={(e) => setWeighting(e.target.value as WeightingMode)}
+                  className="mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                >
+                  {WEIGHTING_MODES.map((w) => (
+                    <option key={w.mode} value={w.mode}>
+                      {w.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+            {fitMethod === "ols" && (weighting === "decay" || weighting === "both") ? (
+              <div>
+                <label className="block text-sm font-medium">Half-life (days)</label>
+                <input
+                  value={halfLife}
+                  onChange={(e) => setHalfLife(e.target.value)}
+                  inputMode="decimal"
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                />
+              </div>
+            ) : null}
+          </div>
+
+          <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium">Validation</label>
+              <select
+                value={validationMode}
+                onChange={(e) => setValidationMode(e.target.value as ValidationMode)}
+                className="mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400"
+              >
+                <option value="none">None (training set only)</option>
+                <option value="holdout">Hold out a test set</option>
+                <option value="kfold">k-fold cross-validation</option>
+              </select>
+            </div>
+            {validationMode === "holdout" ? (
+              <div>
+                <label className="block text-sm font-medium">Test fraction (%)</label>
+                <input
+                  value={testPercent}
+                  onChange={(e) => setTestPercent(e.target.value)}
+                  inputMode="decimal"
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                />
+              </div>
+            ) : null}
+            {validationMode === "kfold" ? (
+              <div>
+                <label className="block text-sm font-medium">Folds (k)</label>
+                <input
+                  value={folds}
+                  onChange={(e) => setFolds(e.target.value)}
+                  inputMode="numeric"
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                />
+              </div>
+            ) : null}
+            {validationMode !== "none" || fitMethod === "ransac" || isRegularized(fitMethod) ? (
+              <div>
+                <label className="block text-sm font-medium">
+                  Seed <span className="font-normal text-zinc-500">(blank = random)</span>
+                </label>
+                <input
+                  value={seedInput}
+                  onChange={(e) => setSeedInput(e.target.value)}
+                  inputMode="numeric"
+                  className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                  placeholder={evaluation ? String(evaluation.seed) : "e.g., 42"}
+                />
+              </div>
+            ) : null}
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
+            <span className="font-medium">Features:</span>
+            {[AREA, ...featureKeys].map((k) => (
+              <label key={k} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={selectedFeatures.includes(k)}
+                  onChange={(e) => toggleSelectedFeature(k, e.target.checked)}
+                />
+                {featureLabel(k)}
+              </label>
+            ))}
           </div>
 
           {trainError ? <p className="mt-3 text-sm text-red-600">{trainError}</p> : null}
+          <FitIssues issues={[...trainIssues, ...(model?.warnings ?? [])]} />
+
+          <ModelActions
+            model={model}
+            evaluation={evaluation}
+            datasetName={active.name}
+            points={data}
+            featureKeys={featureKeys}
+            units={units}
+            onLoadModel={setModel}
+          />
 
-          <div className="mt-5 grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="mt-5 grid grid-cols-1 gap-4 md:grid-cols-4">
             <div className="rounded-lg border border-zinc-200 p-4">
               <div className="text-xs text-zinc-600">Equation</div>
               <div className="mt-1 font-mono text-sm">{model ? model.equation : "-"}</div>
             </div>
 
             <div className="rounded-lg border border-zinc-200 p-4">
-              <div className="text-xs text-zinc-600">R²</div>
+              <div className="text-xs text-zinc-600">{model?.weighting ? "Weighted R²" : "R²"}</div>
               <div className="mt-1 font-mono text-sm">{model ? round(model.r2, 4) : "-"}</div>
             </div>
 
             <div className="rounded-lg border border-zinc-200 p-4">
-              <div className="text-xs text-zinc-600">RMSE</div>
-              <div className="mt-1 font-mono text-sm">{model ? formatMoney(model.rmse) : "-"}</div>
+              <div className="text-xs text-zinc-600">Adjusted R²</div>
+              <div className="mt-1 font-mono text-sm">
+                {model && Number.isFinite(model.adjR2) ? round(model.adjR2, 4) : "-"}
+              </div>
+            </div>
+
+            <div className="rounded-lg border border-zinc-200 p-4">
+              <div className="text-xs text-zinc-600">{model?.weighting ? "Weighted RMSE" : "RMSE"}</div>
+              <div className="mt-1 font-mono text-sm">{model ? formatMoney(model.rmse, units) : "-"}</div>
             </div>
           </div>
 
+          {model?.robust ? (
+            <p className="mt-4 text-sm text-zinc-700">
+              {model.robust.inlierIds
+                ? `RANSAC kept ${model.robust.inlierIds.length} of ${model.n} points as inliers.`
+                : model.robust.weights
+                  ? `Huber converged after ${model.robust.iterations} iteration(s); ${
+                      Object.values(model.robust.weights).filter((w) => w < 1).length
+                    } point(s) were downweighted (smallest weight ${round(
+                      extent(Object.values(model.robust.weights))[0],
+                      3
+                    )}).`
+                  : "Theil–Sen has no analytic standard errors, so p-values and intervals are not shown."}
+            </p>
+          ) : null}
+
+          {model?.regularization ? (
+            <p className="mt-4 text-sm text-zinc-700">
+              {model.regularization.folds > 0
+                ? `λ = ${round(model.regularization.lambda, 6)} was chosen by ${model.regularization.folds}-fold cross-validation`
+                : `Fitted with λ = ${round(model.regularization.lambda, 6)}`}
+              ; {model.terms.filter((t) => model.coefficients[t] !== 0).length} of {model.terms.length} coefficients are
+              nonzero. Penalized fits have no analytic standard errors, so p-values and intervals are not shown. See the
+              Regularization tab under Visualization for the λ path.
+            </p>
+          ) : null}
+
+          {model?.segmented ? (
+            <div className="mt-5 overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b border-zinc-200 text-left text-zinc-700">
+                    <th className="py-2">Segment</th>
+                    <th className="py-2">Area</th>
+                    <th className="py-2">Slope (per {units.area})</th>
+                    <th className="py-2">Std. error</th>
+                    <th className="py-2">Intercept</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {model.segmented.segments.map((s, i) => (
+                    <tr key={i} className="border-b border-zinc-100 font-mono last:border-0">
+                      <td className="py-2 font-sans">{i + 1}</td>
+                      <td className="py-2">
+                        {round(s.from, 2)} – {round(s.to, 2)}
+                      </td>
+                      <td className="py-2">{round(s.slope, 4)}</td>
+                      <td className="py-2">{Number.isFinite(s.slopeStdError) ? round(s.slopeStdError, 4) : "-"}</td>
+                      <td className="py-2">{round(s.intercept, 2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-zinc-600">
+                Breakpoints:{" "}
+                {model.segmented.breakpoints
+                  .map(({ value, searched, interval }) =>
+                    interval
+                      ? `${round(value, 2)} (95% profile interval ${round(interval[0], 2)} – ${round(interval[1], 2)})`
+                      : `${round(value, 2)}${searched ? "" : " (fixed)"}`
+                  )
+                  .join(", ")}
+                . {model.segmented.continuous ? "Segments meet at each breakpoint" : "The line may jump at each breakpoint"}
+                ; intercepts are at zero area
+                {model.features.length > 1 ? " with the other features at zero" : ""}
+                {model.categories ? ` for ${model.categories[0]}` : ""}. Standard errors treat the breakpoints as
+                known.
+              </p>
+            </div>
+          ) : null}
+
+          {model?.weighting ? (
+            <p className="mt-4 text-sm text-zinc-700">
+              Weighted by {WEIGHTING_MODES.find((w) => w.mode === model.weighting!.mode)?.label.toLowerCase()}
+              {model.weighting.halfLifeDays !== undefined ? ` (half-life ${model.weighting.halfLifeDays} days)` : ""}:
+              points count in proportion to their weight, so R² and RMSE are weighted. Unweighted, R² is{" "}
+              {round(model.weighting.r2, 4)} and RMSE {formatMoney(model.weighting.rmse, units)}.
+            </p>
+          ) : null}
+
+          {evaluation && evaluation.outOfSample ? (
+            <div className="mt-5 overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b border-zinc-200 text-left text-zinc-700">
+                    <th className="py-2">Metric</th>
+                    <th className="py-2">In-sample (n = {evaluation.inSample.n})</th>
+                    <th className="py-2">
+                      {evaluation.mode === "holdout" ? "Test set" : "Cross-validated"} (n = {evaluation.outOfSample.n})
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(
+                    [
+                      ["RMSE", (m: ErrorMetrics) => formatMoney(m.rmse, units)],
+                      ["MAE", (m: ErrorMetrics) => formatMoney(m.mae, units)],
+                      ["MAPE", (m: ErrorMetrics) => `${round(m.mape * 100, 2)}%`],
+                      ["R²", (m: ErrorMetrics) => (Number.isFinite(m.r2) ? round(m.r2, 4) : "-")],
+                    ] as Array<[string, (m: ErrorMetrics) => string | number]>
+                  ).map(([label, fmt]) => (
+                    <tr key={label} className="border-b border-zinc-100 font-mono last:border-0">
+                      <td className="py-2 font-sans">{label}</td>
+                      <td className="py-2">{fmt(evaluation.inSample)}</td>
+                      <td className="py-2">{fmt(evaluation.outOfSample!)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-zinc-600">Seed {evaluation.seed} — enter it above to reproduce this split.</p>
+            </div>
+          ) : null}
+
+          {model?.categories ? (
+            <div className="mt-5 overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b border-zinc-200 text-left text-zinc-700">
+                    <th className="py-2">Category</th>
+                    <th className="py-2">n</th>
+                    <th className="py-2">Equation</th>
+                    {model.groups ? (
+                      <>
+                        <th className="py-2">R²</th>
+                        <th className="py-2">RMSE</th>
+                      </>
+                    ) : null}
+                  </tr>
+                </thead>
+                <tbody>
+                  {model.categories.map((c) => {
+                    const group = groupModel(model, c);
+                    return (
+                      <tr key={c} className="border-b border-zinc-100 last:border-0">
+                        <td className="py-2">
+                          <span
+                            className="mr-2 inline-block h-2.5 w-2.5 rounded-full"
+                            style={{ backgroundColor: categoryColor(c) }}
+                          />
+                          {c}
+                        </td>
+                        <td className="py-2 font-mono">{trainPoints.filter((p) => p.category === c).length}</td>
+                        <td className="py-2 font-mono text-xs">{categoryEquation(model, c)}</td>
+                        {model.groups ? (
+                          <>
+                            <td className="py-2 font-mono">{group && Number.isFinite(group.r2) ? round(group.r2, 4) : "-"}</td>
+                            <td className="py-2 font-mono">{group ? formatMoney(group.rmse, units) : "-"}</td>
+                          </>
+                        ) : null}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-zinc-600">
+                {model.groups
+                  ? "Each category has its own coefficients and error variance; the R² and RMSE above the table are pooled over all categories."
+                  : `All categories share the slopes; the category terms below shift the intercept relative to ${model.categories[0]}.`}
+              </p>
+            </div>
+          ) : null}
+
+          {model && !model.groups ? (
+            <div className="mt-5 overflow-x-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="border-b border-zinc-200 text-left text-zinc-700">
+                    <th className="py-2">Term</th>
+                    <th className="py-2">Estimate</th>
+                    <th className="py-2">Std. error</th>
+                    <th className="py-2">t</th>
+                    <th className="py-2">p-value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[INTERCEPT, ...model.terms].map((name) => {
+                    const st = model.coefficientStats[name];
+                    return (
+                      <tr key={name} className="border-b border-zinc-100 font-mono last:border-0">
+                        <td className="py-2 font-sans">{name === INTERCEPT ? "Intercept" : termLabel(name)}</td>
+                        <td className="py-2">{round(st.estimate, 4)}</td>
+                        <td className="py-2">{Number.isFinite(st.stdError) ? round(st.stdError, 4) : "-"}</td>
+                        <td className="py-2">{Number.isFinite(st.tStat) ? round(st.tStat, 3) : "-"}</td>
+                        <td className="py-2">
+                          {!Number.isFinite(st.pValue) ? "-" : st.pValue < 0.0001 ? "< 0.0001" : round(st.pValue, 4)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          {model && active.synthetic ? <SyntheticTruth spec={active.synthetic} model={model} units={units} /> : null}
+
           <p className="mt-4 text-xs text-zinc-600">
-            Notes: R² closer to 1 means better fit. RMSE is the typical prediction error size (in USD)
-            on the training set.
+            Notes: R² closer to 1 means better fit; adjusted R² penalizes extra features. RMSE is the
+            typical prediction error size (in {units.currency}) on the training set; use hold-out or k-fold validation to
+            see how the model does on points it was not trained on. Standard errors and p-values
+            assume independent, normally distributed residuals with constant variance. Log models are
+            fitted on log(price): their coefficients and p-values are on that scale, R²/RMSE are on the
+            price scale, and predictions are back-transformed medians.
           </p>
         </section>
 
+        <section className="mb-10 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold">Model comparison</h2>
+          <ModelComparison
+            pinned={pinned}
+            model={model}
+            activeDatasetId={active.id}
+            usable={(pin) => hasFeatures(pin.model, featureKeys)}
+            pinning={pinning}
+            error={pinError}
+            onPin={pinModel}
+            onPromote={promotePin}
+            onRemove={(id) => setPinned((prev) => prev.filter((p) => p.id !== id))}
+            onClear={() => setPinned([])}
+          />
+        </section>
+
+        <section className="mb-10 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold">Bootstrap uncertainty</h2>
+          {model?.groups ? (
+            <p className="mt-2 text-sm text-zinc-600">Bootstrap is not available for separate per-category models.</p>
+          ) : model && modelOptions && trainPoints.length > 0 ? (
+            <BootstrapUncertainty
+              model={model}
+              points={trainPoints}
+              options={modelOptions}
+              units={units}
+              level={parseNumber(intervalLevel, units.locale) / 100}
+              predictionInput={predictedPrice !== null ? predictedInput : null}
+              result={bootstrap}
+              run={(request, onProgress) => trainer().bootstrap(request, onProgress)}
+              onResult={setBootstrap}
+            />
+          ) : (
+            <p className="mt-2 text-sm text-zinc-600">Train the model first.</p>
+          )}
+        </section>
+
+        <section className="mb-10 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold">Gradient descent</h2>
+          <GradientDescent points={includedPoints} units={units} onLine={setDescentLine} />
+        </section>
+
         <section className="mb-10 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
           <h2 className="text-lg font-semibold">Prediction</h2>
           <form onSubmit={onPredict} className="mt-4">
             <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              {modelFeatures.includes(AREA) ? (
+                <div>
+                  <label className="block text-sm font-medium">Area ({units.area})</label>
+                  <input
+                    value={predictArea}
+                    onChange={(e) => setPredictArea(e.target.value)}
+                    inputMode="decimal"
+                    className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                    placeholder="e.g., 150"
+                  />
+                </div>
+              ) : null}
+              {model?.categories ? (
+                <div>
+                  <label className="block text-sm font-medium">Category</label>
+                  <select
+                    value={predictCategory}
+                    onChange={(e) => setPredictCategory(e.target.value)}
+                    className="mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                  >
+                    <option value="">Choose…</option>
+                    {model.categories.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : null}
+              {modelFeatures
+                .filter((f) => f !== AREA)
+                .map((f) => (
+                  <div key={f}>
+                    <label className="block text-sm font-medium">{featureLabel(f)}</label>
+                    <input
+                      value={predictFeatures[f] ?? ""}
+                      onChange={(e) => setPredictFeatures((prev) => ({ ...prev, [f]: e.target.value }))}
+                      inputMode="decimal"
+                      className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
+                    />
+                  </div>
+                ))}
               <div>
-                <label className="block text-sm font-medium">Area (sq m)</label>
+                <label className="block text-sm font-medium">Interval level (%)</label>
                 <input
-                  value={predictArea}
-                  onChange={(e) => setPredictArea(e.target.value)}
+                  value={intervalLevel}
+                  onChange={(e) => setIntervalLevel(e.target.value)}
                   inputMode="decimal"
                   className="mt-1 w-full rounded-lg border border-zinc-200 px-3 py-2 text-sm outline-none focus:border-zinc-400"
-                  placeholder="e.g., 150"
+                  placeholder="e.g., 95"
                 />
               </div>
               <div className="flex items-end">
@@ -435,113 +2050,471 @@ export default function Page() {
               <div className="rounded-lg border border-zinc-200 p-4">
                 <div className="text-xs text-zinc-600">Predicted price</div>
                 <div className="mt-1 text-sm font-medium">
-                  {predictedPrice === null ? "-" : formatMoney(predictedPrice)}
+                  {predictedPrice === null ? "-" : formatMoney(predictedPrice, units)}
                 </div>
+                {predictedRange ? (
+                  <div className="mt-1 text-xs text-zinc-600">
+                    {intervalLevel}% prediction interval: {formatMoney(predictedRange[0], units)} – {formatMoney(predictedRange[1], units)}
+                  </div>
+                ) : null}
               </div>
             </div>
             {predictError ? <p className="mt-3 text-sm text-red-600">{predictError}</p> : null}
           </form>
-        </section>
 
-        <section className="rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
-          <h2 className="text-lg font-semibold">Visualization</h2>
-          <p className="mt-2 text-sm text-zinc-700">Train the model to see the regression line and residual plot.</p>
-
-          <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-2">
-            <div className="h-[380px] rounded-lg border border-zinc-200 p-3">
-              <div className="mb-2 text-sm font-medium">Training data + regression line</div>
-              <ResponsiveContainer width="100%" height="100%">
-                <ComposedChart margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis
-                    type="number"
-                    dataKey="area"
-                    tick={{ fontSize: 12 }}
-                    label={{ value: "Area (sq m)", position: "insideBottom", offset: -5, fontSize: 12 }}
-                  />
-                  <YAxis
-                    type="number"
-                    dataKey="price"
-                    tick={{ fontSize: 12 }}
-                    label={{ value: "Price (USD)", angle: -90, position: "insideLeft", fontSize: 12 }}
-                  />
-                  <Tooltip
-                    formatter={(value: any, name: any) => {
-                      if (name === "price") return [formatMoney(Number(value)), "Price"];
-                      return [value, "Area"];
-                    }}
-                  />
-                  <Legend />
+          <BatchPredictions
+            features={modelFeatures}
+            categories={model?.categories ?? []}
+            units={units}
+            results={batch.results}
+            errors={batch.errors}
+            parseError={batch.parseError}
+            intervalLevel={intervalLevel}
+            withIntervals={batchIntervals}
+            intervalsAvailable={!!model && supportsIntervals(model)}
+            onRows={setBatchRows}
+            onToggleIntervals={setBatchIntervals}
+          />
+        </section>
 
-                  <Scatter name="Training data" data={data} fill="#0f172a" />
+        <section ref={chartsRef} className="mb-10 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold">Visualization</h2>
+            <div className="flex gap-1 rounded-lg border border-zinc-200 p-1 text-xs">
+              {(
+                [
+                  ["fit", "Fit"],
+                  ["diagnostics", "Diagnostics"],
+                  ["regularization", "Regularization"],
+                ] as const
+              ).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  type="button"
+                  onClick={() => setChartTab(tab)}
+                  aria-pressed={chartTab === tab}
+                  className={`rounded-md px-3 py-1 ${chartTab === tab ? "bg-zinc-900 text-white" : "hover:bg-zinc-50"}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="mt-2 text-sm text-zinc-700">
+            {chartTab === "fit"
+              ? "Train the model to see the regression line and residual plot."
+              : chartTab === "diagnostics"
+                ? "Checks whether the residuals behave the way the linear model's p-values and intervals assume."
+                : "How ridge, lasso and elastic-net coefficients and their cross-validated error change with the penalty λ."}
+          </p>
+          {chartTab === "fit" && model?.weighting ? (
+            <p className="mt-1 text-xs text-zinc-600">
+              Training point size shows each point&apos;s weight in the fit.
+            </p>
+          ) : null}
+          {thinned ? (
+            <p className="mt-1 text-xs text-zinc-600">
+              Large dataset: scatter plots show {plotted.train.length.toLocaleString(units.locale)} of{" "}
+              {trainPoints.length.toLocaleString(units.locale)} training points, keeping one per small area of the
+              chart so outliers and the overall shape stay visible.
+            </p>
+          ) : null}
+          {chartTab === "fit" && chartMode !== "view" ? (
+            <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-zinc-600">
+              <span>
+                {chartMode === "select"
+                  ? "Drag a box on the training chart to select the points inside it."
+                  : model
+                    ? "Click an empty spot on the training chart to add a point, or drag a point to move it. The model is refitted live while dragging and saved with the point on release."
+                    : "Click an empty spot on the training chart to add a point, or drag a point to move it. Train a model to see it refitted live while dragging."}
+              </span>
+              {chartMode === "select" && selectedIds.length > 0 ? (
+                <>
+                  <span className="font-medium text-zinc-900">{selectedIds.length} selected</span>
+                  <button
+                    type="button"
+                    onClick={excludeSelected}
+                    className="rounded-lg border border-zinc-200 px-2 py-1 hover:bg-zinc-50"
+                  >
+                    Exclude
+                  </button>
+                  <button
+                    type="button"
+                    onClick={deleteSelected}
+                    className="rounded-lg border border-zinc-200 px-2 py-1 text-red-600 hover:bg-zinc-50"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedIds([])}
+                    className="rounded-lg border border-zinc-200 px-2 py-1 hover:bg-zinc-50"
+                  >
+                    Clear selection
+                  </button>
+                </>
+              ) : null}
+            </div>
+          ) : null}
+          {chartTab === "fit" && chartError ? <p className="mt-2 text-sm text-red-600">{chartError}</p> : null}
 
-                  {model ? (
-                    <Line
-                      name="Regression line"
-                      type="linear"
+          {chartTab === "diagnostics" ? (
+            model && trainPoints.length > 0 ? (
+              <ResidualDiagnostics model={model} points={trainPoints} units={units} />
+            ) : (
+              <p className="mt-6 text-sm text-zinc-600">Train the model to run the residual diagnostics.</p>
+            )
+          ) : chartTab === "regularization" ? (
+            model?.regularization ? (
+              <RegularizationPath model={model} units={units} />
+            ) : (
+              <p className="mt-6 text-sm text-zinc-600">
+                {model?.groups
+                  ? "Each category's model has its own λ path; fit the categories together to see one here."
+                  : `Train with ridge, lasso or elastic net to choose λ by ${REGULARIZATION_FOLDS}-fold cross-validation and see its path.`}
+              </p>
+            )
+          ) : (
+            <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <div data-chart="Training data + regression line" className="h-[380px] rounded-lg border border-zinc-200 p-3">
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <div className="text-sm font-medium">Training data + regression line</div>
+                  <div className="flex items-center gap-1">
+                    <ChartDownload />
+                    <div className="flex gap-1 rounded-lg border border-zinc-200 p-0.5 text-xs">
+                      {(
+                        [
+                          ["view", "View"],
+                          ["edit", "Add & drag"],
+                          ["select", "Select"],
+                        ] as const
+                      ).map(([mode, label]) => (
+                        <button
+                          key={mode}
+                          type="button"
+                          onClick={() => {
+                            setChartMode(mode);
+                            setSelectedIds([]);
+                            setChartError("");
+                          }}
+                          aria-pressed={chartMode === mode}
+                          className={`rounded-md px-2 py-0.5 ${chartMode === mode ? "bg-zinc-900 text-white" : "hover:bg-zinc-50"}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      type="number"
+                      dataKey="area"
+                      domain={chartDomain?.area}
+                      allowDataOverflow={!!chartDomain}
+                      tick={{ fontSize: 12 }}
+                      label={{ value: `Area (${units.area})`, position: "insideBottom", offset: -5, fontSize: 12 }}
+                    />
+                    <YAxis
+                      type="number"
                       dataKey="price"
-                      data={regressionLine}
-                      stroke="#ef4444"
-                      strokeWidth={2}
-                      dot={false}
-                      isAnimationActive={false}
+                      domain={chartDomain?.price}
+                      allowDataOverflow={!!chartDomain}
+                      tick={{ fontSize: 12 }}
+                      label={{ value: `Price (${units.currency})`, angle: -90, position: "insideLeft", fontSize: 12 }}
+                    />
+                    <Tooltip
+                      formatter={(value: any, name: any) => {
+                        if (name === "price") return [formatMoney(Number(value), units), "Price"];
+                        if (Array.isArray(value)) return [value.map((v) => formatMoney(Number(v), units)).join(" – "), name];
+                        return [value, "Area"];
+                      }}
+                    />
+                    <Legend />
+
+                    {model && intervalBands.length > 0 ? (
+                      <Area
+                        name={`${intervalLevel}% prediction band`}
+                        type="monotone"
+                        dataKey="prediction"
+                        data={intervalBands}
+                        stroke="none"
+                        fill="#fca5a5"
+                        fillOpacity={0.25}
+                        isAnimationActive={false}
+                      />
+                    ) : null}
+
+                    {model && intervalBands.length > 0 ? (
+                      <Area
+                        name={`${intervalLevel}% confidence band`}
+                        type="monotone"
+                        dataKey="confidence"
+                        data={intervalBands}
+                        stroke="none"
+                        fill="#ef4444"
+                        fillOpacity={0.25}
+                        isAnimationActive={false}
+                      />
+                    ) : null}
+
+                    {categories.length > 0 ? (
+                      drawn.byCategory.map(({ category, points }) => (
+                        <Scatter
+                          key={category}
+                          name={category || "No category"}
+                          data={points}
+                          fill={category ? categoryColor(category) : "#0f172a"}
+                          shape={weightedShape}
+                          isAnimationActive={!thinned && !dragged}
+                        />
+                      ))
+                    ) : (
+                      <Scatter
+                        name="Training data"
+                        data={drawn.train}
+                        fill="#0f172a"
+                        shape={weightedShape}
+                        isAnimationActive={!thinned && !dragged}
+                      />
+                    )}
+
+                    {excludedPoints.length > 0 ? (
+                      <Scatter name="Excluded" data={drawn.excluded} fill="#a1a1aa" isAnimationActive={!dragged} />
+                    ) : null}
+
+                    {testPoints.length > 0 ? (
+                      <Scatter name="Test data" data={drawn.test} fill="#f97316" isAnimationActive={!dragged} />
+                    ) : null}
+
+                    {pinned.map((pin, i) =>
+                      pinnedLines[i].length > 0 ? (
+                        <Line
+                          key={pin.id}
+                          name={pin.label}
+                          type={lineType(pin.model)}
+                          dataKey="price"
+                          data={pinnedLines[i]}
+                          stroke={PIN_COLORS[i % PIN_COLORS.length]}
+                          strokeWidth={2}
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      ) : null
+                    )}
+
+                    {bootstrapLines.map((line, i) => (
+                      <Line
+                        key={`bootstrap-${i}`}
+                        name="Bootstrap refits"
+                        legendType={i === 0 ? "line" : "none"}
+                        type={lineType(model)}
+                        dataKey="price"
+                        data={line}
+                        stroke="#ef4444"
+                        strokeOpacity={0.12}
+                        strokeWidth={1}
+                        dot={false}
+                        activeDot={false}
+                        isAnimationActive={false}
+                      />
+                    ))}
+
+                    {chartModel?.categories
+                      ? categoryLines.map(({ category, line }) => (
+                          <Line
+                            key={`category-${category}`}
+                            name={`${category} line`}
+                            legendType="none"
+                            type={lineType(chartModel)}
+                            dataKey="price"
+                            data={line}
+                            stroke={categoryColor(category)}
+                            strokeWidth={2}
+                            dot={false}
+                            isAnimationActive={false}
+                          />
+                        ))
+                      : null}
+
+                    {chartModel && !chartModel.categories ? (
+                      <Line
+                        name="Regression line"
+                        type={lineType(chartModel)}
+                        dataKey="price"
+                        data={regressionLine}
+                        stroke="#ef4444"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ) : null}
+
+                    {olsModel && olsLine.length > 0 ? (
+                      <Line
+                        name="OLS line"
+                        type={lineType(olsModel)}
+                        dataKey="price"
+                        data={olsLine}
+                        stroke="#3b82f6"
+                        strokeDasharray="4 3"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ) : null}
+
+                    {descentLineData.length > 0 ? (
+                      <Line
+                        name="Gradient descent"
+                        type="linear"
+                        dataKey="price"
+                        data={descentLineData}
+                        stroke="#10b981"
+                        strokeDasharray="2 2"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ) : null}
+
+                    {ransacOutliers.length > 0 ? (
+                      <Scatter name="RANSAC outliers" data={plotted.ransacOutliers} fill="#dc2626" />
+                    ) : null}
+
+                    {allPointsModel && allPointsLine.length > 0 ? (
+                      <Line
+                        name="Fit with excluded points"
+                        type={lineType(allPointsModel)}
+                        dataKey="price"
+                        data={allPointsLine}
+                        stroke="#a1a1aa"
+                        strokeDasharray="6 4"
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ) : null}
+
+                    {model && predictionPoint.length > 0 ? (
+                      <Scatter
+                        name="Prediction"
+                        data={predictionPoint}
+                        fill="#22c55e"
+                        shape={<StarPoint />}
+                        isAnimationActive={false}
+                      />
+                    ) : null}
+
+                    {batchPoints.length > 0 ? (
+                      <Scatter
+                        name="Batch predictions"
+                        data={plotted.batch}
+                        fill="#8b5cf6"
+                        shape="diamond"
+                        isAnimationActive={false}
+                      />
+                    ) : null}
+
+                    {selectedPoints.length > 0 ? (
+                      <Scatter
+                        name="Selected"
+                        data={selectedPoints}
+                        fill="none"
+                        stroke="#2563eb"
+                        strokeWidth={2}
+                        isAnimationActive={false}
+                      />
+                    ) : null}
+
+                    <Customized
+                      component={
+                        <ChartEditLayer
+                          mode={chartMode}
+                          points={[...drawn.train, ...drawn.excluded, ...drawn.test]}
+                          onAdd={addFromChart}
+                          onDragStart={startDrag}
+                          onDrag={dragPoint}
+                          onDrop={dropPoint}
+                          onCancel={endDrag}
+                          onSelect={selectBox}
+                        />
+                      }
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+
+              <div data-chart="Residual plot" className="h-[380px] rounded-lg border border-zinc-200 p-3">
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <div className="text-sm font-medium">Residual plot</div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={exportResiduals}
+                      disabled={residuals.length === 0}
+                      className="rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      Export CSV
+                    </button>
+                    <ChartDownload />
+                  </div>
+                </div>
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      type="number"
+                      dataKey="area"
+                      tick={{ fontSize: 12 }}
+                      label={{ value: `Area (${units.area})`, position: "insideBottom", offset: -5, fontSize: 12 }}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="residual"
+                      tick={{ fontSize: 12 }}
+                      label={{ value: "Residual (actual - predicted)", angle: -90, position: "insideLeft", fontSize: 12 }}
+                    />
+                    <Tooltip
+                      formatter={(value: any, name: any) => {
+                        if (name === "residual") return [formatMoney(Number(value), units), "Residual"];
+                        return [value, name];
+                      }}
                     />
-                  ) : null}
+                    <Legend />
+
+                    <ReferenceLine y={0} stroke="#ef4444" strokeWidth={2} />
 
-                  {model && predictionPoint.length > 0 ? (
                     <Scatter
-                      name="Prediction"
-                      data={predictionPoint}
-                      fill="#22c55e"
-                      shape={<StarPoint />}
-                      isAnimationActive={false}
+                      name="Residuals"
+                      data={plotted.residuals}
+                      isAnimationActive={!thinned}
+                      fill="#0f172a"
                     />
-                  ) : null}
-                </ComposedChart>
-              </ResponsiveContainer>
-            </div>
 
-            <div className="h-[380px] rounded-lg border border-zinc-200 p-3">
-              <div className="mb-2 text-sm font-medium">Residual plot</div>
-              <ResponsiveContainer width="100%" height="100%">
-                <ComposedChart margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
-                  <CartesianGrid strokeDasharray="3 3" />
-                  <XAxis
-                    type="number"
-                    dataKey="area"
-                    tick={{ fontSize: 12 }}
-                    label={{ value: "Area (sq m)", position: "insideBottom", offset: -5, fontSize: 12 }}
-                  />
-                  <YAxis
-                    type="number"
-                    dataKey="residual"
-                    tick={{ fontSize: 12 }}
-                    label={{ value: "Residual (actual - predicted)", angle: -90, position: "insideLeft", fontSize: 12 }}
-                  />
-                  <Tooltip
-                    formatter={(value: any, name: any) => {
-                      if (name === "residual") return [formatMoney(Number(value)), "Residual"];
-                      return [value, name];
-                    }}
-                  />
-                  <Legend />
-
-                  <Line
-                    name="Zero residual"
-                    type="linear"
-                    dataKey="residual"
-                    data={[{ area: 0, residual: 0 }, { area: 10000, residual: 0 }]}
-                    stroke="#ef4444"
-                    strokeWidth={2}
-                    dot={false}
-                    isAnimationActive={false}
-                  />
+                    {plotted.flaggedResiduals.length > 0 ? (
+                      <Scatter name="Flagged" data={plotted.flaggedResiduals} fill="#f59e0b" />
+                    ) : null}
 
-                  <Scatter name="Residuals" data={residuals} fill="#0f172a" />
-                </ComposedChart>
-              </ResponsiveContainer>
+                    {excludedPoints.length > 0 && residuals.length > 0 ? (
+                      <Scatter name="Excluded" data={plotted.excludedResiduals} fill="#a1a1aa" />
+                    ) : null}
+
+                    {testPoints.length > 0 ? (
+                      <Scatter name="Test residuals" data={plotted.testResiduals} fill="#f97316" />
+                    ) : null}
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
             </div>
-          </div>
+          )}
+        </section>
+
+        <section className="rounded-xl border border-zinc-200 bg-white p-6 shadow-sm">
+          <h2 className="text-lg font-semibold">Report</h2>
+          <ReportExport datasetName={active.name} build={buildPageReport} />
         </section>
 
         <footer className="mt-10 text-xs text-zinc-600">
@@ -0,0 +1,76 @@
+import { DataPoint, Units } from "@/types";
+import { guessMapping, MappedRows, mapRows, parseDelimited } from "@/lib/csv";
+import { featureLabel } from "@/lib/features";
+import { makeId, parseNumber } from "@/lib/format";
+import { validateArea, validateFeature, validatePrice, validateWeight } from "@/lib/validation";
+import { normalizeSaleDate } from "@/lib/weights";
+
+const numberOrNaN = (v: unknown) => (typeof v === "number" ? v : NaN);
+
+// A JSON dataset is an array of points ({ area, price, features?, category?, weight?, date?,
+// excluded? }) or an object with such an array under "points", like a saved dataset.
+function jsonPoints(value: unknown, units: Units): MappedRows {
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === "object" && Array.isArray((value as { points?: unknown }).points)
+      ? (value as { points: unknown[] }).points
+      : null;
+  if (!list) throw new Error("A JSON dataset must be an array of points or an object with a points array");
+
+  const result: MappedRows = { points: [], errors: [] };
+  list.forEach((raw, i) => {
+    const p = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const area = numberOrNaN(p.area);
+    const price = numberOrNaN(p.price);
+    const messages = [validateArea(area, units), validatePrice(price, units)].filter((m): m is string => m !== null);
+
+    const features: Record<string, number> = {};
+    Object.entries((p.features ?? {}) as Record<string, unknown>).forEach(([key, v]) => {
+      const err = validateFeature(numberOrNaN(v));
+      if (err) messages.push(`${featureLabel(key)}: ${err}`);
+      else features[key] = v as number;
+    });
+    const weight = p.weight === undefined ? undefined : numberOrNaN(p.weight);
+    const weightError = weight !== undefined ? validateWeight(weight) : null;
+    if (weightError) messages.push(weightError);
+    const date = p.date === undefined ? undefined : normalizeSaleDate(String(p.date));
+    if (date === null) messages.push(`Sale date "${String(p.date)}" is not a recognized date.`);
+
+    if (messages.length > 0) {
+      result.errors.push({ row: i + 1, message: messages.join(" ") });
+      return;
+    }
+    const category = typeof p.category === "string" ? p.category.trim() : "";
+    const point: DataPoint = {
+      id: typeof p.id === "string" && p.id !== "" ? p.id : makeId(),
+      area,
+      price,
+      ...(Object.keys(features).length > 0 ? { features } : {}),
+      ...(category !== "" ? { category } : {}),
+      ...(p.excluded === true ? { excluded: true } : {}),
+      ...(weight !== undefined ? { weight } : {}),
+      ...(date ? { date } : {}),
+    };
+    result.points.push(point);
+  });
+  return result;
+}
+
+// Reads a dataset file the way the app's importer does: JSON by extension or content, otherwise
+// delimited text whose columns are guessed from the header (area and price first without one).
+export function readDataset(text: string, fileName: string, units: Units): MappedRows {
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(text)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`${fileName} is not valid JSON`);
+    }
+    return jsonPoints(parsed, units);
+  }
+  const rows = parseDelimited(text);
+  if (rows.length === 0) return { points: [], errors: [] };
+  const header = rows[0];
+  const hasHeader = header.some((h) => h.trim() !== "" && !Number.isFinite(parseNumber(h, units.locale)));
+  return mapRows(rows, guessMapping(hasHeader ? header : header.map(() => "")), hasHeader, units);
+}
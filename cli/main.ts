@@ -0,0 +1,317 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { DataPoint, ErrorMetrics, ModelArtifact, RegressionResult, Units } from "@/types";
+import { createArtifact, hashDataset, parseArtifact, serializeArtifact } from "@/lib/artifact";
+import { batchCsv, parseBatch, predictBatch } from "@/lib/batch";
+import { modelLabel } from "@/lib/comparison";
+import { parseDelimited, RowError } from "@/lib/csv";
+import { modelMetrics } from "@/lib/evaluation";
+import { CATEGORY, collectFeatureKeys } from "@/lib/features";
+import { DEFAULT_UNITS } from "@/lib/format";
+import { FitError, rescaleArea, supportsIntervals } from "@/lib/regression";
+import { runTraining } from "@/lib/training";
+import { areaFactor } from "@/lib/units";
+import { readDataset } from "@/cli/dataset";
+import {
+  Check,
+  checkMetrics,
+  FLAGS,
+  Flags,
+  fitOptions,
+  levelOption,
+  thresholds,
+  unitsOption,
+  UsageError,
+  validationOptions,
+} from "@/cli/options";
+
+// Exit codes, so nightly jobs can tell bad input from a model that fits worse than allowed
+const EXIT_OK = 0;
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+const EXIT_CHECK_FAILED = 3;
+// Row errors printed before the rest are summarized
+const MAX_ROW_ERRORS = 20;
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  train <dataset.csv|.json>           Fit a model and write its artifact (--out, default model.json)
+  evaluate <model.json> <dataset>     Score a saved model on a labelled dataset
+  predict <model.json> <inputs.csv>   Predict prices for a file of inputs (--out, default stdout)
+
+Fitting (train):
+  --features area,bedrooms|all        Feature columns to fit (default area)
+  --model-type <type>                 linear, polynomial, log-log, log-linear, linear-log or segmented
+  --degree <n>                        Polynomial degree, 2–5
+  --breakpoints <n> [--jumps]         Segmented breakpoints, 1–3; --jumps lets the line jump at them
+  --method <method>                   ols, huber, theil-sen, ransac, ridge, lasso or elastic-net
+  --huber-k <k>  --ransac-threshold <t>  --mixing <a>  --lambda <λ>  --seed <n>
+  --grouping none|intercepts|separate
+  --weighting none|manual|decay|both [--half-life <days>]
+  --validation none|holdout|kfold [--test-fraction 0.2] [--folds 5]
+
+Files and checks:
+  --area-unit "sq m"|"sq ft"  --currency <ISO code>  --locale <BCP 47 tag>
+  --report <file.json>                Write the metrics report as JSON
+  --level <percent>                   Add prediction intervals to predict output, e.g. 95
+  --min-r2 <r>  --max-rmse <e>        Fail (exit 3) when the out-of-sample (else in-sample) metric misses
+  --allow-invalid-rows                Skip rows that fail validation instead of failing (exit 1)
+
+Exit codes: 0 success, 1 invalid data, model file or failed fit, 2 bad command line, 3 a check failed.`;
+
+interface Dataset {
+  file: string;
+  points: DataPoint[];
+  rejected: RowError[];
+}
+
+// Non-finite statistics (NaN when undefined) become null in reports
+function reportJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === "number" && !Number.isFinite(v) ? null : v), 2) + "\n";
+}
+
+function readText(file: string): string {
+  try {
+    return readFileSync(file, "utf8");
+  } catch (err) {
+    throw new Error(`Cannot read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Prints row errors; unless they may be skipped, a rejected row fails the run.
+function reportRowErrors(file: string, errors: RowError[], flags: Flags): boolean {
+  if (errors.length === 0) return true;
+  errors.slice(0, MAX_ROW_ERRORS).forEach((e) => console.error(`${file}, row ${e.row}: ${e.message}`));
+  if (errors.length > MAX_ROW_ERRORS) console.error(`…and ${errors.length - MAX_ROW_ERRORS} more row error(s).`);
+  if (flags["allow-invalid-rows"]) {
+    console.error(`Skipped ${errors.length} invalid row(s).`);
+    return true;
+  }
+  console.error(`${errors.length} row(s) failed validation; fix them or pass --allow-invalid-rows to skip them.`);
+  return false;
+}
+
+function loadDataset(file: string, units: Units, flags: Flags): Dataset | null {
+  const { points, errors } = readDataset(readText(file), file, units);
+  if (!reportRowErrors(file, errors, flags)) return null;
+  if (points.length === 0) {
+    console.error(`${file} has no valid points.`);
+    return null;
+  }
+  return { file, points, rejected: errors };
+}
+
+function loadArtifact(file: string): ModelArtifact {
+  try {
+    return parseArtifact(readText(file));
+  } catch (err) {
+    throw new Error(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function writeOutput(file: string, text: string): void {
+  writeFileSync(file, text);
+  console.log(`Wrote ${file}`);
+}
+
+function printMetrics(label: string, m: ErrorMetrics): void {
+  console.log(`${label} (n = ${m.n}): R² ${m.r2.toFixed(4)}, RMSE ${m.rmse.toFixed(2)}, MAE ${m.mae.toFixed(2)}`);
+}
+
+// Prints the checks and returns the exit code they call for
+function finishChecks(results: Check[]): number {
+  results.forEach((c) =>
+    console.log(`${c.passed ? "PASS" : "FAIL"} ${c.metric} ${c.value} ${c.metric === "r2" ? "≥" : "≤"} ${c.limit}`)
+  );
+  return results.every((c) => c.passed) ? EXIT_OK : EXIT_CHECK_FAILED;
+}
+
+function modelSummary(model: RegressionResult) {
+  return {
+    label: modelLabel(model),
+    equation: model.equation,
+    n: model.n,
+    df: model.df,
+    sigma: model.sigma,
+    r2: model.r2,
+    adjR2: model.adjR2,
+    rmse: model.rmse,
+    coefficients: model.coefficientStats,
+    ...(model.segmented ? { segmented: model.segmented } : {}),
+    ...(model.regularization ? { lambda: model.regularization.lambda } : {}),
+    ...(model.warnings ? { warnings: model.warnings.map((w) => w.message) } : {}),
+  };
+}
+
+function train(args: string[], flags: Flags): number {
+  if (args.length !== 1) throw new UsageError("train takes one dataset file");
+  const units = unitsOption(flags, DEFAULT_UNITS);
+  const limits = thresholds(flags);
+  const dataset = loadDataset(args[0], units, flags);
+  if (!dataset) return EXIT_INVALID;
+  const { points } = dataset;
+  const included = points.filter((p) => !p.excluded);
+  const options = fitOptions(flags, included, collectFeatureKeys(points));
+  const validation = validationOptions(flags, options.seed ?? 0);
+  if (validation.mode === "kfold" && validation.folds > included.length) {
+    throw new UsageError(`--folds must be at most the number of points (${included.length})`);
+  }
+
+  let outcome;
+  try {
+    outcome = runTraining({ points, options, validation });
+  } catch (err) {
+    if (err instanceof FitError) err.diagnostics.forEach((d) => console.error(d.message));
+    else console.error(err instanceof Error ? err.message : String(err));
+    return EXIT_INVALID;
+  }
+  const { model, evaluation } = outcome;
+  (model.warnings ?? []).forEach((w) => console.error(`Warning: ${w.message}`));
+
+  console.log(modelLabel(model));
+  console.log(model.equation);
+  printMetrics("In-sample", evaluation.inSample);
+  if (evaluation.outOfSample) {
+    printMetrics(evaluation.mode === "holdout" ? "Test set" : "Cross-validated", evaluation.outOfSample);
+  }
+  const results = checkMetrics(limits, evaluation.outOfSample ?? evaluation.inSample);
+
+  writeOutput(flags.out ?? "model.json", serializeArtifact(createArtifact(model, points, units, evaluation)));
+  if (flags.report) {
+    writeOutput(
+      flags.report,
+      reportJson({
+        command: "train",
+        dataset: {
+          file: dataset.file,
+          points: points.length,
+          rejectedRows: dataset.rejected,
+          hash: hashDataset(points),
+        },
+        units,
+        options,
+        model: modelSummary(model),
+        evaluation: {
+          mode: evaluation.mode,
+          seed: evaluation.seed,
+          inSample: evaluation.inSample,
+          outOfSample: evaluation.outOfSample,
+        },
+        checks: results,
+      })
+    );
+  }
+  return finishChecks(results);
+}
+
+interface SavedModel {
+  artifact: ModelArtifact;
+  model: RegressionResult;
+  units: Units;
+  // Training area range in the data's unit; null for files saved without one
+  areaRange: [number, number] | null;
+}
+
+// A saved model in the data's area unit; the data's units default to the model's.
+function modelFor(file: string, flags: Flags): SavedModel {
+  const artifact = loadArtifact(file);
+  const units = unitsOption(flags, artifact.units);
+  const factor = areaFactor(artifact.units.area, units.area);
+  const model = units.area !== artifact.units.area ? rescaleArea(artifact.model, factor) : artifact.model;
+  const range = artifact.trainingAreaRange;
+  return { artifact, model, units, areaRange: range ? [range[0] * factor, range[1] * factor] : null };
+}
+
+function evaluate(args: string[], flags: Flags): number {
+  if (args.length !== 2) throw new UsageError("evaluate takes a model file and a dataset file");
+  const { artifact, model, units } = modelFor(args[0], flags);
+  const limits = thresholds(flags);
+  const dataset = loadDataset(args[1], units, flags);
+  if (!dataset) return EXIT_INVALID;
+  // Grouped models cannot price points outside their categories
+  const known = (p: DataPoint) => !model.categories || model.categories.includes(p.category ?? "");
+  const scored = dataset.points.filter((p) => !p.excluded && known(p));
+  const skipped = dataset.points.filter((p) => !p.excluded).length - scored.length;
+  if (skipped > 0) {
+    console.error(`${skipped} point(s) are in a category the model was not trained on and were skipped.`);
+  }
+  if (scored.length === 0) {
+    console.error("None of the points can be priced by this model.");
+    return EXIT_INVALID;
+  }
+  const metrics = modelMetrics(scored, model);
+  const trainedOn = artifact.trainingDataHash === hashDataset(dataset.points);
+
+  console.log(modelLabel(model));
+  printMetrics(trainedOn ? "Training data" : "Dataset", metrics);
+  const results = checkMetrics(limits, metrics);
+  if (flags.report) {
+    writeOutput(
+      flags.report,
+      reportJson({
+        command: "evaluate",
+        model: { file: args[0], createdAt: artifact.createdAt, ...modelSummary(model) },
+        dataset: { file: dataset.file, points: dataset.points.length, rejectedRows: dataset.rejected, skipped },
+        // Metrics on the model's own training data are in-sample, not a test
+        isTrainingData: trainedOn,
+        units,
+        metrics,
+        checks: results,
+      })
+    );
+  }
+  return finishChecks(results);
+}
+
+function predict(args: string[], flags: Flags): number {
+  if (args.length !== 2) throw new UsageError("predict takes a model file and an inputs file");
+  const { model, units, areaRange } = modelFor(args[0], flags);
+  const level = levelOption(flags);
+  let parsed;
+  try {
+    parsed = parseBatch(parseDelimited(readText(args[1])), model.features, units, model.categories ?? []);
+  } catch (err) {
+    console.error(`${args[1]}: ${err instanceof Error ? err.message : String(err)}`);
+    return EXIT_INVALID;
+  }
+  if (!reportRowErrors(args[1], parsed.errors, flags)) return EXIT_INVALID;
+
+  const withIntervals = level !== null && supportsIntervals(model);
+  if (level !== null && !withIntervals) console.error("This model has no prediction intervals; writing prices only.");
+  const results = predictBatch(parsed.inputs, model, areaRange, withIntervals ? level : null);
+  const columns = model.categories ? [...model.features, CATEGORY] : model.features;
+  const csv = batchCsv(results, columns, withIntervals ? String(Math.round(level * 1000) / 10) : null);
+  if (flags.out) writeOutput(flags.out, csv);
+  else process.stdout.write(csv);
+  return EXIT_OK;
+}
+
+const COMMANDS: Record<string, (args: string[], flags: Flags) => number> = { train, evaluate, predict };
+
+export function main(argv: string[]): number {
+  try {
+    const { values, positionals } = parseArgs({ args: argv, options: FLAGS, allowPositionals: true, strict: true });
+    const flags = values as Flags;
+    const [command, ...args] = positionals;
+    if (flags.help || command === undefined) {
+      console.log(USAGE);
+      return command === undefined && !flags.help ? EXIT_USAGE : EXIT_OK;
+    }
+    const run = COMMANDS[command];
+    if (!run) throw new UsageError(`Unknown command "${command}"`);
+    return run(args, flags);
+  } catch (err) {
+    // parseArgs reports unknown or malformed flags with a TypeError carrying an ERR_PARSE_ARGS code
+    const code = (err as { code?: unknown }).code;
+    const parseError = err instanceof TypeError && String(code).startsWith("ERR_PARSE_ARGS");
+    if (err instanceof UsageError || parseError) {
+      console.error(`${err.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(err instanceof Error ? err.message : String(err));
+    return EXIT_INVALID;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
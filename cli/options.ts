@@ -0,0 +1,195 @@
+import {
+  DataPoint,
+  FitMethod,
+  FitOptions,
+  GroupingMode,
+  ModelType,
+  Units,
+  ValidationMode,
+  WeightingMode,
+} from "@/types";
+import { ValidationOptions } from "@/lib/evaluation";
+import { AREA, collectCategories, toFeatureKey } from "@/lib/features";
+import { BREAKPOINT_COUNTS, GROUPING_MODES, MODEL_TYPES, POLYNOMIAL_DEGREES } from "@/lib/models";
+import { DEFAULT_HUBER_K, FIT_METHODS } from "@/lib/robust";
+import { DEFAULT_MIXING, isRegularized } from "@/lib/regularized";
+import { AREA_UNITS, validateUnits } from "@/lib/units";
+import { DEFAULT_HALF_LIFE_DAYS, WEIGHTING_MODES } from "@/lib/weights";
+
+// Thrown for a command line that cannot be run; the CLI prints it with the usage.
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// Option table for node:util parseArgs; every command accepts every flag and ignores the ones it does not use.
+export const FLAGS = {
+  out: { type: "string", short: "o" },
+  report: { type: "string" },
+  features: { type: "string" },
+  "model-type": { type: "string" },
+  degree: { type: "string" },
+  breakpoints: { type: "string" },
+  jumps: { type: "boolean" },
+  method: { type: "string" },
+  "huber-k": { type: "string" },
+  "ransac-threshold": { type: "string" },
+  mixing: { type: "string" },
+  lambda: { type: "string" },
+  seed: { type: "string" },
+  grouping: { type: "string" },
+  weighting: { type: "string" },
+  "half-life": { type: "string" },
+  validation: { type: "string" },
+  "test-fraction": { type: "string" },
+  folds: { type: "string" },
+  "area-unit": { type: "string" },
+  currency: { type: "string" },
+  locale: { type: "string" },
+  level: { type: "string" },
+  "min-r2": { type: "string" },
+  "max-rmse": { type: "string" },
+  "allow-invalid-rows": { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+export type Flags = { [K in keyof typeof FLAGS]?: (typeof FLAGS)[K]["type"] extends "boolean" ? boolean : string };
+
+function choice<T extends string>(flags: Flags, name: keyof Flags, allowed: T[], fallback: T): T {
+  const value = flags[name];
+  if (value === undefined) return fallback;
+  if (!allowed.includes(value as T)) throw new UsageError(`--${name} must be one of ${allowed.join(", ")}`);
+  return value as T;
+}
+
+// Flag as a number passing `valid`; `fallback` when the flag is absent.
+function numeric<T extends number | undefined>(
+  flags: Flags,
+  name: keyof Flags,
+  valid: (v: number) => boolean,
+  requirement: string,
+  fallback: T
+): number | T {
+  const raw = flags[name];
+  if (raw === undefined) return fallback;
+  const v = typeof raw === "string" && raw.trim() !== "" ? Number(raw) : NaN;
+  if (!valid(v)) throw new UsageError(`--${name} must be ${requirement}`);
+  return v;
+}
+
+// Fit options from the flags, checked the way the Model section checks its inputs. --features
+// takes a comma-separated list of columns (area is the default) or "all" for every feature column.
+export function fitOptions(flags: Flags, points: DataPoint[], featureKeys: string[]): FitOptions {
+  const requested = (flags.features ?? AREA).split(",").map((f) => toFeatureKey(f.trim()));
+  const features = requested.includes("all") ? [AREA, ...featureKeys] : requested.filter((f) => f !== "");
+  const unknown = features.filter((f) => f !== AREA && !featureKeys.includes(f));
+  if (unknown.length > 0) throw new UsageError(`The dataset has no feature column(s) ${unknown.join(", ")}`);
+
+  const modelType = choice<ModelType>(flags, "model-type", MODEL_TYPES.map((t) => t.type), "linear");
+  const method = choice<FitMethod>(flags, "method", FIT_METHODS.map((m) => m.method), "ols");
+  const grouping = choice<GroupingMode>(flags, "grouping", GROUPING_MODES.map((g) => g.mode), "none");
+  const weighting = choice<WeightingMode>(flags, "weighting", WEIGHTING_MODES.map((w) => w.mode), "none");
+  if (weighting !== "none" && method !== "ols") {
+    throw new UsageError("--weighting applies to ordinary least squares only; drop it or use --method ols");
+  }
+  const lambda = numeric(flags, "lambda", (v) => v >= 0, "zero or a positive number", undefined);
+
+  return {
+    features: Array.from(new Set(features)),
+    modelType,
+    degree: numeric(
+      flags,
+      "degree",
+      (v) => POLYNOMIAL_DEGREES.includes(v),
+      `one of ${POLYNOMIAL_DEGREES.join(", ")}`,
+      2
+    ),
+    ...(modelType === "segmented"
+      ? {
+          breakpointCount: numeric(
+            flags,
+            "breakpoints",
+            (v) => BREAKPOINT_COUNTS.includes(v),
+            `one of ${BREAKPOINT_COUNTS.join(", ")}`,
+            1
+          ),
+          continuous: !flags.jumps,
+        }
+      : {}),
+    method,
+    huberK: numeric(flags, "huber-k", (v) => v > 0, "a positive number", DEFAULT_HUBER_K),
+    ransacThreshold: numeric(flags, "ransac-threshold", (v) => v > 0, "a positive number", undefined),
+    seed: numeric(flags, "seed", Number.isInteger, "a whole number", 0),
+    ...(method === "elastic-net"
+      ? { mixing: numeric(flags, "mixing", (v) => v >= 0 && v <= 1, "between 0 and 1", DEFAULT_MIXING) }
+      : {}),
+    ...(isRegularized(method) && lambda !== undefined ? { lambda } : {}),
+    // Levels come from every point in the fit so a validation split cannot silently drop one
+    ...(grouping !== "none" ? { grouping, categories: collectCategories(points) } : {}),
+    ...(weighting !== "none"
+      ? {
+          weighting,
+          halfLifeDays: numeric(flags, "half-life", (v) => v > 0, "a positive number of days", DEFAULT_HALF_LIFE_DAYS),
+        }
+      : {}),
+  };
+}
+
+export function validationOptions(flags: Flags, seed: number): ValidationOptions {
+  return {
+    mode: choice<ValidationMode>(flags, "validation", ["none", "holdout", "kfold"], "none"),
+    testFraction: numeric(flags, "test-fraction", (v) => v > 0 && v < 1, "between 0 and 1", 0.2),
+    folds: numeric(flags, "folds", (v) => Number.isInteger(v) && v >= 2, "a whole number of at least 2", 5),
+    seed,
+  };
+}
+
+// Units of the data files; each part defaults to `fallback` (the model's units for saved models).
+export function unitsOption(flags: Flags, fallback: Units): Units {
+  const units: Units = {
+    area: choice(flags, "area-unit", AREA_UNITS.map((u) => u.unit), fallback.area),
+    currency: flags.currency ?? fallback.currency,
+    locale: flags.locale ?? fallback.locale,
+  };
+  const err = validateUnits(units);
+  if (err) throw new UsageError(err);
+  return units;
+}
+
+// Prediction interval level as a fraction, from a percentage such as --level 95; null without the flag.
+export function levelOption(flags: Flags): number | null {
+  const percent = numeric(flags, "level", (v) => v > 0 && v < 100, "a percentage between 0 and 100", undefined);
+  return percent === undefined ? null : percent / 100;
+}
+
+// --min-r2 and --max-rmse, read before fitting so a typo fails fast
+export interface Thresholds {
+  minR2?: number;
+  maxRmse?: number;
+}
+
+export interface Check {
+  metric: "r2" | "rmse";
+  // Lower bound for R², upper bound for RMSE
+  limit: number;
+  value: number;
+  passed: boolean;
+}
+
+export function thresholds(flags: Flags): Thresholds {
+  const minR2 = numeric(flags, "min-r2", Number.isFinite, "a number", undefined);
+  const maxRmse = numeric(flags, "max-rmse", (v) => v > 0, "a positive number", undefined);
+  return { ...(minR2 !== undefined ? { minR2 } : {}), ...(maxRmse !== undefined ? { maxRmse } : {}) };
+}
+
+// Thresholds applied to a model's metrics. NaN never passes.
+export function checkMetrics({ minR2, maxRmse }: Thresholds, metrics: { r2: number; rmse: number }): Check[] {
+  const result: Check[] = [];
+  if (minR2 !== undefined) result.push({ metric: "r2", limit: minR2, value: metrics.r2, passed: metrics.r2 >= minR2 });
+  if (maxRmse !== undefined) {
+    result.push({ metric: "rmse", limit: maxRmse, value: metrics.rmse, passed: metrics.rmse <= maxRmse });
+  }
+  return result;
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { BatchPrediction, Units } from "@/types";
+import { RowError, downloadText, parseDelimited } from "@/lib/csv";
+import { batchCsv } from "@/lib/batch";
+import { formatMoney } from "@/lib/format";
+import { AREA, CATEGORY, featureLabel } from "@/lib/features";
+
+interface BatchPredictionsProps {
+  // Predictors the active model needs, in column order for header-less input
+  features: string[];
+  // Categories of a grouped model; rows then need a category column after the features
+  categories: string[];
+  units: Units;
+  results: BatchPrediction[];
+  errors: RowError[];
+  parseError: string;
+  intervalLevel: string;
+  withIntervals: boolean;
+  intervalsAvailable: boolean;
+  onRows: (rows: string[][]) => void;
+  onToggleIntervals: (on: boolean) => void;
+}
+
+const buttonClass =
+  "rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50";
+
+export function BatchPredictions({
+  features,
+  categories,
+  units,
+  results,
+  errors,
+  parseError,
+  intervalLevel,
+  withIntervals,
+  intervalsAvailable,
+  onRows,
+  onToggleIntervals,
+}: BatchPredictionsProps) {
+  const [text, setText] = useState<string>("");
+  const extras = features.filter((f) => f !== AREA);
+  const columns = categories.length > 0 ? [...features, CATEGORY] : features;
+  const showIntervals = withIntervals && results.some((r) => r.interval);
+
+  function load(t: string) {
+    setText(t);
+    onRows(parseDelimited(t));
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    load(await file.text());
+    e.target.value = "";
+  }
+
+  function exportResults() {
+    downloadText("batch-predictions.csv", batchCsv(results, columns, showIntervals ? intervalLevel : null));
+  }
+
+  return (
+    <div className="mt-6 rounded-lg border border-zinc-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm font-medium">Batch prediction</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-1 text-xs">
+            <input
+              type="checkbox"
+              checked={withIntervals}
+              disabled={!intervalsAvailable}
+              onChange={(e) => onToggleIntervals(e.target.checked)}
+            />
+            {intervalLevel}% intervals
+          </label>
+          <label className="cursor-pointer rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50">
+            Upload file
+            <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={onFile} className="hidden" />
+          </label>
+          <button type="button" onClick={exportResults} disabled={results.length === 0} className={buttonClass}>
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => load(e.target.value)}
+        rows={4}
+        className="mt-3 w-full rounded-lg border border-zinc-200 px-3 py-2 font-mono text-xs outline-none focus:border-zinc-400"
+        placeholder={`${columns.join(",")}\n${columns
+          .map((f) => (f === AREA ? "120" : f === CATEGORY ? categories[0] : "3"))
+          .join(",")}`}
+      />
+      <p className="mt-1 text-xs text-zinc-600">
+        One property per line with columns {columns.map(featureLabel).join(", ")}; a header row may name them in any order.
+        {categories.length > 0 ? ` Categories: ${categories.join(", ")}.` : ""}
+      </p>
+
+      {parseError ? <p className="mt-3 text-sm text-red-600">{parseError}</p> : null}
+
+      {errors.length > 0 ? (
+        <div className="mt-3 max-h-32 overflow-y-auto">
+          <table className="w-full border-collapse text-xs">
+            <tbody>
+              {errors.map((e) => (
+                <tr key={e.row} className="border-b border-zinc-100 last:border-0">
+                  <td className="py-1">Row {e.row}</td>
+                  <td className="py-1 text-red-600">{e.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {results.length > 0 ? (
+        <div className="mt-3 max-h-80 overflow-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b border-zinc-200 text-left text-zinc-700">
+                <th className="py-2">Row</th>
+                {features.includes(AREA) ? <th className="py-2">Area ({units.area})</th> : null}
+                {extras.map((f) => (
+                  <th key={f} className="py-2">
+                    {featureLabel(f)}
+                  </th>
+                ))}
+                {categories.length > 0 ? <th className="py-2">Category</th> : null}
+                <th className="py-2">Predicted price</th>
+                {showIntervals ? <th className="py-2">{intervalLevel}% prediction interval</th> : null}
+                <th className="py-2">Range</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r) => (
+                <tr
+                  key={r.row}
+                  className={`border-b border-zinc-100 last:border-0 ${r.extrapolated ? "bg-amber-50" : ""}`}
+                >
+                  <td className="py-2">{r.row}</td>
+                  {features.includes(AREA) ? <td className="py-2">{r.area}</td> : null}
+                  {extras.map((f) => (
+                    <td key={f} className="py-2">
+                      {r.features[f]}
+                    </td>
+                  ))}
+                  {categories.length > 0 ? <td className="py-2">{r.category}</td> : null}
+                  <td className="py-2 font-mono">{formatMoney(r.price, units)}</td>
+                  {showIntervals ? (
+                    <td className="py-2 font-mono">
+                      {r.interval ? `${formatMoney(r.interval[0], units)} – ${formatMoney(r.interval[1], units)}` : "-"}
+                    </td>
+                  ) : null}
+                  <td className="py-2">
+                    {r.extrapolated ? (
+                      <span className="font-semibold text-amber-700" title="Area is outside the training data range">
+                        ⚠ Extrapolation
+                      </span>
+                    ) : (
+                      "OK"
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { BootstrapMethod, BootstrapResult, DataPoint, FitOptions, RegressionResult, Units } from "@/types";
+import { INTERCEPT, PredictionInput, supportsIntervals } from "@/lib/regression";
+import {
+  BOOTSTRAP_METHODS,
+  BootstrapRequest,
+  coefficientIntervals,
+  DEFAULT_REPLICATES,
+  MAX_REPLICATES,
+  predictionIntervals,
+} from "@/lib/bootstrap";
+import { histogram } from "@/lib/assumptions";
+import { isLogTarget, LOG_AREA, termLabel } from "@/lib/models";
+import { AREA } from "@/lib/features";
+import { formatMoney, parseNumber } from "@/lib/format";
+import { randomSeed } from "@/lib/random";
+import { tQuantile } from "@/lib/stats";
+
+interface BootstrapUncertaintyProps {
+  model: RegressionResult;
+  // Points the model was trained on
+  points: DataPoint[];
+  options: FitOptions;
+  units: Units;
+  // Interval level as a fraction, shared with the prediction form
+  level: number;
+  // Input of the current prediction, if one is shown
+  predictionInput: PredictionInput | null;
+  result: BootstrapResult | null;
+  run: (request: BootstrapRequest, onProgress: (fraction: number) => void) => Promise<BootstrapResult>;
+  onResult: (result: BootstrapResult | null) => void;
+}
+
+const buttonClass =
+  "inline-flex items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50";
+const inputClass = "rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs outline-none focus:border-zinc-400";
+
+function formatInterval(pair: [number, number], format: (v: number) => string): string {
+  return Number.isFinite(pair[0]) && Number.isFinite(pair[1]) ? `${format(pair[0])} – ${format(pair[1])}` : "-";
+}
+
+function formatCoefficient(v: number): string {
+  if (!Number.isFinite(v)) return "-";
+  const abs = Math.abs(v);
+  return abs !== 0 && (abs < 1e-3 || abs >= 1e9) ? v.toExponential(3) : v.toFixed(4);
+}
+
+export function BootstrapUncertainty({
+  model,
+  points,
+  options,
+  units,
+  level,
+  predictionInput,
+  result,
+  run,
+  onResult,
+}: BootstrapUncertaintyProps) {
+  const [method, setMethod] = useState<BootstrapMethod>("pairs");
+  const [replicates, setReplicates] = useState<string>(String(DEFAULT_REPLICATES));
+  const [seedInput, setSeedInput] = useState<string>("");
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string>("");
+  const runId = useRef(0);
+
+  // A new model or training set makes any running or finished bootstrap stale
+  useEffect(() => {
+    runId.current++;
+    setProgress(null);
+    setError("");
+  }, [model, points]);
+
+  async function start() {
+    setError("");
+    const count = parseNumber(replicates, units.locale);
+    if (!Number.isInteger(count) || count < 100 || count > MAX_REPLICATES) {
+      setError(`Replicates must be a whole number between 100 and ${MAX_REPLICATES}.`);
+      return;
+    }
+    const seed = seedInput.trim() === "" ? randomSeed() : Math.trunc(parseNumber(seedInput, units.locale));
+    if (!Number.isFinite(seed)) {
+      setError("Seed must be a number.");
+      return;
+    }
+
+    const id = ++runId.current;
+    setProgress(0);
+    try {
+      const r = await run({ points, options, method, replicates: count, seed }, (fraction) => {
+        if (id === runId.current) setProgress(fraction);
+      });
+      if (id !== runId.current) return;
+      if (r.samples.length < 2) throw new Error("Almost every resample failed to fit; the dataset is too small.");
+      onResult(r);
+    } catch (err) {
+      if (id !== runId.current) return;
+      onResult(null);
+      setError(err instanceof Error ? err.message : "Bootstrap failed");
+    } finally {
+      if (id === runId.current) setProgress(null);
+    }
+  }
+
+  const validLevel = level > 0 && level < 1 ? level : 0.95;
+  const levelLabel = `${Math.round(validLevel * 1000) / 10}%`;
+  const intervals = useMemo(
+    () => (result ? coefficientIntervals(model, result, validLevel) : []),
+    [model, result, validLevel]
+  );
+  const prediction = useMemo(
+    () => (result && predictionInput ? predictionIntervals(model, result, predictionInput, validLevel) : null),
+    [model, result, predictionInput, validLevel]
+  );
+
+  // Histograms for the headline slope (area or log-area, else the first term) and the intercept
+  const slopeTerm = model.terms.find((t) => t === AREA || t === LOG_AREA) ?? model.terms[0];
+  const charts = useMemo(() => {
+    if (!result) return [];
+    return [slopeTerm, INTERCEPT].map((term) => {
+      const values = result.samples.map((s) => (term === INTERCEPT ? s.b : s.coefficients[term]));
+      return {
+        term,
+        bins: histogram(values),
+        interval: intervals.find((c) => c.term === term),
+      };
+    });
+  }, [result, slopeTerm, intervals]);
+
+  const analytic = supportsIntervals(model) ? tQuantile(1 - (1 - validLevel) / 2, model.df) : NaN;
+  const formatPrice = (v: number) => formatMoney(v, units);
+
+  return (
+    <div>
+      <p className="mt-2 text-sm text-zinc-700">
+        Refits the current model on resampled copies of the training data to see how much the coefficients and
+        predictions move, without assuming normally distributed errors.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+        <label className="font-medium" htmlFor="bootstrap-method">
+          Resample:
+        </label>
+        <select
+          id="bootstrap-method"
+          value={method}
+          onChange={(e) => setMethod(e.target.value as BootstrapMethod)}
+          className={inputClass}
+        >
+          {BOOTSTRAP_METHODS.map((m) => (
+            <option key={m.method} value={m.method}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        <label className="ml-2 font-medium" htmlFor="bootstrap-replicates">
+          Replicates:
+        </label>
+        <input
+          id="bootstrap-replicates"
+          value={replicates}
+          onChange={(e) => setReplicates(e.target.value)}
+          inputMode="numeric"
+          className={`${inputClass} w-20`}
+        />
+        <label className="ml-2 font-medium" htmlFor="bootstrap-seed">
+          Seed:
+        </label>
+        <input
+          id="bootstrap-seed"
+          value={seedInput}
+          onChange={(e) => setSeedInput(e.target.value)}
+          inputMode="numeric"
+          placeholder="random"
+          className={`${inputClass} w-24`}
+        />
+        <button type="button" onClick={start} disabled={progress !== null} className={`${buttonClass} ml-2`}>
+          {progress !== null ? `Resampling… ${Math.round(progress * 100)}%` : "Run bootstrap"}
+        </button>
+      </div>
+      {progress !== null ? (
+        <div className="mt-2 h-1.5 w-full overflow-hidden rounded bg-zinc-100">
+          <div className="h-full bg-zinc-900" style={{ width: `${Math.round(progress * 100)}%` }} />
+        </div>
+      ) : null}
+      {error ? <p className="mt-3 text-sm text-red-600">{error}</p> : null}
+
+      {result ? (
+        <>
+          <p className="mt-4 text-xs text-zinc-600">
+            {result.samples.length} {result.method} resamples (seed {result.seed})
+            {result.failed > 0 ? `; ${result.failed} could not be fitted and were skipped` : ""}.
+            {result.method === "residual" ? " Residual resampling assumes the model's shape is right." : ""}
+          </p>
+
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="border-b border-zinc-200 text-left text-zinc-700">
+                  <th className="py-2">Term</th>
+                  <th className="py-2">Estimate</th>
+                  <th className="py-2">Bootstrap SE</th>
+                  <th className="py-2">{levelLabel} percentile</th>
+                  <th className="py-2">{levelLabel} BCa</th>
+                  <th className="py-2">{levelLabel} normal theory</th>
+                </tr>
+              </thead>
+              <tbody>
+                {intervals.map((c) => {
+                  const se = model.coefficientStats[c.term]?.stdError;
+                  return (
+                    <tr key={c.term} className="border-b border-zinc-100 font-mono last:border-0">
+                      <td className="py-2 font-sans">{c.term === INTERCEPT ? "Intercept" : termLabel(c.term)}</td>
+                      <td className="py-2">{formatCoefficient(c.estimate)}</td>
+                      <td className="py-2">{formatCoefficient(c.stdError)}</td>
+                      <td className="py-2">{formatInterval(c.percentile, formatCoefficient)}</td>
+                      <td className="py-2">{formatInterval(c.bca, formatCoefficient)}</td>
+                      <td className="py-2">
+                        {formatInterval([c.estimate - analytic * se, c.estimate + analytic * se], formatCoefficient)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {prediction ? (
+            <div className="mt-4 rounded-lg border border-zinc-200 p-4 text-sm">
+              <div className="text-xs text-zinc-600">Bootstrap intervals for the current prediction</div>
+              <div className="mt-1 font-mono">{formatPrice(prediction.price)}</div>
+              <div className="mt-2 grid grid-cols-1 gap-2 text-xs md:grid-cols-3">
+                <div>
+                  <span className="font-medium">Mean price, percentile:</span>{" "}
+                  {formatInterval(prediction.confidence.percentile, formatPrice)}
+                </div>
+                <div>
+                  <span className="font-medium">Mean price, BCa:</span>{" "}
+                  {formatInterval(prediction.confidence.bca, formatPrice)}
+                </div>
+                <div>
+                  <span className="font-medium">Single sale:</span> {formatInterval(prediction.prediction, formatPrice)}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <p className="mt-4 text-xs text-zinc-600">Make a prediction to see its bootstrap interval here.</p>
+          )}
+
+          <div className="mt-4 grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {charts.map(({ term, bins, interval }) => (
+              <div key={term} className="h-[260px] rounded-lg border border-zinc-200 p-3">
+                <div className="mb-2 text-sm font-medium">
+                  {term === INTERCEPT ? "Intercept" : `Slope (${termLabel(term)})`} across resamples
+                  {isLogTarget(model.modelType) ? " (log scale)" : ""}
+                </div>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={bins} margin={{ top: 10, right: 10, bottom: 20, left: 0 }} barCategoryGap={1}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="mid"
+                      type="number"
+                      domain={["dataMin", "dataMax"]}
+                      tick={{ fontSize: 11 }}
+                      tickFormatter={formatCoefficient}
+                    />
+                    <YAxis tick={{ fontSize: 11 }} allowDecimals={false} />
+                    <Tooltip
+                      labelFormatter={(v: number) => `Around ${formatCoefficient(v)}`}
+                      formatter={(value: number) => [value, "Resamples"]}
+                    />
+                    <Bar dataKey="count" fill="#0f172a" isAnimationActive={false} />
+                    {interval ? <ReferenceLine x={interval.estimate} stroke="#ef4444" strokeWidth={2} /> : null}
+                    {interval ? (
+                      <ReferenceLine x={interval.percentile[0]} stroke="#3b82f6" strokeDasharray="4 3" />
+                    ) : null}
+                    {interval ? (
+                      <ReferenceLine x={interval.percentile[1]} stroke="#3b82f6" strokeDasharray="4 3" />
+                    ) : null}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-zinc-600">
+            Red: estimate from the full data. Blue: {levelLabel} percentile interval. BCa adjusts the percentile interval
+            for bias and skew, and is usually the better choice when they differ.
+          </p>
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+import { chartImage, chartPng, fileNameFor } from "@/lib/chartImage";
+import { downloadBlob, downloadText } from "@/lib/csv";
+
+const buttonClass = "rounded-lg border border-zinc-200 px-2 py-1 text-xs hover:bg-zinc-50";
+
+// SVG/PNG download buttons for the chart card (data-chart) they are placed in.
+export function ChartDownload() {
+  const [error, setError] = useState<string>("");
+
+  function image(e: React.MouseEvent<HTMLButtonElement>) {
+    const card = e.currentTarget.closest<HTMLElement>("[data-chart]");
+    return card ? chartImage(card) : null;
+  }
+
+  function downloadSvg(e: React.MouseEvent<HTMLButtonElement>) {
+    const img = image(e);
+    if (img) downloadText(fileNameFor(img.title, "svg"), img.svg, "image/svg+xml");
+  }
+
+  async function downloadPng(e: React.MouseEvent<HTMLButtonElement>) {
+    const img = image(e);
+    if (!img) return;
+    setError("");
+    try {
+      downloadBlob(fileNameFor(img.title, "png"), await chartPng(img));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create the PNG.");
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      {error ? <span className="text-xs text-red-600">{error}</span> : null}
+      <button type="button" onClick={downloadSvg} className={buttonClass} title="Download as SVG">
+        SVG
+      </button>
+      <button type="button" onClick={downloadPng} className={buttonClass} title="Download as PNG">
+        PNG
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { DataPoint } from "@/types";
+import { ChartBox, CLICK_TOLERANCE, nearestPoint } from "@/lib/chartEdit";
+import { roundToAxis } from "@/lib/format";
+
+export type ChartEditMode = "view" | "edit" | "select";
+
+type Scale = ((v: number) => number) & { invert: (v: number) => number; domain: () => number[] };
+
+interface ChartEditLayerProps {
+  mode: ChartEditMode;
+  // Points that can be grabbed: the ones drawn on the chart
+  points: DataPoint[];
+  onAdd: (area: number, price: number) => void;
+  // Called when a point is grabbed, with the axis domains to hold still while it moves
+  onDragStart: (id: string, domain: ChartBox) => void;
+  onDrag: (id: string, area: number, price: number) => void;
+  onDrop: (id: string, area: number, price: number) => void;
+  // The drag was interrupted (e.g. by the browser taking over a touch)
+  onCancel: () => void;
+  onSelect: (box: ChartBox) => void;
+  // Injected by Recharts' <Customized>
+  xAxisMap?: Record<string, { scale: Scale }>;
+  yAxisMap?: Record<string, { scale: Scale }>;
+  offset?: { left: number; top: number; width: number; height: number };
+}
+
+type Gesture =
+  | { kind: "press"; x: number; y: number }
+  | { kind: "drag"; id: string }
+  | { kind: "brush"; x: number; y: number };
+
+// Transparent overlay on the plot area of the training chart. In edit mode a click adds a
+// point and dragging a point moves it; in select mode dragging draws a selection box.
+// Rendered through <Customized> so it can read the chart's axis scales.
+export function ChartEditLayer({
+  mode,
+  points,
+  onAdd,
+  onDragStart,
+  onDrag,
+  onDrop,
+  onCancel,
+  onSelect,
+  xAxisMap,
+  yAxisMap,
+  offset,
+}: ChartEditLayerProps) {
+  const gesture = useRef<Gesture | null>(null);
+  const [brush, setBrush] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+
+  const x = xAxisMap ? Object.values(xAxisMap)[0]?.scale : undefined;
+  const y = yAxisMap ? Object.values(yAxisMap)[0]?.scale : undefined;
+  if (mode === "view" || !x || !y || !offset) return null;
+  const xScale = x;
+  const yScale = y;
+  const plot = offset;
+
+  // Pointer position in chart pixels, kept inside the plot area
+  function position(e: React.PointerEvent<SVGRectElement>): [number, number] {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const px = Math.min(Math.max(e.clientX - bounds.left, 0), plot.width) + plot.left;
+    const py = Math.min(Math.max(e.clientY - bounds.top, 0), plot.height) + plot.top;
+    return [px, py];
+  }
+
+  function toData(px: number, py: number): [number, number] {
+    const [a0, a1] = xScale.domain();
+    const [p0, p1] = yScale.domain();
+    return [roundToAxis(xScale.invert(px), a1 - a0), roundToAxis(yScale.invert(py), p1 - p0)];
+  }
+
+  function onPointerDown(e: React.PointerEvent<SVGRectElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const [px, py] = position(e);
+    if (mode === "select") {
+      gesture.current = { kind: "brush", x: px, y: py };
+      setBrush({ x0: px, y0: py, x1: px, y1: py });
+      return;
+    }
+    const grabbed = nearestPoint(points, (p) => [xScale(p.area), yScale(p.price)], px, py);
+    if (grabbed) {
+      gesture.current = { kind: "drag", id: grabbed.id };
+      const [a0, a1] = xScale.domain();
+      const [p0, p1] = yScale.domain();
+      onDragStart(grabbed.id, { area: [a0, a1], price: [p0, p1] });
+    } else {
+      gesture.current = { kind: "press", x: px, y: py };
+    }
+  }
+
+  function onPointerMove(e: React.PointerEvent<SVGRectElement>) {
+    const g = gesture.current;
+    if (!g) return;
+    const [px, py] = position(e);
+    if (g.kind === "drag") onDrag(g.id, ...toData(px, py));
+    else if (g.kind === "brush") setBrush({ x0: g.x, y0: g.y, x1: px, y1: py });
+  }
+
+  function onPointerUp(e: React.PointerEvent<SVGRectElement>) {
+    const g = gesture.current;
+    gesture.current = null;
+    if (!g) return;
+    const [px, py] = position(e);
+    if (g.kind === "drag") {
+      onDrop(g.id, ...toData(px, py));
+    } else if (g.kind === "press") {
+      if (Math.abs(px - g.x) <= CLICK_TOLERANCE && Math.abs(py - g.y) <= CLICK_TOLERANCE) onAdd(...toData(px, py));
+    } else {
+      setBrush(null);
+      const [a0, p0] = [xScale.invert(Math.min(g.x, px)), yScale.invert(Math.max(g.y, py))];
+      const [a1, p1] = [xScale.invert(Math.max(g.x, px)), yScale.invert(Math.min(g.y, py))];
+      onSelect({ area: [a0, a1], price: [p0, p1] });
+    }
+  }
+
+  return (
+    <g>
+      <rect
+        x={plot.left}
+        y={plot.top}
+        width={plot.width}
+        height={plot.height}
+        fill="transparent"
+        style={{ cursor: mode === "select" ? "crosshair" : "pointer", touchAction: "none" }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={() => {
+          if (gesture.current?.kind === "drag") onCancel();
+          gesture.current = null;
+          setBrush(null);
+        }}
+      />
+      {brush ? (
+        <rect
+          x={Math.min(brush.x0, brush.x1)}
+          y={Math.min(brush.y0, brush.y1)}
+          width={Math.abs(brush.x1 - brush.x0)}
+          height={Math.abs(brush.y1 - brush.y0)}
+          fill="#3b82f6"
+          fillOpacity={0.1}
+          stroke="#3b82f6"
+          strokeDasharray="4 3"
+          pointerEvents="none"
+        />
+      ) : null}
+    </g>
+  );
+}
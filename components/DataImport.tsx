@@ -0,0 +1,296 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { DataPoint, Units } from "@/types";
+import { formatMoney, parseNumber } from "@/lib/format";
+import { ColumnMapping, Delimiter, detectDelimiter, guessMapping, mapRows, parseDelimited } from "@/lib/csv";
+import { toFeatureKey } from "@/lib/features";
+
+export type ImportMode = "append" | "replace";
+
+// Large files can have thousands of bad rows; only the first ones are listed
+const MAX_LISTED_ERRORS = 200;
+
+interface DataImportProps {
+  onImport: (points: DataPoint[], mode: ImportMode) => string | null;
+  units: Units;
+}
+
+type OptionalColumn = "category" | "weight" | "date";
+
+const OPTIONAL_COLUMNS: Array<{ key: OptionalColumn; label: string }> = [
+  { key: "category", label: "Category column" },
+  { key: "weight", label: "Weight column" },
+  { key: "date", label: "Sale date column" },
+];
+
+const DELIMITER_LABELS: Record<Delimiter, string> = {
+  ",": "Comma",
+  "\t": "Tab",
+  ";": "Semicolon",
+};
+
+export function DataImport({ onImport, units }: DataImportProps) {
+  const [text, setText] = useState<string>("");
+  const [delimiter, setDelimiter] = useState<Delimiter>(",");
+  const [hasHeader, setHasHeader] = useState<boolean>(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({
+    area: 0,
+    price: 1,
+    features: {},
+    category: null,
+    weight: null,
+    date: null,
+  });
+  const [mode, setMode] = useState<ImportMode>("append");
+  const [importError, setImportError] = useState<string>("");
+
+  function loadText(t: string) {
+    const d = detectDelimiter(t);
+    const rows = parseDelimited(t, d);
+    setText(t);
+    setDelimiter(d);
+    setImportError("");
+    if (rows.length > 0) {
+      const header = rows[0];
+      const looksLikeHeader = header.some((h) => h.trim() !== "" && !Number.isFinite(parseNumber(h, units.locale)));
+      setHasHeader(looksLikeHeader);
+      setMapping(guessMapping(looksLikeHeader ? header : header.map(() => "")));
+    }
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    loadText(await file.text());
+    e.target.value = "";
+  }
+
+  async function pasteClipboard() {
+    try {
+      loadText(await navigator.clipboard.readText());
+    } catch {
+      setImportError("Clipboard access was denied. Paste into the text box instead.");
+    }
+  }
+
+  const rows = useMemo(() => parseDelimited(text, delimiter), [text, delimiter]);
+  const columnCount = rows.reduce((n, r) => Math.max(n, r.length), 0);
+  const columns = Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && rows[0]?.[i]?.trim() ? rows[0][i].trim() : `Column ${i + 1}`
+  );
+  const mapped = useMemo(() => mapRows(rows, mapping, hasHeader, units), [rows, mapping, hasHeader, units]);
+
+  // A column maps to one target; taking it for another clears the optional ones it was mapped to
+  function setTargetColumn(target: "area" | "price" | OptionalColumn, col: number | null) {
+    setMapping((m) => ({
+      ...m,
+      ...Object.fromEntries(
+        OPTIONAL_COLUMNS.filter((o) => o.key !== target && m[o.key] === col).map((o) => [o.key, null])
+      ),
+      [target]: col,
+      features: Object.fromEntries(Object.entries(m.features).filter(([, c]) => c !== col)),
+    }));
+  }
+
+  function toggleFeatureColumn(col: number, on: boolean) {
+    const key = toFeatureKey(columns[col]);
+    setMapping((m) => {
+      const features = Object.fromEntries(Object.entries(m.features).filter(([, c]) => c !== col));
+      if (on && key !== "") features[key] = col;
+      return { ...m, features };
+    });
+  }
+
+  const mappedColumns = new Set(Object.values(mapping.features));
+
+  function submit() {
+    if (mapped.points.length === 0) {
+      setImportError("No valid rows to import.");
+      return;
+    }
+    const err = onImport(mapped.points, mode);
+    if (err) {
+      setImportError(err);
+      return;
+    }
+    setText("");
+    setImportError("");
+  }
+
+  const selectClass =
+    "mt-1 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm outline-none focus:border-zinc-400";
+
+  return (
+    <div className="mt-6 rounded-lg border border-zinc-200 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm font-medium">Import CSV/TSV</div>
+        <div className="flex flex-wrap gap-2">
+          <label className="cursor-pointer rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50">
+            Upload file
+            <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={onFile} className="hidden" />
+          </label>
+          <button
+            type="button"
+            onClick={pasteClipboard}
+            className="rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50"
+          >
+            Paste from clipboard
+          </button>
+        </div>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onPaste={(e) => {
+          e.preventDefault();
+          loadText(e.clipboardData.getData("text"));
+        }}
+        rows={4}
+        className="mt-3 w-full rounded-lg border border-zinc-200 px-3 py-2 font-mono text-xs outline-none focus:border-zinc-400"
+        placeholder={"area,price\n120,250000"}
+      />
+
+      {rows.length > 0 ? (
+        <>
+          <div className="mt-3 grid grid-cols-2 gap-4 md:grid-cols-4">
+            <div>
+              <label className="block text-xs font-medium">Delimiter</label>
+              <select value={delimiter} onChange={(e) => setDelimiter(e.target.value as Delimiter)} className={selectClass}>
+                {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map((d) => (
+                  <option key={d} value={d}>
+                    {DELIMITER_LABELS[d]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium">Area column</label>
+              <select
+                value={mapping.area ?? ""}
+                onChange={(e) => setTargetColumn("area", e.target.value === "" ? null : Number(e.target.value))}
+                className={selectClass}
+              >
+                {mapping.area === null ? <option value="">Choose a column</option> : null}
+                {columns.map((c, i) => (
+                  <option key={i} value={i}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium">Price column</label>
+              <select
+                value={mapping.price}
+                onChange={(e) => setTargetColumn("price", Number(e.target.value))}
+                className={selectClass}
+              >
+                {columns.map((c, i) => (
+                  <option key={i} value={i}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {OPTIONAL_COLUMNS.map(({ key, label }) => (
+              <div key={key}>
+                <label className="block text-xs font-medium">{label}</label>
+                <select
+                  value={mapping[key] ?? ""}
+                  onChange={(e) => setTargetColumn(key, e.target.value === "" ? null : Number(e.target.value))}
+                  className={selectClass}
+                >
+                  <option value="">None</option>
+                  {columns.map((c, i) =>
+                    i === mapping.area || i === mapping.price ? null : (
+                      <option key={i} value={i}>
+                        {c}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+            ))}
+            <div>
+              <label className="block text-xs font-medium">Mode</label>
+              <select value={mode} onChange={(e) => setMode(e.target.value as ImportMode)} className={selectClass}>
+                <option value="append">Append</option>
+                <option value="replace">Replace</option>
+              </select>
+            </div>
+            <label className="flex items-end gap-2 pb-2 text-xs">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+              First row is a header
+            </label>
+          </div>
+
+          {columnCount > 2 ? (
+            <div className="mt-3 flex flex-wrap items-center gap-3 text-xs">
+              <span className="font-medium">Extra feature columns:</span>
+              {columns.map((c, i) =>
+                [mapping.area, mapping.price, mapping.category, mapping.weight, mapping.date].includes(i) ? null : (
+                  <label key={i} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={mappedColumns.has(i)}
+                      onChange={(e) => toggleFeatureColumn(i, e.target.checked)}
+                    />
+                    {c}
+                  </label>
+                )
+              )}
+            </div>
+          ) : null}
+
+          <div className="mt-3 text-xs text-zinc-600">
+            {mapped.points.length} valid row(s) • {mapped.errors.length} row(s) with errors
+          </div>
+
+          {mapped.errors.length > 0 ? (
+            <div className="mt-2 max-h-40 overflow-y-auto">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr className="border-b border-zinc-200 text-left text-zinc-700">
+                    <th className="py-1">Row</th>
+                    <th className="py-1">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {mapped.errors.slice(0, MAX_LISTED_ERRORS).map((e) => (
+                    <tr key={e.row} className="border-b border-zinc-100 last:border-0">
+                      <td className="py-1">{e.row}</td>
+                      <td className="py-1 text-red-600">{e.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          {mapped.points.length > 0 ? (
+            <div className="mt-2 text-xs text-zinc-600">
+              Preview: {mapped.points
+                .slice(0, 3)
+                .map((p) => `${p.area} ${units.area} → ${formatMoney(p.price, units)}`)
+                .join(", ")}
+              {mapped.points.length > 3 ? ", …" : ""}
+            </div>
+          ) : null}
+
+          <button
+            type="button"
+            onClick={submit}
+            disabled={mapped.points.length === 0}
+            className="mt-3 inline-flex items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Import {mapped.points.length} row(s)
+          </button>
+        </>
+      ) : null}
+
+      {importError ? <p className="mt-3 text-sm text-red-600">{importError}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { Dataset } from "@/types";
+
+interface DatasetSwitcherProps {
+  datasets: Dataset[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const buttonClass =
+  "rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50";
+
+export function DatasetSwitcher({
+  datasets,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: DatasetSwitcherProps) {
+  const active = datasets.find((d) => d.id === activeId);
+
+  function create() {
+    const name = window.prompt("Name for the new dataset:", `Dataset ${datasets.length + 1}`);
+    if (name && name.trim()) onCreate(name.trim());
+  }
+
+  function rename() {
+    if (!active) return;
+    const name = window.prompt("Rename dataset:", active.name);
+    if (name && name.trim()) onRename(active.id, name.trim());
+  }
+
+  function remove() {
+    if (!active) return;
+    if (window.confirm(`Delete "${active.name}" and its ${active.points.length} point(s)?`)) onDelete(active.id);
+  }
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+      <label className="font-medium" htmlFor="dataset-switcher">
+        Dataset:
+      </label>
+      <select
+        id="dataset-switcher"
+        value={activeId}
+        onChange={(e) => onSelect(e.target.value)}
+        className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-sm outline-none focus:border-zinc-400"
+      >
+        {datasets.map((d) => (
+          <option key={d.id} value={d.id}>
+            {d.name} ({d.points.length})
+          </option>
+        ))}
+      </select>
+      <button type="button" onClick={create} className={buttonClass}>
+        New
+      </button>
+      <button type="button" onClick={rename} className={buttonClass}>
+        Rename
+      </button>
+      <button type="button" onClick={() => onDuplicate(activeId)} className={buttonClass}>
+        Duplicate
+      </button>
+      <button type="button" onClick={remove} disabled={datasets.length <= 1} className={buttonClass}>
+        Delete
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { FitDiagnostic } from "@/types";
+import { featureLabel } from "@/lib/features";
+
+interface FitIssuesProps {
+  issues: FitDiagnostic[];
+}
+
+const ISSUE_TITLES: Record<FitDiagnostic["issue"], string> = {
+  "non-finite": "Invalid values",
+  "constant-x": "No variation in a feature",
+  "constant-y": "No variation in price",
+  collinear: "Redundant features",
+  "ill-conditioned": "Nearly collinear features",
+  weights: "Unusable weights",
+};
+
+export function FitIssues({ issues }: FitIssuesProps) {
+  if (issues.length === 0) return null;
+  return (
+    <ul className="mt-3 space-y-2">
+      {issues.map((d, i) => (
+        <li
+          key={`${d.issue}-${i}`}
+          className={`rounded-lg border p-3 text-sm ${
+            d.severity === "error" ? "border-red-200 bg-red-50 text-red-700" : "border-amber-200 bg-amber-50 text-amber-800"
+          }`}
+        >
+          <div className="font-medium">
+            {d.severity === "error" ? "Cannot fit: " : "Warning: "}
+            {ISSUE_TITLES[d.issue]}
+            {d.features && d.features.length > 0 ? ` (${d.features.map(featureLabel).join(", ")})` : ""}
+          </div>
+          <div className="mt-1">{d.message}</div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { DataPoint, RegressionResult, Units } from "@/types";
+import { calculateRegression } from "@/lib/regression";
+import { parseNumber } from "@/lib/format";
+import {
+  BATCH_MODES,
+  BatchMode,
+  createGradientDescent,
+  DEFAULT_GRADIENT_OPTIONS,
+  GradientOptions,
+  GradientRun,
+  GradientSnapshot,
+  LossPoint,
+  MAX_EPOCHS,
+  validateGradientOptions,
+} from "@/lib/gradient";
+
+interface GradientDescentProps {
+  // Points the closed-form model is fitted to (excluded points left out)
+  points: DataPoint[];
+  units: Units;
+  onLine: (line: { m: number; b: number } | null) => void;
+}
+
+// Playback runs the whole schedule in roughly PLAYBACK_TICKS frames
+const TICK_MS = 50;
+const PLAYBACK_TICKS = 100;
+// The loss chart is thinned to at most this many epochs
+const MAX_CHART_POINTS = 500;
+
+const buttonClass =
+  "rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50";
+const inputClass = "rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs outline-none focus:border-zinc-400";
+
+function formatNumber(v: number, locale: string, digits = 4): string {
+  if (!Number.isFinite(v)) return "-";
+  const abs = Math.abs(v);
+  if (abs !== 0 && (abs < 1e-3 || abs >= 1e12)) return v.toExponential(3);
+  return v.toLocaleString(locale, { maximumFractionDigits: digits });
+}
+
+function thin(history: LossPoint[]): LossPoint[] {
+  if (history.length <= MAX_CHART_POINTS) return history.slice();
+  const every = Math.ceil(history.length / MAX_CHART_POINTS);
+  return history.filter((h, i) => i % every === 0 || i === history.length - 1);
+}
+
+export function GradientDescent({ points, units, onLine }: GradientDescentProps) {
+  const [learningRate, setLearningRate] = useState<string>(String(DEFAULT_GRADIENT_OPTIONS.learningRate));
+  const [epochs, setEpochs] = useState<string>(String(DEFAULT_GRADIENT_OPTIONS.epochs));
+  const [batchMode, setBatchMode] = useState<BatchMode>(DEFAULT_GRADIENT_OPTIONS.batchMode);
+  const [batchSize, setBatchSize] = useState<string>(String(DEFAULT_GRADIENT_OPTIONS.batchSize));
+  const [scaleFeatures, setScaleFeatures] = useState<boolean>(DEFAULT_GRADIENT_OPTIONS.scaleFeatures);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const [snapshot, setSnapshot] = useState<GradientSnapshot | null>(null);
+  const [loss, setLoss] = useState<LossPoint[]>([]);
+  const runner = useRef<GradientRun | null>(null);
+
+  const options = useMemo<GradientOptions>(
+    () => ({
+      learningRate: parseNumber(learningRate, units.locale),
+      epochs: parseNumber(epochs, units.locale),
+      batchMode,
+      batchSize: parseNumber(batchSize, units.locale),
+      scaleFeatures,
+    }),
+    [learningRate, epochs, batchMode, batchSize, scaleFeatures, units.locale]
+  );
+  const optionsError = validateGradientOptions(options);
+
+  // Setting up fails for the same reasons the closed-form fit does (too few points, one area)
+  const setup = useMemo<{ error: string }>(() => {
+    if (optionsError) return { error: optionsError };
+    try {
+      createGradientDescent(points, options);
+      return { error: "" };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Cannot run gradient descent" };
+    }
+  }, [points, options, optionsError]);
+
+  const closedForm = useMemo<RegressionResult | null>(() => {
+    try {
+      return calculateRegression(points);
+    } catch {
+      return null;
+    }
+  }, [points]);
+
+  // Any change to the data or settings starts over from m = b = 0
+  useEffect(() => {
+    runner.current = null;
+    setPlaying(false);
+    setSnapshot(null);
+    setLoss([]);
+  }, [points, options]);
+
+  useEffect(() => {
+    onLine(snapshot && snapshot.epoch > 0 && !snapshot.diverged ? { m: snapshot.m, b: snapshot.b } : null);
+  }, [snapshot, onLine]);
+
+  useEffect(() => () => onLine(null), [onLine]);
+
+  const advance = useCallback(
+    (count: number) => {
+      if (setup.error) return;
+      if (!runner.current) runner.current = createGradientDescent(points, options);
+      const run = runner.current;
+      let snap = run.snapshot();
+      for (let i = 0; i < count && !snap.done; i++) snap = run.step();
+      setSnapshot(snap);
+      setLoss(thin(run.history()));
+      if (snap.done) setPlaying(false);
+    },
+    [setup.error, points, options]
+  );
+
+  useEffect(() => {
+    if (!playing) return;
+    const perTick = Math.max(1, Math.ceil(options.epochs / PLAYBACK_TICKS));
+    const timer = setInterval(() => advance(perTick), TICK_MS);
+    return () => clearInterval(timer);
+  }, [playing, advance, options.epochs]);
+
+  function reset() {
+    runner.current = null;
+    setPlaying(false);
+    setSnapshot(null);
+    setLoss([]);
+  }
+
+  const done = !!snapshot?.done;
+  const rows =
+    closedForm && snapshot
+      ? [
+          { label: "Slope m", descent: snapshot.m, exact: closedForm.m },
+          { label: "Intercept b", descent: snapshot.b, exact: closedForm.b },
+          { label: "MSE", descent: snapshot.mse, exact: Math.pow(closedForm.rmse, 2) },
+        ]
+      : [];
+  // A log axis cannot show zero or overflowed losses
+  const chartLoss = loss.filter((l) => l.mse > 0 && Number.isFinite(l.mse));
+
+  return (
+    <div>
+      <p className="mt-2 text-sm text-zinc-700">
+        Fits price = m·area + b by repeatedly nudging m and b against the gradient of the mean squared error, starting
+        from zero. The closed-form fit solves the same problem in one step.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+        <label className="font-medium" htmlFor="gd-rate">
+          Learning rate:
+        </label>
+        <input
+          id="gd-rate"
+          value={learningRate}
+          onChange={(e) => setLearningRate(e.target.value)}
+          inputMode="decimal"
+          className={`${inputClass} w-24`}
+        />
+        <label className="ml-2 font-medium" htmlFor="gd-epochs">
+          Epochs:
+        </label>
+        <input
+          id="gd-epochs"
+          value={epochs}
+          onChange={(e) => setEpochs(e.target.value)}
+          inputMode="numeric"
+          title={`Up to ${MAX_EPOCHS}`}
+          className={`${inputClass} w-20`}
+        />
+        <label className="ml-2 font-medium" htmlFor="gd-batch">
+          Updates:
+        </label>
+        <select
+          id="gd-batch"
+          value={batchMode}
+          onChange={(e) => setBatchMode(e.target.value as BatchMode)}
+          className={inputClass}
+        >
+          {BATCH_MODES.map((b) => (
+            <option key={b.value} value={b.value}>
+              {b.label}
+            </option>
+          ))}
+        </select>
+        {batchMode === "mini-batch" ? (
+          <>
+            <label className="font-medium" htmlFor="gd-batch-size">
+              Batch size:
+            </label>
+            <input
+              id="gd-batch-size"
+              value={batchSize}
+              onChange={(e) => setBatchSize(e.target.value)}
+              inputMode="numeric"
+              className={`${inputClass} w-16`}
+            />
+          </>
+        ) : null}
+        <label className="ml-2 flex items-center gap-1">
+          <input type="checkbox" checked={scaleFeatures} onChange={(e) => setScaleFeatures(e.target.checked)} />
+          Standardize area
+        </label>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setPlaying((p) => !p)}
+          disabled={!!setup.error || done}
+          className={buttonClass}
+        >
+          {playing ? "Pause" : snapshot ? "Resume" : "Play"}
+        </button>
+        <button type="button" onClick={() => advance(1)} disabled={!!setup.error || playing || done} className={buttonClass}>
+          Step
+        </button>
+        <button type="button" onClick={reset} disabled={!snapshot} className={buttonClass}>
+          Reset
+        </button>
+        {snapshot ? (
+          <span className="text-xs text-zinc-600">
+            Epoch {snapshot.epoch} of {options.epochs} • MSE {formatNumber(snapshot.mse, units.locale, 0)}
+          </span>
+        ) : null}
+      </div>
+
+      {setup.error ? <p className="mt-2 text-sm text-red-600">{setup.error}</p> : null}
+      {snapshot?.diverged ? (
+        <p className="mt-2 text-sm text-red-600">
+          The loss blew up after {snapshot.epoch} epoch(s). Lower the learning rate
+          {scaleFeatures ? "" : " or standardize area"} and reset.
+        </p>
+      ) : null}
+
+      {chartLoss.length > 1 ? (
+        <div className="mt-4 h-[260px] rounded-lg border border-zinc-200 p-3">
+          <div className="mb-2 text-sm font-medium">MSE by epoch (log scale)</div>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartLoss} margin={{ top: 10, right: 10, bottom: 20, left: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="epoch"
+                domain={[0, "dataMax"]}
+                tick={{ fontSize: 12 }}
+                label={{ value: "Epoch", position: "insideBottom", offset: -5, fontSize: 12 }}
+              />
+              <YAxis
+                type="number"
+                dataKey="mse"
+                scale="log"
+                domain={["auto", "auto"]}
+                tick={{ fontSize: 12 }}
+                tickFormatter={(v: number) => v.toExponential(1)}
+              />
+              <Tooltip
+                formatter={(value: number) => [formatNumber(value, units.locale, 0), "MSE"]}
+                labelFormatter={(label: number) => `Epoch ${label}`}
+              />
+              <Line type="monotone" dataKey="mse" stroke="#8b5cf6" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ) : null}
+
+      {rows.length > 0 ? (
+        <div className="mt-4 overflow-x-auto">
+          <div className="text-sm font-medium">
+            {done && !snapshot?.diverged ? "Converged result" : "Current result"} vs closed form
+          </div>
+          <table className="mt-2 w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b border-zinc-200 text-left text-zinc-700">
+                <th className="py-2"></th>
+                <th className="py-2">Gradient descent</th>
+                <th className="py-2">Closed form</th>
+                <th className="py-2">Difference</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.label} className="border-b border-zinc-100 last:border-0">
+                  <td className="py-2 font-medium">{r.label}</td>
+                  <td className="py-2 font-mono">{formatNumber(r.descent, units.locale)}</td>
+                  <td className="py-2 font-mono">{formatNumber(r.exact, units.locale)}</td>
+                  <td className="py-2 font-mono">
+                    {formatNumber(r.descent - r.exact, units.locale)}
+                    {r.exact !== 0 && Number.isFinite(r.descent)
+                      ? ` (${formatNumber((100 * (r.descent - r.exact)) / Math.abs(r.exact), units.locale, 2)}%)`
+                      : ""}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-zinc-600">
+            m is in {units.currency} per {units.area}; b and the MSE are in {units.currency} and {units.currency}².
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
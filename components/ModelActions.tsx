@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { DataPoint, Evaluation, RegressionResult, Units } from "@/types";
+import { createArtifact, hashDataset, parseArtifact, serializeArtifact } from "@/lib/artifact";
+import { downloadText } from "@/lib/csv";
+import { rescaleArea } from "@/lib/regression";
+import { encodeShare, shareUrl } from "@/lib/share";
+import { areaFactor } from "@/lib/units";
+
+interface ModelActionsProps {
+  model: RegressionResult | null;
+  evaluation: Evaluation | null;
+  datasetName: string;
+  points: DataPoint[];
+  featureKeys: string[];
+  units: Units;
+  onLoadModel: (model: RegressionResult) => void;
+}
+
+const buttonClass =
+  "rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50";
+
+export function ModelActions({
+  model,
+  evaluation,
+  datasetName,
+  points,
+  featureKeys,
+  units,
+  onLoadModel,
+}: ModelActionsProps) {
+  const [message, setMessage] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [link, setLink] = useState<string>("");
+
+  function exportModel() {
+    if (!model) return;
+    downloadText(
+      "model.json",
+      serializeArtifact(createArtifact(model, points, units, evaluation)),
+      "application/json"
+    );
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = "";
+    setMessage("");
+    setError("");
+    try {
+      const artifact = parseArtifact(await file.text());
+      // Models trained in another area unit are re-expressed in this dataset's unit
+      const converted = artifact.units.area !== units.area;
+      onLoadModel(converted ? rescaleArea(artifact.model, areaFactor(artifact.units.area, units.area)) : artifact.model);
+      setMessage(
+        [
+          artifact.trainingDataHash === hashDataset(points)
+            ? `Loaded model from ${new Date(artifact.createdAt).toLocaleString(units.locale)}.`
+            : "Loaded model, but it was trained on different data than this dataset; its metrics describe that data.",
+          converted ? `Area coefficients were converted from ${artifact.units.area} to ${units.area}.` : "",
+          artifact.units.currency !== units.currency
+            ? `Prices were in ${artifact.units.currency}; they are not converted to ${units.currency}.`
+            : "",
+        ]
+          .filter(Boolean)
+          .join(" ")
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read model file");
+    }
+  }
+
+  async function share() {
+    setMessage("");
+    setError("");
+    try {
+      const url = shareUrl(await encodeShare({ name: datasetName, points, featureKeys, units, model }));
+      setLink(url);
+      try {
+        await navigator.clipboard.writeText(url);
+        setMessage("Share link copied to the clipboard.");
+      } catch {
+        setMessage("Copy the share link below.");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create share link");
+    }
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={exportModel} disabled={!model} className={buttonClass}>
+          Export model
+        </button>
+        <label className="cursor-pointer rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50">
+          Import model
+          <input type="file" accept=".json,application/json" onChange={onFile} className="hidden" />
+        </label>
+        <button type="button" onClick={share} disabled={points.length === 0} className={buttonClass}>
+          Copy share link
+        </button>
+      </div>
+      {link ? (
+        <input
+          readOnly
+          value={link}
+          onFocus={(e) => e.target.select()}
+          className="mt-2 w-full rounded-lg border border-zinc-200 px-3 py-1 font-mono text-xs outline-none focus:border-zinc-400"
+        />
+      ) : null}
+      {message ? <p className="mt-2 text-xs text-zinc-600">{message}</p> : null}
+      {error ? <p className="mt-2 text-sm text-red-600">{error}</p> : null}
+    </div>
+  );
+}
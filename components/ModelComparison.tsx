@@ -0,0 +1,186 @@
+"use client";
+
+import { ComparisonMetrics, PinnedModel, RegressionResult } from "@/types";
+import { COMPARISON_FOLDS, MAX_PINNED, PIN_COLORS } from "@/lib/comparison";
+import { formatMoney, round } from "@/lib/format";
+
+interface ModelComparisonProps {
+  pinned: PinnedModel[];
+  // Active model of the selected dataset
+  model: RegressionResult | null;
+  activeDatasetId: string;
+  // Pins whose features the selected dataset lacks cannot be drawn or promoted
+  usable: (pin: PinnedModel) => boolean;
+  pinning: boolean;
+  error: string;
+  onPin: () => void;
+  onPromote: (pin: PinnedModel) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const buttonClass =
+  "inline-flex items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50";
+const smallButtonClass =
+  "rounded-lg border border-zinc-200 px-2 py-1 text-xs hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50";
+
+type Column = {
+  label: string;
+  value: (m: ComparisonMetrics) => number;
+  higherIsBetter: boolean;
+  format: (v: number, pin: PinnedModel) => string;
+};
+
+const formatNumber = (v: number) => (Number.isFinite(v) ? String(round(v, 4)) : "-");
+const formatPrice = (v: number, pin: PinnedModel) => (Number.isFinite(v) ? formatMoney(v, pin.units) : "-");
+const formatCriterion = (v: number) => (Number.isFinite(v) ? String(round(v, 1)) : "-");
+
+const COLUMNS: Column[] = [
+  { label: "R²", value: (m) => m.r2, higherIsBetter: true, format: formatNumber },
+  { label: "Adj. R²", value: (m) => m.adjR2, higherIsBetter: true, format: formatNumber },
+  { label: "RMSE", value: (m) => m.rmse, higherIsBetter: false, format: formatPrice },
+  { label: "MAE", value: (m) => m.mae, higherIsBetter: false, format: formatPrice },
+  { label: "AIC", value: (m) => m.aic, higherIsBetter: false, format: formatCriterion },
+  { label: "BIC", value: (m) => m.bic, higherIsBetter: false, format: formatCriterion },
+  { label: "CV RMSE", value: (m) => m.cv?.rmse ?? NaN, higherIsBetter: false, format: formatPrice },
+];
+
+// Index of the best finite value, or -1 when fewer than two pins can be ranked
+function bestIndex(values: number[], higherIsBetter: boolean): number {
+  let best = -1;
+  values.forEach((v, i) => {
+    if (!Number.isFinite(v)) return;
+    if (best === -1 || (higherIsBetter ? v > values[best] : v < values[best])) best = i;
+  });
+  return values.filter(Number.isFinite).length > 1 ? best : -1;
+}
+
+export function ModelComparison({
+  pinned,
+  model,
+  activeDatasetId,
+  usable,
+  pinning,
+  error,
+  onPin,
+  onPromote,
+  onRemove,
+  onClear,
+}: ModelComparisonProps) {
+  const alreadyPinned = !!model && pinned.some((p) => p.model === model);
+  // Information criteria only rank models fitted to the same points
+  const samePoints = pinned.every((p) => p.datasetId === pinned[0].datasetId && p.metrics.n === pinned[0].metrics.n);
+  // Currencies are never converted, so money columns only rank pins priced alike
+  const sameCurrency = pinned.every((p) => p.units.currency === pinned[0].units.currency);
+  const best = COLUMNS.map((c) => {
+    if ((c.label === "AIC" || c.label === "BIC") && !samePoints) return -1;
+    if (c.format === formatPrice && !sameCurrency) return -1;
+    return bestIndex(
+      pinned.map((p) => c.value(p.metrics)),
+      c.higherIsBetter
+    );
+  });
+
+  return (
+    <div>
+      <p className="mt-2 text-sm text-zinc-700">
+        Pin trained models (other fit types, datasets or exclusions) to compare them side by side and overlay them on
+        the training chart. Pins last until the page is reloaded.
+      </p>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={onPin}
+          disabled={!model || alreadyPinned || pinning || pinned.length >= MAX_PINNED}
+          className={buttonClass}
+        >
+          {pinning ? "Cross-validating…" : alreadyPinned ? "Current model pinned" : "Pin current model"}
+        </button>
+        {pinned.length > 0 ? (
+          <button type="button" onClick={onClear} className={smallButtonClass}>
+            Clear all
+          </button>
+        ) : null}
+        {pinned.length >= MAX_PINNED ? (
+          <span className="text-xs text-zinc-600">At most {MAX_PINNED} models can be pinned; remove one first.</span>
+        ) : null}
+      </div>
+      {error ? <p className="mt-3 text-sm text-red-600">{error}</p> : null}
+
+      {pinned.length > 0 ? (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b border-zinc-200 text-left text-zinc-700">
+                <th className="py-2">Model</th>
+                {COLUMNS.map((c) => (
+                  <th key={c.label} className="py-2">
+                    {c.label}
+                  </th>
+                ))}
+                <th className="py-2">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {pinned.map((pin, i) => {
+                const active = pin.datasetId === activeDatasetId && pin.model === model;
+                return (
+                  <tr key={pin.id} className="border-b border-zinc-100 align-top last:border-0">
+                    <td className="py-2 pr-3">
+                      <div className="flex items-center gap-2 font-medium">
+                        <span
+                          className="inline-block h-2.5 w-2.5 shrink-0 rounded-full"
+                          style={{ backgroundColor: PIN_COLORS[i % PIN_COLORS.length] }}
+                        />
+                        {pin.label}
+                      </div>
+                      <div className="mt-0.5 text-xs text-zinc-600">
+                        {pin.datasetName} • n = {pin.metrics.n}
+                        {pin.excluded > 0 ? ` • ${pin.excluded} excluded` : ""}
+                        {pin.datasetId !== activeDatasetId ? " • other dataset" : ""}
+                      </div>
+                    </td>
+                    {COLUMNS.map((c, j) => (
+                      <td key={c.label} className={`py-2 font-mono ${best[j] === i ? "font-semibold text-green-700" : ""}`}>
+                        {c.format(c.value(pin.metrics), pin)}
+                      </td>
+                    ))}
+                    <td className="py-2">
+                      <div className="flex justify-end gap-2">
+                        {active ? (
+                          <span className="rounded bg-zinc-100 px-2 py-1 text-xs font-medium text-zinc-700">Active</span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => onPromote(pin)}
+                            disabled={!usable(pin)}
+                            title={usable(pin) ? undefined : "This dataset lacks some of the model's features"}
+                            className={smallButtonClass}
+                          >
+                            Promote
+                          </button>
+                        )}
+                        <button type="button" onClick={() => onRemove(pin.id)} className={smallButtonClass}>
+                          Remove
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-zinc-600">
+            Best value per column in green. R², RMSE and MAE are in-sample on the training points; CV RMSE pools{" "}
+            {COMPARISON_FOLDS}-fold out-of-fold predictions with a fixed seed. AIC and BIC (lower is better) are only
+            ranked when every pin was fitted to the same points. Promote makes a pin the active model of the selected
+            dataset, used by the prediction form.
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { LambdaStep, RegressionResult, Units } from "@/types";
+import { isLogTarget, termLabel } from "@/lib/models";
+import { formatMoney, round } from "@/lib/format";
+import { ChartDownload } from "@/components/ChartDownload";
+
+interface RegularizationPathProps {
+  model: RegressionResult;
+  units: Units;
+}
+
+const TERM_COLORS = ["#2563eb", "#16a34a", "#db2777", "#ca8a04", "#7c3aed", "#0891b2", "#ea580c", "#4b5563"];
+
+const lambdaLabel = { value: "log₁₀ λ", position: "insideBottom", offset: -10, fontSize: 12 } as const;
+
+// Coefficient paths and cross-validated error against log λ for a ridge, lasso or elastic-net
+// fit, with the chosen λ (solid) and the one-standard-error λ (dashed) marked.
+export function RegularizationPath({ model, units }: RegularizationPathProps) {
+  const info = model.regularization;
+  const path = useMemo(
+    () =>
+      (info?.path ?? []).map((s) => ({
+        ...s,
+        logLambda: Math.log10(s.lambda),
+        band: [s.cvRmse - s.cvSe, s.cvRmse + s.cvSe],
+      })),
+    [info]
+  );
+  if (!info) return null;
+  if (path.length === 0) {
+    return (
+      <p className="mt-6 text-sm text-zinc-600">
+        This model was fitted with a fixed λ = {round(info.lambda, 6)}, so there is no path to show. Train it again to
+        choose λ by cross-validation.
+      </p>
+    );
+  }
+
+  const logScale = isLogTarget(model.modelType);
+  const formatError = (v: number) => (logScale ? v.toFixed(4) : formatMoney(v, units));
+  const chosen = Math.log10(info.lambda);
+  const oneSe = info.lambda1se !== undefined ? Math.log10(info.lambda1se) : null;
+  const markers = (
+    <>
+      <ReferenceLine x={chosen} stroke="#ef4444" strokeWidth={2} />
+      {oneSe !== null && oneSe !== chosen ? <ReferenceLine x={oneSe} stroke="#ef4444" strokeDasharray="4 3" /> : null}
+    </>
+  );
+
+  return (
+    <div className="mt-6">
+      <p className="text-sm text-zinc-700">
+        λ = {round(info.lambda, 6)} gave the lowest {info.folds}-fold cross-validated error
+        {info.lambda1se !== undefined && info.lambda1se !== info.lambda
+          ? `; the largest λ within one standard error of it is ${round(info.lambda1se, 6)}`
+          : ""}
+        . Coefficients are for standardized terms, so their sizes are comparable; larger λ shrinks them towards zero
+        {info.mixing > 0 ? " and drops the weakest ones" : ""}.
+      </p>
+
+      <div className="mt-4 grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div data-chart="Coefficient path" className="h-[360px] rounded-lg border border-zinc-200 p-3">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <div className="text-sm font-medium">Coefficient path</div>
+            <ChartDownload />
+          </div>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={path} margin={{ top: 10, right: 10, bottom: 40, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="logLambda"
+                domain={["dataMin", "dataMax"]}
+                reversed
+                tick={{ fontSize: 11 }}
+                tickFormatter={(v: number) => v.toFixed(1)}
+                label={lambdaLabel}
+              />
+              <YAxis tick={{ fontSize: 11 }} tickFormatter={(v: number) => v.toExponential(1)} />
+              <Tooltip
+                labelFormatter={(v: number) => `λ = ${round(Math.pow(10, v), 6)}`}
+                formatter={(value: number, name: string) => [value.toPrecision(4), name]}
+              />
+              <Legend verticalAlign="top" height={28} />
+              {markers}
+              {model.terms.map((t, i) => (
+                <Line
+                  key={t}
+                  name={termLabel(t)}
+                  type="linear"
+                  dataKey={(s: LambdaStep) => s.coefficients[t]}
+                  stroke={TERM_COLORS[i % TERM_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div data-chart="Cross-validated error vs λ" className="h-[360px] rounded-lg border border-zinc-200 p-3">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <div className="text-sm font-medium">Cross-validated error vs λ</div>
+            <ChartDownload />
+          </div>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={path} margin={{ top: 10, right: 10, bottom: 40, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="logLambda"
+                domain={["dataMin", "dataMax"]}
+                reversed
+                tick={{ fontSize: 11 }}
+                tickFormatter={(v: number) => v.toFixed(1)}
+                label={lambdaLabel}
+              />
+              <YAxis
+                domain={["auto", "auto"]}
+                tick={{ fontSize: 11 }}
+                tickFormatter={(v: number) => (logScale ? v.toFixed(3) : v.toExponential(1))}
+              />
+              <Tooltip
+                labelFormatter={(v: number) => `λ = ${round(Math.pow(10, v), 6)}`}
+                formatter={(value: number | number[], name: string) => [
+                  Array.isArray(value) ? value.map(formatError).join(" – ") : formatError(value),
+                  name,
+                ]}
+              />
+              <Legend verticalAlign="top" height={28} />
+              {markers}
+              <Area
+                name="±1 standard error"
+                type="linear"
+                dataKey="band"
+                stroke="none"
+                fill="#0f172a"
+                fillOpacity={0.12}
+                isAnimationActive={false}
+              />
+              <Line
+                name={logScale ? "CV RMSE (log scale)" : "CV RMSE"}
+                type="linear"
+                dataKey="cvRmse"
+                stroke="#0f172a"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
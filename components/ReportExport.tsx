@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { downloadText } from "@/lib/csv";
+import { fileNameFor } from "@/lib/chartImage";
+
+interface ReportExportProps {
+  datasetName: string;
+  // Renders the report as a standalone HTML document; `print` adds the print-dialog trigger
+  build: (print: boolean) => string;
+}
+
+const buttonClass =
+  "inline-flex items-center justify-center rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800";
+const secondaryClass =
+  "inline-flex items-center justify-center rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-900 hover:bg-zinc-50";
+
+// Blob URLs handed to the print window are revoked once it has had time to load
+const PRINT_URL_LIFETIME_MS = 60000;
+
+export function ReportExport({ datasetName, build }: ReportExportProps) {
+  const [error, setError] = useState<string>("");
+
+  function download() {
+    setError("");
+    downloadText(fileNameFor(`${datasetName} report`, "html"), build(false), "text/html");
+  }
+
+  function print() {
+    setError("");
+    const url = URL.createObjectURL(new Blob([build(true)], { type: "text/html" }));
+    const opened = window.open(url, "_blank");
+    if (!opened) {
+      URL.revokeObjectURL(url);
+      setError("The browser blocked the report window; allow pop-ups for this page to print it.");
+      return;
+    }
+    setTimeout(() => URL.revokeObjectURL(url), PRINT_URL_LIFETIME_MS);
+  }
+
+  return (
+    <div>
+      <p className="mt-2 text-sm text-zinc-700">
+        One file with the dataset summary, equation, metrics, diagnostics, the latest prediction and batch predictions,
+        and the charts currently shown under Visualization (switch its tab to include the diagnostics charts instead).
+        The HTML file has no outside dependencies, so it can be attached to an appraisal as is.
+      </p>
+      <div className="mt-4 flex flex-wrap gap-3">
+        <button type="button" onClick={download} className={buttonClass}>
+          Download HTML report
+        </button>
+        <button type="button" onClick={print} className={secondaryClass}>
+          Print / save as PDF
+        </button>
+      </div>
+      {error ? <p className="mt-3 text-sm text-red-600">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { AssumptionTest, DataPoint, RegressionResult, Units } from "@/types";
+import { assumptionTests, formatPValue, histogram, modelResiduals, qqPoints } from "@/lib/assumptions";
+import { isLogTarget } from "@/lib/models";
+import { downsample } from "@/lib/downsample";
+import { extent } from "@/lib/stats";
+import { formatMoney } from "@/lib/format";
+import { ChartDownload } from "@/components/ChartDownload";
+
+interface ResidualDiagnosticsProps {
+  model: RegressionResult;
+  // Points the model was trained on, in table order (Durbin–Watson depends on it)
+  points: DataPoint[];
+  units: Units;
+}
+
+const VERDICT_STYLES: Record<AssumptionTest["verdict"], string> = {
+  pass: "bg-green-50 text-green-700",
+  fail: "bg-red-50 text-red-700",
+  skipped: "bg-zinc-100 text-zinc-600",
+};
+
+const VERDICT_LABELS: Record<AssumptionTest["verdict"], string> = {
+  pass: "Holds",
+  fail: "Violated",
+  skipped: "Not run",
+};
+
+export function ResidualDiagnostics({ model, points, units }: ResidualDiagnosticsProps) {
+  const logScale = isLogTarget(model.modelType);
+  const formatResidual = (v: number) => (logScale ? v.toFixed(4) : formatMoney(v, units));
+
+  const residuals = useMemo(() => modelResiduals(points, model), [points, model]);
+  const tests = useMemo(() => assumptionTests(points, model), [points, model]);
+  const bins = useMemo(() => histogram(residuals.map((r) => r.residual)), [residuals]);
+  const qq = useMemo(() => qqPoints(residuals.map((r) => r.residual)), [residuals]);
+  const qqLine = useMemo(() => {
+    if (qq.length === 0) return [];
+    const [lo, hi] = extent(qq.map((q) => q.theoretical));
+    return [
+      { theoretical: lo, sample: lo },
+      { theoretical: hi, sample: hi },
+    ];
+  }, [qq]);
+  const plotted = useMemo(() => downsample(residuals, (r) => r.fitted, (r) => r.residual), [residuals]);
+
+  const failed = tests.filter((t) => t.verdict === "fail");
+  const fittedLabel = logScale ? "Fitted log(price)" : `Fitted price (${units.currency})`;
+  const residualLabel = logScale ? "Residual (log scale)" : `Residual (${units.currency})`;
+
+  return (
+    <div className="mt-6">
+      <p className="text-sm text-zinc-700">
+        {failed.length === 0
+          ? "No assumption checks failed: the linear model's p-values and intervals look reasonable for this dataset."
+          : `${failed.length} check(s) failed (${Array.from(new Set(failed.map((t) => t.assumption.toLowerCase()))).join(", ")}). The fitted line may still be useful, but treat p-values and intervals with caution.`}{" "}
+        Tests use the {points.length} training residuals{logScale ? " on the log scale the model was fitted on" : ""}
+        {model.method !== "ols" ? "; they assume least squares, so read them loosely for robust and penalized fits" : ""}.
+      </p>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="border-b border-zinc-200 text-left text-zinc-700">
+              <th className="py-2">Test</th>
+              <th className="py-2">Assumption</th>
+              <th className="py-2">Statistic</th>
+              <th className="py-2">p-value</th>
+              <th className="py-2">Verdict</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tests.map((t) => (
+              <tr key={t.name} className="border-b border-zinc-100 align-top last:border-0">
+                <td className="py-2 font-medium">{t.name}</td>
+                <td className="py-2">{t.assumption}</td>
+                <td className="py-2 font-mono">{Number.isFinite(t.statistic) ? t.statistic.toFixed(4) : "-"}</td>
+                <td className="py-2 font-mono">{formatPValue(t.pValue)}</td>
+                <td className="py-2">
+                  <span className={`rounded px-2 py-0.5 text-xs font-medium ${VERDICT_STYLES[t.verdict]}`}>
+                    {VERDICT_LABELS[t.verdict]}
+                  </span>
+                  <div className="mt-1 text-xs text-zinc-600">{t.summary}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6 grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div data-chart="Residual histogram" className="h-[320px] rounded-lg border border-zinc-200 p-3">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <div className="text-sm font-medium">Residual histogram</div>
+            <ChartDownload />
+          </div>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={bins} margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="mid"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tick={{ fontSize: 11 }}
+                tickFormatter={(v: number) => (logScale ? v.toFixed(2) : v.toExponential(1))}
+                label={{ value: residualLabel, position: "insideBottom", offset: -10, fontSize: 12 }}
+              />
+              <YAxis tick={{ fontSize: 11 }} allowDecimals={false} />
+              <Tooltip
+                labelFormatter={(v: number) => `Around ${formatResidual(v)}`}
+                formatter={(value: number, name: string) => [Math.round(value * 10) / 10, name]}
+              />
+              <Bar name="Points" dataKey="count" fill="#0f172a" isAnimationActive={false} />
+              <Line
+                name="Normal curve"
+                type="monotone"
+                dataKey="expected"
+                stroke="#ef4444"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div data-chart="Normal Q–Q plot" className="h-[320px] rounded-lg border border-zinc-200 p-3">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <div className="text-sm font-medium">Normal Q–Q plot</div>
+            <ChartDownload />
+          </div>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="theoretical"
+                tick={{ fontSize: 11 }}
+                tickFormatter={(v: number) => v.toFixed(1)}
+                label={{ value: "Normal quantile", position: "insideBottom", offset: -10, fontSize: 12 }}
+              />
+              <YAxis type="number" dataKey="sample" tick={{ fontSize: 11 }} tickFormatter={(v: number) => v.toFixed(1)} />
+              <Tooltip formatter={(value: number) => value.toFixed(3)} />
+              <Line
+                name="Normal"
+                type="linear"
+                dataKey="sample"
+                data={qqLine}
+                stroke="#ef4444"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+              <Scatter name="Standardized residuals" data={qq} fill="#0f172a" isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div data-chart="Residuals vs fitted" className="h-[320px] rounded-lg border border-zinc-200 p-3">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <div className="text-sm font-medium">Residuals vs fitted</div>
+            <ChartDownload />
+          </div>
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart margin={{ top: 10, right: 10, bottom: 20, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                dataKey="fitted"
+                domain={["auto", "auto"]}
+                tick={{ fontSize: 11 }}
+                tickFormatter={(v: number) => (logScale ? v.toFixed(2) : v.toExponential(1))}
+                label={{ value: fittedLabel, position: "insideBottom", offset: -10, fontSize: 12 }}
+              />
+              <YAxis
+                type="number"
+                dataKey="residual"
+                tick={{ fontSize: 11 }}
+                tickFormatter={(v: number) => (logScale ? v.toFixed(2) : v.toExponential(1))}
+              />
+              <Tooltip formatter={(value: number) => formatResidual(value)} />
+              <ReferenceLine y={0} stroke="#ef4444" strokeWidth={2} />
+              <Scatter name="Residuals" data={plotted} fill="#0f172a" isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs text-zinc-600">
+        How to read these: the histogram should look like the red bell curve and the Q–Q points should follow the red
+        line (curved ends mean skew or heavy tails). Residuals vs fitted should be an even band around zero; a funnel
+        shape means the spread grows with price and a curve means the model is missing a bend.
+      </p>
+    </div>
+  );
+}
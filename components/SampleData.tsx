@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { DataPoint, NoiseDistribution, SyntheticSpec, Units } from "@/types";
+import { parseNumber } from "@/lib/format";
+import { randomSeed } from "@/lib/random";
+import { SAMPLE_DATASETS, samplePoints } from "@/lib/samples";
+import {
+  DEFAULT_SYNTHETIC_SPEC,
+  generateSyntheticPoints,
+  MAX_SYNTHETIC_POINTS,
+  NOISE_DISTRIBUTIONS,
+  OUTLIER_SCALE,
+  validateSyntheticSpec,
+} from "@/lib/synthetic";
+import { areaFactor } from "@/lib/units";
+
+interface SampleDataProps {
+  // Units of the active dataset; generated areas and slopes are in its area unit
+  units: Units;
+  onCreate: (name: string, points: DataPoint[], units: Units, synthetic?: SyntheticSpec) => void;
+}
+
+const inputClass = "rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs outline-none focus:border-zinc-400";
+const buttonClass =
+  "rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50";
+
+// Bundled sample datasets and a generator for synthetic ones; either opens as a new dataset.
+export function SampleData({ units, onCreate }: SampleDataProps) {
+  const [sampleId, setSampleId] = useState<string>(SAMPLE_DATASETS[0].id);
+  // The defaults are in square metres
+  const factor = areaFactor("sq m", units.area);
+  const [slope, setSlope] = useState<string>(String(Math.round(DEFAULT_SYNTHETIC_SPEC.slope / factor)));
+  const [intercept, setIntercept] = useState<string>(String(DEFAULT_SYNTHETIC_SPEC.intercept));
+  const [noise, setNoise] = useState<NoiseDistribution>(DEFAULT_SYNTHETIC_SPEC.noise);
+  const [noiseSd, setNoiseSd] = useState<string>(String(DEFAULT_SYNTHETIC_SPEC.noiseSd));
+  const [heteroscedasticity, setHeteroscedasticity] = useState<string>(
+    String(DEFAULT_SYNTHETIC_SPEC.heteroscedasticity)
+  );
+  const [outlierPercent, setOutlierPercent] = useState<string>(String(DEFAULT_SYNTHETIC_SPEC.outlierFraction * 100));
+  const [areaMin, setAreaMin] = useState<string>(String(Math.round(DEFAULT_SYNTHETIC_SPEC.areaMin * factor)));
+  const [areaMax, setAreaMax] = useState<string>(String(Math.round(DEFAULT_SYNTHETIC_SPEC.areaMax * factor)));
+  const [count, setCount] = useState<string>(String(DEFAULT_SYNTHETIC_SPEC.count));
+  const [seed, setSeed] = useState<string>(String(DEFAULT_SYNTHETIC_SPEC.seed));
+  const [error, setError] = useState<string>("");
+
+  const sample = SAMPLE_DATASETS.find((s) => s.id === sampleId) ?? SAMPLE_DATASETS[0];
+  const maxPoints = MAX_SYNTHETIC_POINTS.toLocaleString(units.locale);
+
+  function loadSample() {
+    onCreate(sample.name, samplePoints(sample), sample.units, sample.synthetic);
+  }
+
+  function generate() {
+    const num = (v: string) => parseNumber(v, units.locale);
+    const spec: SyntheticSpec = {
+      slope: num(slope),
+      intercept: num(intercept),
+      noise,
+      noiseSd: num(noiseSd),
+      heteroscedasticity: num(heteroscedasticity),
+      outlierFraction: num(outlierPercent) / 100,
+      areaMin: num(areaMin),
+      areaMax: num(areaMax),
+      count: num(count),
+      seed: num(seed),
+    };
+    const err = validateSyntheticSpec(spec, units);
+    if (err) {
+      setError(err);
+      return;
+    }
+    try {
+      onCreate(`Synthetic (seed ${spec.seed})`, generateSyntheticPoints(spec, units), units, spec);
+      setError("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not generate the points.");
+    }
+  }
+
+  const field = (id: string, label: string, value: string, set: (v: string) => void, title?: string) => (
+    <label htmlFor={id} className="flex items-center gap-1" title={title}>
+      <span className="font-medium">{label}</span>
+      <input
+        id={id}
+        value={value}
+        onChange={(e) => set(e.target.value)}
+        inputMode="decimal"
+        className={`${inputClass} w-24`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="mt-6 rounded-lg border border-zinc-200 p-4">
+      <div className="text-sm font-medium">Sample and synthetic data</div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+        <label className="font-medium" htmlFor="sample-dataset">
+          Sample dataset:
+        </label>
+        <select
+          id="sample-dataset"
+          value={sampleId}
+          onChange={(e) => setSampleId(e.target.value)}
+          className={inputClass}
+        >
+          {SAMPLE_DATASETS.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.name}
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={loadSample} className={buttonClass}>
+          Open as new dataset
+        </button>
+        <span className="text-zinc-600">{sample.description}</span>
+      </div>
+
+      <p className="mt-4 text-xs text-zinc-700">
+        Generate price = intercept + slope·area + noise, with areas drawn uniformly from the range. The same seed gives
+        the same points, and the Model section compares each fit with the true line.
+      </p>
+      <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+        {field("synthetic-slope", `Slope (${units.currency}/${units.area}):`, slope, setSlope)}
+        {field("synthetic-intercept", `Intercept (${units.currency}):`, intercept, setIntercept)}
+        {field("synthetic-area-min", `Area from (${units.area}):`, areaMin, setAreaMin)}
+        {field("synthetic-area-max", "to:", areaMax, setAreaMax)}
+        {field("synthetic-count", "Points:", count, setCount, `Up to ${maxPoints}`)}
+        <label htmlFor="synthetic-noise" className="flex items-center gap-1">
+          <span className="font-medium">Noise:</span>
+          <select
+            id="synthetic-noise"
+            value={noise}
+            onChange={(e) => setNoise(e.target.value as NoiseDistribution)}
+            className={inputClass}
+          >
+            {NOISE_DISTRIBUTIONS.map((d) => (
+              <option key={d.value} value={d.value}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {field("synthetic-noise-sd", `Noise sd (${units.currency}):`, noiseSd, setNoiseSd)}
+        {field(
+          "synthetic-heteroscedasticity",
+          "Heteroscedasticity:",
+          heteroscedasticity,
+          setHeteroscedasticity,
+          "0 keeps the noise constant; h makes it (1 + h) times larger at the largest area than at the smallest"
+        )}
+        {field(
+          "synthetic-outliers",
+          "Outliers (%):",
+          outlierPercent,
+          setOutlierPercent,
+          `Share of points whose noise has ${OUTLIER_SCALE}× the sd`
+        )}
+        <label htmlFor="synthetic-seed" className="flex items-center gap-1">
+          <span className="font-medium">Seed:</span>
+          <input
+            id="synthetic-seed"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+            inputMode="numeric"
+            className={`${inputClass} w-24`}
+          />
+          <button type="button" onClick={() => setSeed(String(randomSeed()))} className={buttonClass}>
+            Random
+          </button>
+        </label>
+        <button type="button" onClick={generate} className={buttonClass}>
+          Generate new dataset
+        </button>
+      </div>
+      {error ? <p className="mt-2 text-sm text-red-600">{error}</p> : null}
+    </div>
+  );
+}
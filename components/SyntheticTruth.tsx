@@ -0,0 +1,98 @@
+"use client";
+
+import { RegressionResult, SyntheticSpec, Units } from "@/types";
+import { AREA } from "@/lib/features";
+import { formatMoney, round } from "@/lib/format";
+import { INTERCEPT } from "@/lib/regression";
+import { tQuantile } from "@/lib/stats";
+import { NOISE_DISTRIBUTIONS } from "@/lib/synthetic";
+
+interface SyntheticTruthProps {
+  spec: SyntheticSpec;
+  model: RegressionResult;
+  units: Units;
+}
+
+const LEVEL = 0.95;
+
+// The line a synthetic dataset was generated from next to the fitted one, with whether each
+// coefficient's 95% confidence interval covers the truth.
+export function SyntheticTruth({ spec, model, units }: SyntheticTruthProps) {
+  const noise = NOISE_DISTRIBUTIONS.find((d) => d.value === spec.noise)?.label ?? spec.noise;
+  const generated = (
+    <>
+      Generated from price = {formatMoney(spec.intercept, units)} + {round(spec.slope, 4)}·area + noise (
+      {noise.toLowerCase()}, sd {formatMoney(spec.noiseSd, units)}
+      {spec.heteroscedasticity > 0 ? `, growing ${round(1 + spec.heteroscedasticity, 2)}× across the areas` : ""}
+      {spec.outlierFraction > 0 ? `, ${round(spec.outlierFraction * 100, 1)}% outliers` : ""}; seed {spec.seed}).
+    </>
+  );
+  const comparable =
+    model.modelType === "linear" && model.features.length === 1 && model.features[0] === AREA && !model.categories;
+  if (!comparable) {
+    return (
+      <p className="mt-5 text-sm text-zinc-600">
+        {generated} Train a linear model on area alone, without categories, to compare its coefficients with the true
+        ones.
+      </p>
+    );
+  }
+
+  const t = tQuantile(1 - (1 - LEVEL) / 2, model.df);
+  const rows = [
+    { label: "Intercept", truth: spec.intercept, stats: model.coefficientStats[INTERCEPT] },
+    { label: "Area slope", truth: spec.slope, stats: model.coefficientStats[AREA] },
+  ];
+  // σ is only a single number when the noise sd is constant and there are no outliers
+  const constantNoise = spec.heteroscedasticity === 0 && spec.outlierFraction === 0;
+
+  return (
+    <div className="mt-5 overflow-x-auto">
+      <div className="text-sm font-medium">True vs estimated coefficients</div>
+      <table className="mt-2 w-full border-collapse text-sm">
+        <thead>
+          <tr className="border-b border-zinc-200 text-left text-zinc-700">
+            <th className="py-2">Parameter</th>
+            <th className="py-2">True</th>
+            <th className="py-2">Estimate</th>
+            <th className="py-2">Error</th>
+            <th className="py-2">{LEVEL * 100}% CI</th>
+            <th className="py-2">Covers truth</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ label, truth, stats }) => {
+            const hasInterval = Number.isFinite(stats.stdError) && Number.isFinite(t);
+            const lo = stats.estimate - t * stats.stdError;
+            const hi = stats.estimate + t * stats.stdError;
+            return (
+              <tr key={label} className="border-b border-zinc-100 font-mono last:border-0">
+                <td className="py-2 font-sans">{label}</td>
+                <td className="py-2">{round(truth, 4)}</td>
+                <td className="py-2">{round(stats.estimate, 4)}</td>
+                <td className="py-2">{round(stats.estimate - truth, 4)}</td>
+                <td className="py-2">{hasInterval ? `${round(lo, 4)} – ${round(hi, 4)}` : "-"}</td>
+                <td className="py-2 font-sans">{hasInterval ? (lo <= truth && truth <= hi ? "yes" : "no") : "-"}</td>
+              </tr>
+            );
+          })}
+          {constantNoise ? (
+            <tr className="border-b border-zinc-100 font-mono last:border-0">
+              <td className="py-2 font-sans">Noise sd (σ)</td>
+              <td className="py-2">{round(spec.noiseSd, 4)}</td>
+              <td className="py-2">{round(model.sigma, 4)}</td>
+              <td className="py-2">{round(model.sigma - spec.noiseSd, 4)}</td>
+              <td className="py-2">-</td>
+              <td className="py-2 font-sans">-</td>
+            </tr>
+          ) : null}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-zinc-600">
+        {generated} Intervals assume normal noise with constant variance
+        {constantNoise ? "" : ", which this dataset does not have, so they may cover the truth less often than stated"}.
+        Prices are rounded to whole units, and draws that would make a price invalid are redrawn.
+      </p>
+    </div>
+  );
+}
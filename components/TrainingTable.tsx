@@ -0,0 +1,370 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { DataPoint, PointDiagnostics, RegressionResult, Units } from "@/types";
+import { formatMoney, parseNumber, round } from "@/lib/format";
+import { cooksLimit, leverageLimit, STUDENTIZED_LIMIT } from "@/lib/diagnostics";
+import { AREA, featureLabel, featureValue } from "@/lib/features";
+import { parseSaleDate } from "@/lib/weights";
+
+interface TrainingTableProps {
+  data: DataPoint[];
+  featureKeys: string[];
+  // Point categories in the dataset; the column and filter are hidden when empty
+  categories: string[];
+  units: Units;
+  model: RegressionResult | null;
+  diagnostics: Map<string, PointDiagnostics>;
+  onEdit: (d: DataPoint) => void;
+  onDelete: (id: string) => void;
+  onToggleExcluded: (id: string) => void;
+}
+
+type StatusFilter = "all" | "included" | "excluded" | "flagged";
+
+const DIAGNOSTIC_KEYS = ["leverage", "studentized", "cooksDistance"] as const;
+type DiagnosticKey = (typeof DIAGNOSTIC_KEYS)[number];
+
+const PAGE_SIZES = [100, 500, 1000, 5000];
+// Rows have a fixed height so only the ones in view need to be rendered
+const ROW_HEIGHT = 41;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN = 8;
+
+const buttonClass =
+  "rounded-lg border border-zinc-200 px-3 py-1 text-xs hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50";
+const inputClass = "rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs outline-none focus:border-zinc-400";
+
+function isFlagged(diag?: PointDiagnostics): boolean {
+  return !!diag && (diag.highLeverage || diag.outlier || diag.influential);
+}
+
+function columnValue(d: DataPoint, key: string, diagnostics: Map<string, PointDiagnostics>): number {
+  if (key === "price") return d.price;
+  if (key === "weight") return d.weight ?? NaN;
+  if (key === "date") return parseSaleDate(d.date ?? "");
+  if ((DIAGNOSTIC_KEYS as readonly string[]).includes(key)) {
+    return diagnostics.get(d.id)?.[key as DiagnosticKey] ?? NaN;
+  }
+  return featureValue(d, key);
+}
+
+function DiagnosticCells({ diag }: { diag?: PointDiagnostics }) {
+  if (!diag) {
+    return (
+      <>
+        <td className="py-2">-</td>
+        <td className="py-2">-</td>
+        <td className="py-2">-</td>
+      </>
+    );
+  }
+  const flag = (on: boolean) => (on ? "font-semibold text-amber-700" : "");
+  return (
+    <>
+      <td className={`py-2 font-mono ${flag(diag.highLeverage)}`}>{round(diag.leverage, 3)}</td>
+      <td className={`py-2 font-mono ${flag(diag.outlier)}`}>{round(diag.studentized, 2)}</td>
+      <td className={`py-2 font-mono ${flag(diag.influential)}`}>{round(diag.cooksDistance, 3)}</td>
+    </>
+  );
+}
+
+export function TrainingTable({
+  data,
+  featureKeys,
+  categories,
+  units,
+  model,
+  diagnostics,
+  onEdit,
+  onDelete,
+  onToggleExcluded,
+}: TrainingTableProps) {
+  const [sortKey, setSortKey] = useState<string | null>(null);
+  const [descending, setDescending] = useState<boolean>(false);
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const [categoryFilter, setCategoryFilter] = useState<string>("");
+  const [filterKey, setFilterKey] = useState<string>(AREA);
+  const [filterMin, setFilterMin] = useState<string>("");
+  const [filterMax, setFilterMax] = useState<string>("");
+  const [pageSize, setPageSize] = useState<number>(PAGE_SIZES[1]);
+  const [page, setPage] = useState<number>(0);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const viewport = useRef<HTMLDivElement>(null);
+
+  // A category that left the dataset no longer filters
+  const category = categories.includes(categoryFilter) ? categoryFilter : "";
+
+  const rows = useMemo(() => {
+    const min = filterMin.trim() === "" ? -Infinity : parseNumber(filterMin, units.locale);
+    const max = filterMax.trim() === "" ? Infinity : parseNumber(filterMax, units.locale);
+    const filtered = data.filter((d) => {
+      if (status === "included" && d.excluded) return false;
+      if (status === "excluded" && !d.excluded) return false;
+      if (status === "flagged" && !isFlagged(diagnostics.get(d.id))) return false;
+      if (category !== "" && d.category !== category) return false;
+      if (min === -Infinity && max === Infinity) return true;
+      const v = columnValue(d, filterKey, diagnostics);
+      return v >= min && v <= max;
+    });
+    if (sortKey === null) return filtered;
+    // Missing values sort last in both directions
+    return filtered.sort((a, b) => {
+      const va = columnValue(a, sortKey, diagnostics);
+      const vb = columnValue(b, sortKey, diagnostics);
+      if (Number.isNaN(va)) return Number.isNaN(vb) ? 0 : 1;
+      if (Number.isNaN(vb)) return -1;
+      return descending ? vb - va : va - vb;
+    });
+  }, [data, diagnostics, status, category, filterKey, filterMin, filterMax, sortKey, descending, units.locale]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(pageRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visible = pageRows.slice(first, last);
+
+  const showWeight = data.some((d) => d.weight !== undefined);
+  const showDate = data.some((d) => d.date !== undefined);
+
+  const columns: Array<{ key: string; label: string; title?: string }> = [
+    { key: AREA, label: `Area (${units.area})` },
+    { key: "price", label: "Price" },
+    ...featureKeys.map((k) => ({ key: k, label: featureLabel(k) })),
+    ...(showWeight ? [{ key: "weight", label: "Weight" }] : []),
+    ...(showDate ? [{ key: "date", label: "Sale date" }] : []),
+    ...(model
+      ? [
+          {
+            key: "leverage",
+            label: "Leverage",
+            title: model.groups ? "Flagged against each category's model" : `Flagged above ${round(leverageLimit(model), 3)}`,
+          },
+          { key: "studentized", label: "Stud. resid.", title: `Flagged beyond ±${STUDENTIZED_LIMIT}` },
+          {
+            key: "cooksDistance",
+            label: "Cook's D",
+            title: model.groups ? "Flagged against each category's model" : `Flagged above ${round(cooksLimit(model), 3)}`,
+          },
+        ]
+      : []),
+  ];
+  const showCategory = categories.length > 0;
+  const colSpan = columns.length + 2 + (showCategory ? 1 : 0);
+
+  function sortBy(key: string) {
+    if (sortKey === key) setDescending((v) => !v);
+    else {
+      setSortKey(key);
+      setDescending(false);
+    }
+  }
+
+  function goTo(p: number) {
+    setPage(p);
+    setScrollTop(0);
+    if (viewport.current) viewport.current.scrollTop = 0;
+  }
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="font-medium" htmlFor="row-status">
+          Show:
+        </label>
+        <select
+          id="row-status"
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as StatusFilter);
+            goTo(0);
+          }}
+          className={inputClass}
+        >
+          <option value="all">All points</option>
+          <option value="included">In fit</option>
+          <option value="excluded">Excluded</option>
+          <option value="flagged">Flagged</option>
+        </select>
+        {showCategory ? (
+          <select
+            aria-label="Category"
+            value={category}
+            onChange={(e) => {
+              setCategoryFilter(e.target.value);
+              goTo(0);
+            }}
+            className={inputClass}
+          >
+            <option value="">Any category</option>
+            {categories.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        ) : null}
+        <label className="ml-2 font-medium" htmlFor="filter-column">
+          Where:
+        </label>
+        <select id="filter-column" value={filterKey} onChange={(e) => setFilterKey(e.target.value)} className={inputClass}>
+          {/* Dates are sortable but not range-filtered: the bounds are plain numbers */}
+          {columns
+            .filter((c) => c.key !== "date")
+            .map((c) => (
+              <option key={c.key} value={c.key}>
+                {c.label}
+              </option>
+            ))}
+        </select>
+        <input
+          value={filterMin}
+          onChange={(e) => {
+            setFilterMin(e.target.value);
+            goTo(0);
+          }}
+          inputMode="decimal"
+          placeholder="min"
+          className={`${inputClass} w-24`}
+        />
+        <span>to</span>
+        <input
+          value={filterMax}
+          onChange={(e) => {
+            setFilterMax(e.target.value);
+            goTo(0);
+          }}
+          inputMode="decimal"
+          placeholder="max"
+          className={`${inputClass} w-24`}
+        />
+        <span className="ml-auto text-zinc-600">
+          {rows.length === data.length ? `${data.length} rows` : `${rows.length} of ${data.length} rows`}
+        </span>
+      </div>
+
+      <div
+        ref={viewport}
+        className="mt-3 overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="w-full border-collapse text-sm">
+          <thead className="sticky top-0 bg-white">
+            <tr className="border-b border-zinc-200 text-left text-zinc-700">
+              {columns.map((c) => (
+                <th key={c.key} className="py-2" title={c.title}>
+                  <button type="button" onClick={() => sortBy(c.key)} className="hover:text-zinc-900">
+                    {c.label}
+                    {sortKey === c.key ? (descending ? " ↓" : " ↑") : ""}
+                  </button>
+                </th>
+              ))}
+              {showCategory ? <th className="py-2">Category</th> : null}
+              <th className="py-2">In fit</th>
+              <th className="py-2">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.length === 0 ? (
+              <tr>
+                <td className="py-4 text-zinc-600" colSpan={colSpan}>
+                  No data yet. Add at least two points, import a file, or open a sample dataset to train the model.
+                </td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td className="py-4 text-zinc-600" colSpan={colSpan}>
+                  No rows match the filter.
+                </td>
+              </tr>
+            ) : (
+              <>
+                {first > 0 ? <tr style={{ height: first * ROW_HEIGHT }} /> : null}
+                {visible.map((d) => (
+                  <tr
+                    key={d.id}
+                    style={{ height: ROW_HEIGHT }}
+                    className={`whitespace-nowrap border-b border-zinc-100 last:border-0 ${
+                      isFlagged(diagnostics.get(d.id)) ? "bg-amber-50" : ""
+                    } ${d.excluded ? "text-zinc-400" : ""}`}
+                  >
+                    <td className="py-2">{round(d.area, 2)}</td>
+                    <td className="py-2">{formatMoney(d.price, units)}</td>
+                    {featureKeys.map((k) => (
+                      <td key={k} className="py-2">
+                        {d.features?.[k] ?? "-"}
+                      </td>
+                    ))}
+                    {showWeight ? <td className="py-2">{d.weight ?? "-"}</td> : null}
+                    {showDate ? <td className="py-2">{d.date ?? "-"}</td> : null}
+                    {model ? <DiagnosticCells diag={diagnostics.get(d.id)} /> : null}
+                    {showCategory ? <td className="py-2">{d.category ?? "-"}</td> : null}
+                    <td className="py-2">
+                      <input
+                        type="checkbox"
+                        checked={!d.excluded}
+                        onChange={() => onToggleExcluded(d.id)}
+                        aria-label="Use this point in the fit"
+                      />
+                    </td>
+                    <td className="py-2">
+                      <div className="flex gap-2">
+                        <button className={buttonClass} onClick={() => onEdit(d)} type="button">
+                          Edit
+                        </button>
+                        <button className={buttonClass} onClick={() => onDelete(d.id)} type="button">
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {last < pageRows.length ? <tr style={{ height: (pageRows.length - last) * ROW_HEIGHT }} /> : null}
+              </>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length > PAGE_SIZES[0] ? (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+          <button type="button" onClick={() => goTo(currentPage - 1)} disabled={currentPage === 0} className={buttonClass}>
+            Previous
+          </button>
+          <span>
+            Page {currentPage + 1} of {pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => goTo(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className={buttonClass}
+          >
+            Next
+          </button>
+          <label className="ml-2 font-medium" htmlFor="page-size">
+            Rows per page:
+          </label>
+          <select
+            id="page-size"
+            value={pageSize}
+            onChange={(e) => {
+              setPageSize(Number(e.target.value));
+              goTo(0);
+            }}
+            className={inputClass}
+          >
+            {PAGE_SIZES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AreaUnit, Units } from "@/types";
+import { AREA_UNITS, SUGGESTED_CURRENCIES, SUGGESTED_LOCALES, validateUnits } from "@/lib/units";
+
+interface UnitSettingsProps {
+  units: Units;
+  onChange: (units: Units) => void;
+}
+
+const inputClass = "rounded-lg border border-zinc-200 bg-white px-2 py-1 text-sm outline-none focus:border-zinc-400";
+
+export function UnitSettings({ units, onChange }: UnitSettingsProps) {
+  const [currency, setCurrency] = useState<string>(units.currency);
+  const [locale, setLocale] = useState<string>(units.locale);
+  const [error, setError] = useState<string>("");
+
+  // Follow the active dataset when another one is selected
+  useEffect(() => {
+    setCurrency(units.currency);
+    setLocale(units.locale);
+    setError("");
+  }, [units]);
+
+  function changeArea(area: AreaUnit) {
+    if (area === units.area) return;
+    onChange({ ...units, area });
+  }
+
+  function apply(e: React.FormEvent) {
+    e.preventDefault();
+    const next = { ...units, currency: currency.trim().toUpperCase(), locale: locale.trim() };
+    const err = validateUnits(next);
+    setError(err ?? "");
+    if (!err) onChange(next);
+  }
+
+  return (
+    <form onSubmit={apply} className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+      <label className="font-medium" htmlFor="area-unit">
+        Area unit:
+      </label>
+      <select
+        id="area-unit"
+        value={units.area}
+        onChange={(e) => changeArea(e.target.value as AreaUnit)}
+        className={inputClass}
+        title="Converts stored areas and the trained model"
+      >
+        {AREA_UNITS.map((u) => (
+          <option key={u.unit} value={u.unit}>
+            {u.label}
+          </option>
+        ))}
+      </select>
+      <label className="ml-2 font-medium" htmlFor="currency">
+        Currency:
+      </label>
+      <input
+        id="currency"
+        value={currency}
+        onChange={(e) => setCurrency(e.target.value)}
+        list="suggested-currencies"
+        className={`${inputClass} w-20`}
+      />
+      <datalist id="suggested-currencies">
+        {SUGGESTED_CURRENCIES.map((c) => (
+          <option key={c} value={c} />
+        ))}
+      </datalist>
+      <label className="ml-2 font-medium" htmlFor="locale">
+        Number format:
+      </label>
+      <input
+        id="locale"
+        value={locale}
+        onChange={(e) => setLocale(e.target.value)}
+        list="suggested-locales"
+        className={`${inputClass} w-24`}
+      />
+      <datalist id="suggested-locales">
+        {SUGGESTED_LOCALES.map((l) => (
+          <option key={l} value={l} />
+        ))}
+      </datalist>
+      <button
+        type="submit"
+        disabled={currency === units.currency && locale === units.locale}
+        className="rounded-lg border border-zinc-200 px-3 py-1 hover:bg-zinc-50 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        Apply
+      </button>
+      {error ? <span className="text-red-600">{error}</span> : null}
+    </form>
+  );
+}
@@ -0,0 +1,133 @@
+import { DataPoint, Evaluation, ModelArtifact, RegressionResult, Units } from "@/types";
+import { MODEL_TYPES } from "@/lib/models";
+import { FIT_METHODS } from "@/lib/robust";
+import { extent } from "@/lib/stats";
+import { parseState, stringifyState } from "@/lib/storage";
+import { AREA_UNITS, validateUnits } from "@/lib/units";
+import { WEIGHTING_MODES } from "@/lib/weights";
+
+export const ARTIFACT_FORMAT = "house-price-model";
+export const ARTIFACT_VERSION = 1;
+
+// FNV-1a over a canonical serialization of the points; two 32-bit passes with different
+// offsets give a 64-bit fingerprint. Not cryptographic — it only detects mismatched data.
+export function hashDataset(points: DataPoint[]): string {
+  const canonical = points
+    .map((p) => {
+      const features = Object.keys(p.features ?? {})
+        .sort()
+        .map((k) => `${k}=${p.features![k]}`)
+        .join(",");
+      // Weights, dates and categories are only appended when set, so older datasets keep their hashes
+      const weighting = `${p.weight !== undefined ? `;w=${p.weight}` : ""}${p.date !== undefined ? `;d=${p.date}` : ""}`;
+      const category = p.category !== undefined ? `;c=${p.category}` : "";
+      return `${p.area};${p.price};${features};${p.excluded ? 1 : 0}${weighting}${category}`;
+    })
+    .join("\n");
+
+  const fnv = (offset: number) => {
+    let h = offset;
+    for (let i = 0; i < canonical.length; i++) {
+      h ^= canonical.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16).padStart(8, "0");
+  };
+  return fnv(0x811c9dc5) + fnv(0x050c5d1f);
+}
+
+export function createArtifact(
+  model: RegressionResult,
+  points: DataPoint[],
+  units: Units,
+  evaluation: Evaluation | null
+): ModelArtifact {
+  const included = points.filter((p) => !p.excluded);
+  return {
+    format: ARTIFACT_FORMAT,
+    version: ARTIFACT_VERSION,
+    createdAt: new Date().toISOString(),
+    units,
+    trainingDataHash: hashDataset(points),
+    ...(included.length > 0 ? { trainingAreaRange: extent(included.map((p) => p.area)) } : {}),
+    metrics: {
+      n: model.n,
+      r2: model.r2,
+      adjR2: model.adjR2,
+      rmse: model.rmse,
+      outOfSample: evaluation?.outOfSample ?? null,
+    },
+    model,
+  };
+}
+
+export function serializeArtifact(artifact: ModelArtifact): string {
+  return stringifyState(artifact);
+}
+
+function isNumber(v: unknown): v is number {
+  return typeof v === "number";
+}
+
+export function checkUnits(units: Units): void {
+  if (!units || !AREA_UNITS.some((u) => u.unit === units.area)) throw new Error("Unknown area unit");
+  const err = validateUnits(units);
+  if (err) throw new Error(err);
+}
+
+// Checks that a model object has everything predictPrice and the UI rely on.
+export function validateModel(m: RegressionResult): void {
+  if (!m || typeof m !== "object") throw new Error("Missing model");
+  if (!MODEL_TYPES.some((t) => t.type === m.modelType)) throw new Error(`Unknown model type "${m.modelType}"`);
+  if (!FIT_METHODS.some((f) => f.method === m.method)) throw new Error(`Unknown fitting method "${m.method}"`);
+  if (!Array.isArray(m.features) || !Array.isArray(m.terms)) throw new Error("Model is missing its features or terms");
+  if (!isNumber(m.b) || !m.coefficients || m.terms.some((t) => !isNumber(m.coefficients[t]))) {
+    throw new Error("Model coefficients are incomplete");
+  }
+  const size = m.terms.length + 1;
+  if (!Array.isArray(m.covariance) || m.covariance.length !== size) {
+    throw new Error("Model covariance matrix has the wrong size");
+  }
+  if (m.categories !== undefined && (!Array.isArray(m.categories) || m.categories.some((c) => typeof c !== "string"))) {
+    throw new Error("Model categories are invalid");
+  }
+  const { weighting } = m;
+  if (weighting !== undefined && (!WEIGHTING_MODES.some((w) => w.mode === weighting.mode) || !weighting.weights)) {
+    throw new Error("Model weighting is invalid");
+  }
+  const { segmented } = m;
+  if (
+    m.modelType === "segmented" &&
+    !m.groups &&
+    (!segmented || !Array.isArray(segmented.breakpoints) || !Array.isArray(segmented.segments))
+  ) {
+    throw new Error("Model breakpoints are missing");
+  }
+  if (m.groups) {
+    const groups = m.groups;
+    (m.categories ?? []).forEach((c) => {
+      if (!groups[c]) throw new Error(`Model for category "${c}" is missing`);
+      validateModel(groups[c]);
+    });
+  }
+}
+
+export function parseArtifact(text: string): ModelArtifact {
+  let parsed: ModelArtifact;
+  try {
+    parsed = parseState(text) as ModelArtifact;
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+  if (!parsed || parsed.format !== ARTIFACT_FORMAT) throw new Error("Not a house price model file");
+  if (!isNumber(parsed.version) || parsed.version > ARTIFACT_VERSION) {
+    throw new Error(`Unsupported model file version ${parsed.version}`);
+  }
+  checkUnits(parsed.units);
+  const range = parsed.trainingAreaRange;
+  if (range !== undefined && !(Array.isArray(range) && range.length === 2 && range.every(isNumber))) {
+    throw new Error("Training area range must be a pair of numbers");
+  }
+  validateModel(parsed.model);
+  return parsed;
+}
@@ -0,0 +1,304 @@
+import { AssumptionTest, DataPoint, RegressionResult } from "@/types";
+import { predictFitted } from "@/lib/regression";
+import { leastSquares } from "@/lib/matrix";
+import { termValue, transformPrice } from "@/lib/models";
+import { chiSquareSf, extent, normalCdf, normalQuantile } from "@/lib/stats";
+
+// Checks of the assumptions behind least-squares inference, run on the training residuals.
+// Residuals are on the fitted scale (log price for log models), where the assumptions apply.
+
+export const ALPHA = 0.05;
+// Shapiro–Wilk's p-value approximation (Royston, 1995) covers 3 ≤ n ≤ 5000
+const SHAPIRO_MAX_N = 5000;
+// Durbin–Watson values outside this band suggest correlated errors
+const DW_BAND: [number, number] = [1.5, 2.5];
+
+export interface ResidualPoint {
+  id: string;
+  fitted: number;
+  residual: number;
+}
+
+export interface HistogramBin {
+  x0: number;
+  x1: number;
+  mid: number;
+  count: number;
+  // Count a normal distribution with the residuals' mean and sd would put in the bin
+  expected: number;
+}
+
+export function modelResiduals(points: DataPoint[], model: RegressionResult): ResidualPoint[] {
+  return points.map((p) => {
+    const fitted = predictFitted(p, model);
+    return { id: p.id, fitted, residual: transformPrice(p.price, model.modelType) - fitted };
+  });
+}
+
+function moments(values: number[]) {
+  const n = values.length;
+  const mean = values.reduce((s, v) => s + v, 0) / n;
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  values.forEach((v) => {
+    const d = v - mean;
+    m2 += d * d;
+    m3 += d * d * d;
+    m4 += d * d * d * d;
+  });
+  return { n, mean, m2: m2 / n, m3: m3 / n, m4: m4 / n };
+}
+
+// Sturges' rule, kept between 5 and 40 bins.
+export function histogram(values: number[]): HistogramBin[] {
+  if (values.length < 2) return [];
+  const { n, mean, m2 } = moments(values);
+  const sd = Math.sqrt((m2 * n) / (n - 1));
+  const [min, max] = extent(values);
+  const bins = Math.min(40, Math.max(5, Math.ceil(Math.log2(n) + 1)));
+  const width = (max - min) / bins || 1;
+  const counts = new Array(bins).fill(0);
+  values.forEach((v) => counts[Math.min(bins - 1, Math.floor((v - min) / width))]++);
+  return counts.map((count, i) => {
+    const x0 = min + i * width;
+    const x1 = x0 + width;
+    const expected = sd > 0 ? n * (normalCdf((x1 - mean) / sd) - normalCdf((x0 - mean) / sd)) : 0;
+    return { x0, x1, mid: (x0 + x1) / 2, count, expected };
+  });
+}
+
+// Standardized sample quantiles against normal quantiles at Blom positions (i - 3/8)/(n + 1/4).
+// At most `max` evenly spaced order statistics are returned, always including both tails.
+export function qqPoints(values: number[], max = 2000): { theoretical: number; sample: number }[] {
+  const n = values.length;
+  if (n < 2) return [];
+  const { mean, m2 } = moments(values);
+  const sd = Math.sqrt((m2 * n) / (n - 1)) || 1;
+  const sorted = [...values].sort((a, b) => a - b);
+  const step = Math.max(1, (n - 1) / (max - 1));
+  const out: { theoretical: number; sample: number }[] = [];
+  for (let k = 0; k < Math.min(n, max); k++) {
+    const i = Math.round(k * step);
+    out.push({ theoretical: normalQuantile((i + 1 - 0.375) / (n + 0.25)), sample: (sorted[i] - mean) / sd });
+  }
+  return out;
+}
+
+function poly(c: number[], x: number): number {
+  return c.reduceRight((s, ci) => s * x + ci, 0);
+}
+
+// Shapiro–Wilk W with Royston's coefficient and p-value approximations (algorithm AS R94).
+export function shapiroWilk(values: number[]): { w: number; pValue: number } | null {
+  const n = values.length;
+  if (n < 3 || n > SHAPIRO_MAX_N) return null;
+  const x = [...values].sort((a, b) => a - b);
+  const ss = moments(x).m2 * n;
+  if (ss === 0) return null;
+
+  const a = new Array(n).fill(0);
+  if (n === 3) {
+    a[0] = -Math.SQRT1_2;
+    a[2] = Math.SQRT1_2;
+  } else {
+    const m = x.map((_, i) => normalQuantile((i + 1 - 0.375) / (n + 0.25)));
+    const summ2 = m.reduce((s, v) => s + v * v, 0);
+    const u = 1 / Math.sqrt(n);
+    const an = m[n - 1] / Math.sqrt(summ2) + poly([0, 0.221157, -0.147981, -2.07119, 4.434685, -2.706056], u);
+    let fac: number;
+    let first: number;
+    a[n - 1] = an;
+    if (n > 5) {
+      const an1 = m[n - 2] / Math.sqrt(summ2) + poly([0, 0.042981, -0.293762, -1.752461, 5.682633, -3.582633], u);
+      a[n - 2] = an1;
+      fac = Math.sqrt((summ2 - 2 * m[n - 1] ** 2 - 2 * m[n - 2] ** 2) / (1 - 2 * an ** 2 - 2 * an1 ** 2));
+      first = 2;
+    } else {
+      fac = Math.sqrt((summ2 - 2 * m[n - 1] ** 2) / (1 - 2 * an ** 2));
+      first = 1;
+    }
+    for (let i = first; i < n - first; i++) a[i] = m[i] / fac;
+    for (let i = 0; i < first; i++) a[i] = -a[n - 1 - i];
+  }
+
+  const numerator = Math.pow(a.reduce((s, ai, i) => s + ai * x[i], 0), 2);
+  const w = Math.min(1, numerator / ss);
+
+  let pValue: number;
+  if (n === 3) {
+    pValue = Math.max(0, (6 / Math.PI) * (Math.asin(Math.sqrt(w)) - Math.asin(Math.sqrt(0.75))));
+  } else if (n <= 11) {
+    const gamma = poly([-2.273, 0.459], n);
+    const w1 = Math.log(1 - w);
+    if (w1 >= gamma) {
+      pValue = 0;
+    } else {
+      const y = -Math.log(gamma - w1);
+      const mu = poly([0.544, -0.39978, 0.025054, -6.714e-4], n);
+      const sigma = Math.exp(poly([1.3822, -0.77857, 0.062767, -0.0020322], n));
+      pValue = 1 - normalCdf((y - mu) / sigma);
+    }
+  } else {
+    const ln = Math.log(n);
+    const mu = poly([-1.5861, -0.31082, -0.083751, 0.0038915], ln);
+    const sigma = Math.exp(poly([-0.4803, -0.082676, 0.0030302], ln));
+    pValue = 1 - normalCdf((Math.log(1 - w) - mu) / sigma);
+  }
+  return { w, pValue };
+}
+
+// Jarque–Bera: skewness and excess kurtosis against a chi-square with 2 df.
+export function jarqueBera(values: number[]): { jb: number; skewness: number; kurtosis: number; pValue: number } | null {
+  const { n, m2, m3, m4 } = moments(values);
+  if (n < 3 || m2 === 0) return null;
+  const skewness = m3 / Math.pow(m2, 1.5);
+  const kurtosis = m4 / (m2 * m2);
+  const jb = (n / 6) * (skewness * skewness + Math.pow(kurtosis - 3, 2) / 4);
+  return { jb, skewness, kurtosis, pValue: chiSquareSf(jb, 2) };
+}
+
+// Koenker's studentized Breusch–Pagan: n·R² from regressing squared residuals on the
+// model's terms, chi-square with one df per term.
+export function breuschPagan(
+  points: DataPoint[],
+  model: RegressionResult,
+  residuals: number[]
+): { lm: number; df: number; pValue: number } | null {
+  const n = points.length;
+  const k = model.terms.length;
+  if (n <= k + 1) return null;
+  // Columns are standardized first; R² does not change and the solve stays well conditioned
+  const columns = model.terms.map((t) => points.map((p) => termValue(p, t)));
+  const scaled = columns.map((c) => {
+    const { mean, m2 } = moments(c);
+    const sd = Math.sqrt(m2) || 1;
+    return c.map((v) => (v - mean) / sd);
+  });
+  const X = points.map((_, i) => [1, ...scaled.map((c) => c[i])]);
+  const e2 = residuals.map((r) => r * r);
+  const fit = leastSquares(X, e2);
+  if (!fit) return null;
+  const mean = e2.reduce((s, v) => s + v, 0) / n;
+  let ssTot = 0;
+  let ssRes = 0;
+  X.forEach((row, i) => {
+    const predicted = row.reduce((s, v, j) => s + v * fit.beta[j], 0);
+    ssTot += Math.pow(e2[i] - mean, 2);
+    ssRes += Math.pow(e2[i] - predicted, 2);
+  });
+  if (ssTot === 0) return null;
+  const lm = n * (1 - ssRes / ssTot);
+  return { lm, df: k, pValue: chiSquareSf(lm, k) };
+}
+
+// Durbin–Watson on residuals in the given (row) order; about 2 when errors are uncorrelated.
+export function durbinWatson(residuals: number[]): number {
+  let num = 0;
+  let den = 0;
+  residuals.forEach((r, i) => {
+    if (i > 0) num += Math.pow(r - residuals[i - 1], 2);
+    den += r * r;
+  });
+  return den > 0 ? num / den : NaN;
+}
+
+export function formatPValue(p: number): string {
+  if (!Number.isFinite(p)) return "-";
+  return p < 0.001 ? "< 0.001" : p.toFixed(3);
+}
+
+function skipped(name: string, assumption: string, summary: string): AssumptionTest {
+  return { name, assumption, statistic: NaN, pValue: NaN, verdict: "skipped", summary };
+}
+
+// Runs every test on the points a model was trained on, in their stored order.
+export function assumptionTests(points: DataPoint[], model: RegressionResult): AssumptionTest[] {
+  const residuals = modelResiduals(points, model).map((r) => r.residual);
+  const tests: AssumptionTest[] = [];
+  const normal = "Normal residuals";
+
+  const sw = shapiroWilk(residuals);
+  if (sw) {
+    const pass = sw.pValue >= ALPHA;
+    tests.push({
+      name: "Shapiro–Wilk",
+      assumption: normal,
+      statistic: sw.w,
+      pValue: sw.pValue,
+      verdict: pass ? "pass" : "fail",
+      summary: pass
+        ? `Residuals are consistent with a normal distribution (p = ${formatPValue(sw.pValue)}), so p-values and intervals can be trusted on this count.`
+        : `Residuals are not normally distributed (p = ${formatPValue(sw.pValue)}). Coefficients are still unbiased, but p-values and prediction intervals may be off; check for outliers or try a log model.`,
+    });
+  } else {
+    tests.push(
+      skipped(
+        "Shapiro–Wilk",
+        normal,
+        residuals.length > SHAPIRO_MAX_N
+          ? `Only defined for up to ${SHAPIRO_MAX_N} points; see Jarque–Bera.`
+          : "Needs at least 3 residuals that are not all equal."
+      )
+    );
+  }
+
+  const jb = jarqueBera(residuals);
+  if (jb) {
+    const pass = jb.pValue >= ALPHA;
+    tests.push({
+      name: "Jarque–Bera",
+      assumption: normal,
+      statistic: jb.jb,
+      pValue: jb.pValue,
+      verdict: pass ? "pass" : "fail",
+      summary:
+        (pass
+          ? `Skewness (${jb.skewness.toFixed(2)}) and kurtosis (${jb.kurtosis.toFixed(2)}) are close to a normal distribution's 0 and 3.`
+          : `Residuals are ${Math.abs(jb.skewness) > 0.5 ? (jb.skewness > 0 ? "right-skewed" : "left-skewed") : "heavy- or light-tailed"} (skewness ${jb.skewness.toFixed(2)}, kurtosis ${jb.kurtosis.toFixed(2)}), so they are unlikely to be normal.`) +
+        (residuals.length < 30 ? " The test is unreliable below 30 points." : ""),
+    });
+  } else {
+    tests.push(skipped("Jarque–Bera", normal, "Needs at least 3 residuals that are not all equal."));
+  }
+
+  const constant = "Constant variance";
+  const bp = breuschPagan(points, model, residuals);
+  if (bp) {
+    const pass = bp.pValue >= ALPHA;
+    tests.push({
+      name: "Breusch–Pagan",
+      assumption: constant,
+      statistic: bp.lm,
+      pValue: bp.pValue,
+      verdict: pass ? "pass" : "fail",
+      summary: pass
+        ? `No evidence that the spread of residuals changes with the features (p = ${formatPValue(bp.pValue)}).`
+        : `The spread of residuals changes with the features (heteroscedasticity, p = ${formatPValue(bp.pValue)}). Standard errors and intervals are unreliable; a log model or weighted fit often helps.`,
+    });
+  } else {
+    tests.push(skipped("Breusch–Pagan", constant, "Needs more points than model terms and residuals that are not all equal."));
+  }
+
+  const independent = "Independent errors";
+  const dw = durbinWatson(residuals);
+  if (Number.isFinite(dw) && residuals.length >= 3) {
+    const pass = dw >= DW_BAND[0] && dw <= DW_BAND[1];
+    tests.push({
+      name: "Durbin–Watson",
+      assumption: independent,
+      statistic: dw,
+      pValue: NaN,
+      verdict: pass ? "pass" : "fail",
+      summary:
+        (pass
+          ? `No sign that neighbouring rows have correlated errors (DW = ${dw.toFixed(2)}, ideal 2).`
+          : `Neighbouring rows have ${dw < DW_BAND[0] ? "positively" : "negatively"} correlated errors (DW = ${dw.toFixed(2)}, ideal 2). If rows are in time or location order, standard errors are too optimistic.`) +
+        " Based on the order of rows in the table.",
+    });
+  } else {
+    tests.push(skipped("Durbin–Watson", independent, "Needs at least 3 residuals that are not all zero."));
+  }
+
+  return tests;
+}
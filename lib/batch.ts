@@ -0,0 +1,130 @@
+import { BatchPrediction, RegressionResult, Units } from "@/types";
+import { DEFAULT_UNITS, parseNumber } from "@/lib/format";
+import { validateArea, validateFeature } from "@/lib/validation";
+import { AREA, CATEGORY, featureLabel, toFeatureKey } from "@/lib/features";
+import { PredictionInput, predictPrice, predictWithInterval, supportsIntervals } from "@/lib/regression";
+import { CATEGORY_HEADER, RowError, toCsv } from "@/lib/csv";
+
+export interface BatchInput extends PredictionInput {
+  row: number;
+  features: Record<string, number>;
+}
+
+export interface ParsedBatch {
+  inputs: BatchInput[];
+  errors: RowError[];
+}
+
+// Finds the column for each model feature (and CATEGORY for grouped models). With a header,
+// columns are matched by name (area also accepts "size"/"sq…", the category names like
+// "neighborhood"); without one they are taken in model feature order.
+function mapColumns(header: string[] | null, features: string[]): Record<string, number> {
+  if (!header) return Object.fromEntries(features.map((f, i) => [f, i]));
+
+  const keys = header.map((h) => toFeatureKey(h));
+  const columns: Record<string, number> = {};
+  const missing: string[] = [];
+  features.forEach((f) => {
+    const col =
+      f === AREA
+        ? header.findIndex((h) => /^(area|size|sq)/.test(h.trim().toLowerCase()))
+        : f === CATEGORY
+          ? header.findIndex((h) => CATEGORY_HEADER.test(h.trim().toLowerCase()))
+          : keys.findIndex((k) => k === f || k === toFeatureKey(featureLabel(f)));
+    if (col < 0) missing.push(featureLabel(f));
+    else columns[f] = col;
+  });
+  if (missing.length > 0) throw new Error(`Missing column(s): ${missing.join(", ")}`);
+  return columns;
+}
+
+// A first row with any non-numeric cell (other than a known category) is treated as a header.
+// Grouped models pass their categories and need a category column after the features.
+export function parseBatch(
+  rows: string[][],
+  features: string[],
+  units: Units = DEFAULT_UNITS,
+  categories: string[] = []
+): ParsedBatch {
+  if (rows.length === 0) return { inputs: [], errors: [] };
+  const hasHeader = rows[0].some(
+    (c) => c.trim() !== "" && !Number.isFinite(parseNumber(c, units.locale)) && !categories.includes(c.trim())
+  );
+  const wanted = categories.length > 0 ? [...features, CATEGORY] : features;
+  const columns = mapColumns(hasHeader ? rows[0] : null, wanted);
+
+  const inputs: BatchInput[] = [];
+  const errors: RowError[] = [];
+  const offset = hasHeader ? 2 : 1;
+  (hasHeader ? rows.slice(1) : rows).forEach((r, i) => {
+    const input: BatchInput = { row: i + offset, area: NaN, features: {} };
+    const messages: string[] = [];
+    features.forEach((f) => {
+      const v = parseNumber(r[columns[f]] ?? "", units.locale);
+      if (f === AREA) {
+        const err = validateArea(v, units);
+        if (err) messages.push(err);
+        input.area = v;
+      } else {
+        const err = validateFeature(v);
+        if (err) messages.push(`${featureLabel(f)}: ${err}`);
+        input.features[f] = v;
+      }
+    });
+    if (categories.length > 0) {
+      const category = (r[columns[CATEGORY]] ?? "").trim();
+      if (category === "") messages.push("Category is missing.");
+      else if (!categories.includes(category)) messages.push(`Category "${category}" is not one the model was trained on.`);
+      input.category = category;
+    }
+    if (messages.length > 0) errors.push({ row: input.row, message: messages.join(" ") });
+    else inputs.push(input);
+  });
+
+  return { inputs, errors };
+}
+
+// `areaRange` is the [min, max] area of the training points; inputs outside it are flagged.
+// Intervals are prediction intervals at `level`, or null when not requested or not available.
+export function predictBatch(
+  inputs: BatchInput[],
+  model: RegressionResult,
+  areaRange: [number, number] | null,
+  level: number | null
+): BatchPrediction[] {
+  const withIntervals = level !== null && supportsIntervals(model);
+  const usesArea = model.features.includes(AREA);
+  return inputs.map((input) => {
+    const band = withIntervals ? predictWithInterval(input, model, level) : null;
+    return {
+      row: input.row,
+      area: input.area,
+      features: input.features,
+      ...(input.category !== undefined ? { category: input.category } : {}),
+      price: band ? band.price : predictPrice(input, model),
+      interval: band ? band.prediction : null,
+      extrapolated: usesArea && !!areaRange && (input.area < areaRange[0] || input.area > areaRange[1]),
+    };
+  });
+}
+
+// Predictions as CSV: the input columns, the price, the interval (when `level` is given, e.g. "95")
+// and whether the area was outside the training range.
+export function batchCsv(results: BatchPrediction[], columns: string[], level: string | null): string {
+  return toCsv(
+    [
+      "row",
+      ...columns,
+      "predicted_price",
+      ...(level !== null ? [`pi_${level}_lower`, `pi_${level}_upper`] : []),
+      "extrapolated",
+    ],
+    results.map((r) => [
+      r.row,
+      ...columns.map((f) => (f === AREA ? r.area : f === CATEGORY ? (r.category ?? "") : r.features[f])),
+      r.price,
+      ...(level !== null ? [r.interval?.[0] ?? "", r.interval?.[1] ?? ""] : []),
+      r.extrapolated ? "yes" : "no",
+    ])
+  );
+}
@@ -0,0 +1,186 @@
+import { BootstrapMethod, BootstrapResult, BootstrapSample, DataPoint, FitOptions, RegressionResult } from "@/types";
+import { calculateRegression, INTERCEPT, predictFitted, PredictionInput } from "@/lib/regression";
+import { ProgressCallback } from "@/lib/evaluation";
+import { transformPrice, untransformPrice } from "@/lib/models";
+import { createRng, shuffle } from "@/lib/random";
+import { normalCdf, normalQuantile, quantile } from "@/lib/stats";
+
+export const BOOTSTRAP_METHODS: Array<{ method: BootstrapMethod; label: string }> = [
+  { method: "pairs", label: "Pairs (resample points)" },
+  { method: "residual", label: "Residual (resample errors)" },
+];
+
+export const DEFAULT_REPLICATES = 1000;
+export const MAX_REPLICATES = 10000;
+// Above this many points the jackknife deletes groups instead of single points
+const MAX_JACKKNIFE = 200;
+
+export interface BootstrapRequest {
+  points: DataPoint[];
+  options: FitOptions;
+  method: BootstrapMethod;
+  replicates: number;
+  seed: number;
+}
+
+export interface BootstrapInterval {
+  percentile: [number, number];
+  bca: [number, number];
+}
+
+export interface CoefficientInterval extends BootstrapInterval {
+  term: string;
+  estimate: number;
+  // Standard deviation of the bootstrap replicates
+  stdError: number;
+}
+
+export interface PredictionIntervals {
+  price: number;
+  // Uncertainty in the fitted line at the input
+  confidence: BootstrapInterval;
+  // Adds a resampled residual, covering where a single sale could land
+  prediction: [number, number];
+}
+
+function sample(model: RegressionResult): BootstrapSample {
+  return { b: model.b, coefficients: model.coefficients };
+}
+
+// A fitted model with another sample's coefficients, for predicting with it.
+export function sampleModel(model: RegressionResult, s: BootstrapSample): RegressionResult {
+  return { ...model, b: s.b, coefficients: s.coefficients };
+}
+
+function coefficient(s: BootstrapSample, term: string): number {
+  return term === INTERCEPT ? s.b : s.coefficients[term];
+}
+
+// Refits `replicates` resamples of the points with the same options. Pairs resampling draws
+// whole points with replacement; residual resampling keeps every point's features and adds a
+// resampled residual to its fitted value, which assumes the model form is right.
+export function runBootstrap(request: BootstrapRequest, onProgress?: ProgressCallback): BootstrapResult {
+  const { points, options, method, replicates, seed } = request;
+  const model = calculateRegression(points, options);
+  const n = points.length;
+  const rng = createRng(seed);
+
+  const fitted = points.map((p) => predictFitted(p, model));
+  const raw = points.map((p, i) => transformPrice(p.price, model.modelType) - fitted[i]);
+  const mean = raw.reduce((s, r) => s + r, 0) / n;
+  const inflate = model.df > 0 ? Math.sqrt(n / model.df) : 1;
+  const residuals = raw.map((r) => (r - mean) * inflate);
+
+  // Jackknife fits count towards progress too
+  const groups = Math.min(n, MAX_JACKKNIFE);
+  const total = replicates + groups;
+  const samples: BootstrapSample[] = [];
+  let failed = 0;
+
+  for (let r = 0; r < replicates; r++) {
+    let resampled: DataPoint[];
+    if (method === "pairs") {
+      resampled = Array.from({ length: n }, () => points[Math.floor(rng() * n)]);
+    } else {
+      resampled = points.map((p, i) => ({
+        ...p,
+        price: untransformPrice(fitted[i] + residuals[Math.floor(rng() * n)], model.modelType),
+      }));
+    }
+    try {
+      samples.push(sample(calculateRegression(resampled, options)));
+    } catch {
+      failed++;
+    }
+    onProgress?.(r + 1, total);
+  }
+
+  const order = shuffle(
+    points.map((_, i) => i),
+    createRng(seed + 1)
+  );
+  const jackknife: BootstrapSample[] = [];
+  for (let g = 0; g < groups; g++) {
+    const left = new Set(order.filter((_, i) => i % groups === g));
+    try {
+      jackknife.push(sample(calculateRegression(points.filter((_, i) => !left.has(i)), options)));
+    } catch {
+      // A group whose removal leaves a degenerate sample just does not contribute
+    }
+    onProgress?.(replicates + g + 1, total);
+  }
+
+  return { method, seed, samples, failed, jackknife, residuals };
+}
+
+// Percentile and bias-corrected accelerated (BCa) intervals for one statistic, given its value
+// on the original data, on each bootstrap sample and on each jackknife sample.
+export function bootstrapInterval(estimate: number, values: number[], jackknife: number[], level: number): BootstrapInterval {
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  const alpha = (1 - level) / 2;
+  const percentile: [number, number] = [quantile(sorted, alpha), quantile(sorted, 1 - alpha)];
+  if (sorted.length === 0) return { percentile, bca: [NaN, NaN] };
+
+  // Bias correction from the share of replicates below the estimate (ties count half)
+  const below = sorted.filter((v) => v < estimate).length + sorted.filter((v) => v === estimate).length / 2;
+  const z0 = normalQuantile(below / sorted.length);
+
+  const jack = jackknife.filter(Number.isFinite);
+  const jackMean = jack.reduce((s, v) => s + v, 0) / jack.length;
+  let num = 0;
+  let den = 0;
+  jack.forEach((v) => {
+    const d = jackMean - v;
+    num += d * d * d;
+    den += d * d;
+  });
+  const a = den > 0 ? num / (6 * Math.pow(den, 1.5)) : 0;
+
+  const adjust = (p: number) => {
+    const z = normalQuantile(p);
+    return normalCdf(z0 + (z0 + z) / (1 - a * (z0 + z)));
+  };
+  const bca: [number, number] = Number.isFinite(z0)
+    ? [quantile(sorted, adjust(alpha)), quantile(sorted, adjust(1 - alpha))]
+    : [NaN, NaN];
+  return { percentile, bca };
+}
+
+export function coefficientIntervals(model: RegressionResult, result: BootstrapResult, level: number): CoefficientInterval[] {
+  return [INTERCEPT, ...model.terms].map((term) => {
+    const estimate = coefficient(sample(model), term);
+    const values = result.samples.map((s) => coefficient(s, term));
+    const mean = values.reduce((s, v) => s + v, 0) / values.length;
+    const stdError = Math.sqrt(values.reduce((s, v) => s + Math.pow(v - mean, 2), 0) / (values.length - 1));
+    const jack = result.jackknife.map((s) => coefficient(s, term));
+    return { term, estimate, stdError, ...bootstrapInterval(estimate, values, jack, level) };
+  });
+}
+
+// Intervals for the price at one input. The prediction interval adds one residual, drawn with
+// a seeded generator so the numbers do not change between renders.
+export function predictionIntervals(
+  model: RegressionResult,
+  result: BootstrapResult,
+  input: PredictionInput,
+  level: number
+): PredictionIntervals {
+  const back = (v: number) => untransformPrice(v, model.modelType);
+  const fitted = result.samples.map((s) => predictFitted(input, sampleModel(model, s)));
+  const estimate = predictFitted(input, model);
+  const jack = result.jackknife.map((s) => predictFitted(input, sampleModel(model, s)));
+  // Intervals are found on the fitted scale; back-transforming keeps their coverage
+  const fittedInterval = bootstrapInterval(estimate, fitted, jack, level);
+  const map = (pair: [number, number]): [number, number] => [back(pair[0]), back(pair[1])];
+
+  const rng = createRng(result.seed + 2);
+  const { residuals } = result;
+  const draws = fitted.map((f) => f + residuals[Math.floor(rng() * residuals.length)]).sort((a, b) => a - b);
+  const alpha = (1 - level) / 2;
+
+  return {
+    price: back(estimate),
+    confidence: { percentile: map(fittedInterval.percentile), bca: map(fittedInterval.bca) },
+    prediction: map([quantile(draws, alpha), quantile(draws, 1 - alpha)]),
+  };
+}
@@ -0,0 +1,38 @@
+import { DataPoint } from "@/types";
+
+// How close (in pixels) a press has to be to a point to grab it
+export const GRAB_RADIUS = 8;
+// Presses that move less than this are clicks rather than drags or brushes
+export const CLICK_TOLERANCE = 4;
+
+export interface ChartBox {
+  area: [number, number];
+  price: [number, number];
+}
+
+// Nearest point to a pixel position within `radius`, or null. `toPixel` maps a point to chart pixels.
+export function nearestPoint<T extends Pick<DataPoint, "area" | "price">>(
+  points: T[],
+  toPixel: (p: T) => [number, number],
+  x: number,
+  y: number,
+  radius = GRAB_RADIUS
+): T | null {
+  let best: T | null = null;
+  let bestDistance = radius * radius;
+  points.forEach((p) => {
+    const [px, py] = toPixel(p);
+    const distance = (px - x) * (px - x) + (py - y) * (py - y);
+    if (distance <= bestDistance) {
+      best = p;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+export function pointsInBox(points: DataPoint[], box: ChartBox): DataPoint[] {
+  const [a0, a1] = box.area;
+  const [p0, p1] = box.price;
+  return points.filter((d) => d.area >= a0 && d.area <= a1 && d.price >= p0 && d.price <= p1);
+}
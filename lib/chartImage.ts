@@ -0,0 +1,126 @@
+const SVG_NS = "http://www.w3.org/2000/svg";
+const FONT = "ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
+const TITLE_HEIGHT = 28;
+const LEGEND_ROW = 18;
+// Rough width of a legend label character at 12px, used to wrap legend rows
+const CHAR_WIDTH = 6.5;
+
+export interface ChartImage {
+  title: string;
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// Chart cards on the page carry data-chart="<title>" around their Recharts surface.
+export function findCharts(root: ParentNode): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>("[data-chart]"));
+}
+
+// "Residual plot" -> "residual-plot.svg"
+export function fileNameFor(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "download"}.${extension}`;
+}
+
+// Standalone SVG of a rendered chart card: the title on top, the plot, and the legend
+// underneath. Recharts draws the legend as HTML, so it is redrawn here as SVG.
+export function chartImage(card: HTMLElement): ChartImage | null {
+  const surface = card.querySelector<SVGSVGElement>("svg.recharts-surface");
+  if (!surface) return null;
+  const title = card.dataset.chart ?? "";
+  const width = Number(surface.getAttribute("width")) || surface.getBoundingClientRect().width;
+  const plotHeight = Number(surface.getAttribute("height")) || surface.getBoundingClientRect().height;
+
+  const entries = Array.from(card.querySelectorAll<HTMLElement>(".recharts-legend-item-text")).map((text) => ({
+    label: text.textContent ?? "",
+    color: text.style.color || "#52525b",
+  }));
+  const rows: Array<Array<{ label: string; color: string; x: number }>> = [];
+  let x = width;
+  entries.forEach((e) => {
+    const w = 20 + e.label.length * CHAR_WIDTH;
+    if (x + w > width - 8) {
+      rows.push([]);
+      x = 8;
+    }
+    rows[rows.length - 1].push({ ...e, x });
+    x += w + 8;
+  });
+  const height = TITLE_HEIGHT + plotHeight + rows.length * LEGEND_ROW + (rows.length > 0 ? 8 : 0);
+
+  const svg = document.createElementNS(SVG_NS, "svg");
+  svg.setAttribute("xmlns", SVG_NS);
+  svg.setAttribute("width", String(width));
+  svg.setAttribute("height", String(height));
+  svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  svg.setAttribute("font-family", FONT);
+
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", "#ffffff");
+  svg.appendChild(background);
+
+  const heading = document.createElementNS(SVG_NS, "text");
+  heading.setAttribute("x", "8");
+  heading.setAttribute("y", "18");
+  heading.setAttribute("font-size", "14");
+  heading.setAttribute("font-weight", "600");
+  heading.setAttribute("fill", "#18181b");
+  heading.textContent = title;
+  svg.appendChild(heading);
+
+  // The page's sizing style would stretch the nested plot; the chart editing overlay is dropped
+  const plot = surface.cloneNode(true) as SVGSVGElement;
+  plot.removeAttribute("style");
+  plot.setAttribute("y", String(TITLE_HEIGHT));
+  plot.querySelectorAll(".recharts-customized-wrapper").forEach((n) => n.remove());
+  svg.appendChild(plot);
+
+  rows.forEach((row, i) => {
+    const y = TITLE_HEIGHT + plotHeight + 8 + i * LEGEND_ROW + LEGEND_ROW / 2;
+    row.forEach((e) => {
+      const swatch = document.createElementNS(SVG_NS, "circle");
+      swatch.setAttribute("cx", String(e.x + 5));
+      swatch.setAttribute("cy", String(y));
+      swatch.setAttribute("r", "5");
+      swatch.setAttribute("fill", e.color);
+      const label = document.createElementNS(SVG_NS, "text");
+      label.setAttribute("x", String(e.x + 14));
+      label.setAttribute("y", String(y + 4));
+      label.setAttribute("font-size", "12");
+      label.setAttribute("fill", e.color);
+      label.textContent = e.label;
+      svg.appendChild(swatch);
+      svg.appendChild(label);
+    });
+  });
+
+  return { title, svg: new XMLSerializer().serializeToString(svg), width, height };
+}
+
+// Rasterizes a chart image at `scale` times its size, for sharper PNGs on high-density screens.
+export function chartPng(image: ChartImage, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        reject(new Error("This browser cannot draw to a canvas."));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, image.width, image.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the PNG."))), "image/png");
+    };
+    img.onerror = () => reject(new Error("Could not render the chart image."));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+  });
+}
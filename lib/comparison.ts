@@ -0,0 +1,97 @@
+import { ComparisonMetrics, DataPoint, ErrorMetrics, ModelType, RegressionResult } from "@/types";
+import { predictFitted } from "@/lib/regression";
+import { modelMetrics } from "@/lib/evaluation";
+import { isLogTarget, transformPrice } from "@/lib/models";
+import { FIT_METHODS } from "@/lib/robust";
+import { AREA, featureLabel } from "@/lib/features";
+
+export const MAX_PINNED = 8;
+// Every pin is cross-validated the same way so the column compares like with like
+export const COMPARISON_FOLDS = 5;
+export const COMPARISON_SEED = 1;
+
+export const PIN_COLORS = ["#8b5cf6", "#0ea5e9", "#f59e0b", "#14b8a6", "#ec4899", "#84cc16", "#6366f1", "#78716c"];
+
+const FAMILY_NAMES: Record<ModelType, string> = {
+  linear: "Linear",
+  polynomial: "Polynomial",
+  "log-log": "Log-log",
+  "log-linear": "Log-linear",
+  "linear-log": "Linear-log",
+  segmented: "Segmented",
+};
+
+function familyLabel(model: RegressionResult): string {
+  if (model.modelType === "polynomial") return `Polynomial (degree ${model.degree})`;
+  const segmented = model.segmented ?? (model.groups ? Object.values(model.groups)[0].segmented : undefined);
+  if (segmented) {
+    const count = segmented.breakpoints.length;
+    return `Segmented (${count} breakpoint${count === 1 ? "" : "s"}${segmented.continuous ? "" : ", with jumps"})`;
+  }
+  return FAMILY_NAMES[model.modelType];
+}
+
+// Short description, e.g. "Polynomial (degree 3), Huber (IRLS): area, bedrooms, per category".
+export function modelLabel(model: RegressionResult): string {
+  const family = familyLabel(model);
+  const method = model.method === "ols" ? "" : `, ${FIT_METHODS.find((m) => m.method === model.method)?.label}`;
+  const weighted = model.weighting ? ", weighted" : "";
+  const grouping =
+    model.grouping === "separate" ? ", per category" : model.grouping === "intercepts" ? " + category intercepts" : "";
+  const features = model.features.map((f) => (f === AREA ? "area" : featureLabel(f))).join(", ");
+  return `${family}${method}${weighted}: ${features}${grouping}`;
+}
+
+// A pinned model can be drawn or promoted on a dataset that has all of its features.
+export function hasFeatures(model: RegressionResult, featureKeys: string[]): boolean {
+  return model.features.every((f) => f === AREA || featureKeys.includes(f));
+}
+
+// Maximized Gaussian log-likelihood of the training residuals and its parameter count (the
+// intercept, the terms, any searched segment breakpoints and the error variance). Log-target
+// models add the Jacobian of log(price) so their likelihood is on the price scale like everyone
+// else's. Separate category models each have their own coefficients and variance, so their
+// parts are summed.
+function logLikelihood(points: DataPoint[], model: RegressionResult): { logLik: number; k: number } {
+  if (model.groups) {
+    const groups = model.groups;
+    return Object.keys(groups).reduce(
+      (acc, c) => {
+        const part = logLikelihood(points.filter((p) => p.category === c), groups[c]);
+        return { logLik: acc.logLik + part.logLik, k: acc.k + part.k };
+      },
+      { logLik: 0, k: 0 }
+    );
+  }
+  const n = points.length;
+  let rss = 0;
+  let jacobian = 0;
+  points.forEach((p) => {
+    rss += Math.pow(transformPrice(p.price, model.modelType) - predictFitted(p, model), 2);
+    if (isLogTarget(model.modelType)) jacobian += Math.log(p.price);
+  });
+  // Only searched breakpoints were estimated
+  const searched = (model.segmented?.breakpoints ?? []).filter((c) => c.searched).length;
+  const k = model.terms.length + searched + 2;
+  return { logLik: (-n / 2) * (Math.log((2 * Math.PI * rss) / n) + 1) - jacobian, k };
+}
+
+// AIC and BIC (lower is better). Robust fits are scored by the same least-squares likelihood.
+export function informationCriteria(points: DataPoint[], model: RegressionResult): { aic: number; bic: number } {
+  const n = points.length;
+  if (n === 0) return { aic: NaN, bic: NaN };
+  const { logLik, k } = logLikelihood(points, model);
+  return { aic: -2 * logLik + 2 * k, bic: -2 * logLik + k * Math.log(n) };
+}
+
+export function comparisonMetrics(points: DataPoint[], model: RegressionResult, cv: ErrorMetrics | null): ComparisonMetrics {
+  return {
+    n: points.length,
+    r2: model.r2,
+    adjR2: model.adjR2,
+    rmse: model.rmse,
+    mae: modelMetrics(points, model).mae,
+    ...informationCriteria(points, model),
+    cv,
+  };
+}
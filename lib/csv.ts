@@ -0,0 +1,208 @@
+import { DataPoint, Units } from "@/types";
+import { DEFAULT_UNITS, formatPlain, makeId, parseNumber } from "@/lib/format";
+import { validateArea, validateFeature, validatePrice, validateWeight } from "@/lib/validation";
+import { featureLabel, toFeatureKey } from "@/lib/features";
+import { normalizeSaleDate } from "@/lib/weights";
+
+export type Delimiter = "," | "\t" | ";";
+
+export interface ColumnMapping {
+  // null until a column is chosen for area
+  area: number | null;
+  price: number;
+  // Feature key -> column index for extra numeric columns
+  features: Record<string, number>;
+  // Text column holding the point category, if any
+  category: number | null;
+  // Columns holding the point weight and sale date, if any
+  weight: number | null;
+  date: number | null;
+}
+
+// Header names recognized as the point category
+export const CATEGORY_HEADER = /category|neighbou?rhood|district|property.?type/;
+const WEIGHT_HEADER = /^weight|reliability/;
+// "date" as a whole word ("_" and "-" separate words too, as in "sale_date"), or just "sold"
+const DATE_HEADER = /(^|[^a-z])date([^a-z]|$)|^sold( on)?$/;
+
+export interface RowError {
+  row: number;
+  message: string;
+}
+
+export interface MappedRows {
+  points: DataPoint[];
+  errors: RowError[];
+}
+
+// Picks the delimiter that appears most often in the first non-empty line.
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/).find((l) => l.trim() !== "") ?? "";
+  const candidates: Delimiter[] = ["\t", ";", ","];
+  let best: Delimiter = ",";
+  let bestCount = 0;
+  candidates.forEach((d) => {
+    const count = firstLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// Parses delimited text with RFC 4180 style quoting ("" escapes a quote).
+export function parseDelimited(text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+// Guesses the area/price columns from header names, falling back to the first two columns.
+// A category-like column (e.g. "Neighborhood") becomes the category, "Weight" and "Sale date"
+// columns the weight and date; every other named column is mapped as an extra feature.
+export function guessMapping(header: string[]): ColumnMapping {
+  const find = (pattern: RegExp) => header.findIndex((h) => pattern.test(h.trim().toLowerCase()));
+  const foundArea = find(/^(area|size|sq)/);
+  const foundPrice = find(/price|value|cost/);
+  // Without header names the columns are read as area then price; named columns are only
+  // mapped to area by name, since the first one may well be the price
+  const named = header.some((h) => h.trim() !== "");
+  const area = foundArea >= 0 ? foundArea : named ? null : 0;
+  const price = foundPrice >= 0 ? foundPrice : Math.min(1, header.length - 1);
+  const taken = [area, price];
+  const unused = (found: number) => {
+    if (found < 0 || taken.includes(found)) return null;
+    taken.push(found);
+    return found;
+  };
+  const category = unused(find(CATEGORY_HEADER));
+  const weight = unused(find(WEIGHT_HEADER));
+  const date = unused(find(DATE_HEADER));
+
+  const features: Record<string, number> = {};
+  header.forEach((h, i) => {
+    const key = toFeatureKey(h);
+    if (!taken.includes(i) && key !== "" && !(key in features)) features[key] = i;
+  });
+
+  return { area, price, features, category, weight, date };
+}
+
+export function mapRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  hasHeader: boolean,
+  units: Units = DEFAULT_UNITS
+): MappedRows {
+  const points: DataPoint[] = [];
+  const errors: RowError[] = [];
+  const body = hasHeader ? rows.slice(1) : rows;
+  const offset = hasHeader ? 2 : 1;
+
+  body.forEach((r, i) => {
+    const a = mapping.area !== null ? parseNumber(r[mapping.area] ?? "", units.locale) : NaN;
+    const p = parseNumber(r[mapping.price] ?? "", units.locale);
+    const areaError = mapping.area !== null ? validateArea(a, units) : "No column is chosen for area.";
+    const messages = [areaError, validatePrice(p, units)].filter((m): m is string => m !== null);
+
+    const features: Record<string, number> = {};
+    Object.entries(mapping.features).forEach(([key, col]) => {
+      const raw = r[col] ?? "";
+      if (raw.trim() === "") return;
+      const v = parseNumber(raw, units.locale);
+      const err = validateFeature(v);
+      if (err) messages.push(`${featureLabel(key)}: ${err}`);
+      else features[key] = v;
+    });
+
+    const rawWeight = mapping.weight !== null ? (r[mapping.weight] ?? "").trim() : "";
+    const weight = rawWeight !== "" ? parseNumber(rawWeight, units.locale) : undefined;
+    const weightError = weight !== undefined ? validateWeight(weight) : null;
+    if (weightError) messages.push(weightError);
+    const rawDate = mapping.date !== null ? (r[mapping.date] ?? "").trim() : "";
+    const date = rawDate !== "" ? normalizeSaleDate(rawDate) : undefined;
+    if (date === null) messages.push(`Sale date "${rawDate}" is not a recognized date.`);
+
+    if (messages.length > 0) {
+      errors.push({ row: i + offset, message: messages.join(" ") });
+      return;
+    }
+    const category = mapping.category !== null ? (r[mapping.category] ?? "").trim() : "";
+    points.push({
+      id: makeId(),
+      area: a,
+      price: p,
+      ...(Object.keys(features).length > 0 ? { features } : {}),
+      ...(category !== "" ? { category } : {}),
+      ...(weight !== undefined ? { weight } : {}),
+      ...(date ? { date } : {}),
+    });
+  });
+
+  return { points, errors };
+}
+
+function escapeField(value: string | number, locale?: string): string {
+  const s = typeof value === "number" && locale ? formatPlain(value, locale) : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// Numbers are written with `locale`'s decimal separator when one is given, so files the app
+// exports for a dataset import back into it unchanged.
+export function toCsv(header: string[], rows: Array<Array<string | number>>, locale?: string): string {
+  return [header, ...rows].map((r) => r.map((v) => escapeField(v, locale)).join(",")).join("\n") + "\n";
+}
+
+export function downloadText(filename: string, text: string, type = "text/csv"): void {
+  downloadBlob(filename, new Blob([text], { type }));
+}
+
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
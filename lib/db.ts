@@ -0,0 +1,122 @@
+import { Dataset, Workspace } from "@/types";
+import { emptyWorkspace, migrate, parseState, STORAGE_KEY } from "@/lib/storage";
+
+// IndexedDB layout: one record per dataset plus a small workspace record holding the
+// version, active dataset and display order. Saving only rewrites datasets that changed.
+const DB_NAME = STORAGE_KEY;
+const DB_VERSION = 1;
+const META = "meta";
+const DATASETS = "datasets";
+const BACKUP = "backup";
+const WORKSPACE_KEY = "workspace";
+
+interface WorkspaceRecord {
+  version: number;
+  activeId: string;
+  order: string[];
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+let opening: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!opening) {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+      if (!db.objectStoreNames.contains(DATASETS)) db.createObjectStore(DATASETS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(BACKUP)) db.createObjectStore(BACKUP);
+    };
+    opening = request(req);
+  }
+  return opening;
+}
+
+export function indexedDbAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function workspaceRecord(workspace: Workspace): WorkspaceRecord {
+  return { version: workspace.version, activeId: workspace.activeId, order: workspace.datasets.map((d) => d.id) };
+}
+
+async function writeAll(db: IDBDatabase, workspace: Workspace): Promise<void> {
+  const tx = db.transaction([META, DATASETS], "readwrite");
+  const datasets = tx.objectStore(DATASETS);
+  datasets.clear();
+  workspace.datasets.forEach((d) => datasets.put(d));
+  tx.objectStore(META).put(workspaceRecord(workspace), WORKSPACE_KEY);
+  await done(tx);
+}
+
+// Loads the workspace, moving data saved by older versions in localStorage over on first
+// run. Unreadable records are copied to the backup store rather than being overwritten.
+export async function loadWorkspaceDb(legacy: Storage | null): Promise<{ workspace: Workspace; warning: string | null }> {
+  const db = await openDb();
+  const readTx = db.transaction([META, DATASETS], "readonly");
+  const [record, stored] = (await Promise.all([
+    request(readTx.objectStore(META).get(WORKSPACE_KEY)),
+    request(readTx.objectStore(DATASETS).getAll()),
+  ])) as [WorkspaceRecord | undefined, Dataset[]];
+
+  if (!record) {
+    const raw = legacy?.getItem(STORAGE_KEY);
+    if (!raw) return { workspace: emptyWorkspace(), warning: null };
+    const workspace = migrate(parseState(raw));
+    await writeAll(db, workspace);
+    legacy!.removeItem(STORAGE_KEY);
+    return { workspace, warning: null };
+  }
+
+  const byId = new Map(stored.map((d) => [d.id, d]));
+  const payload = {
+    version: record.version,
+    activeId: record.activeId,
+    datasets: record.order.map((id) => byId.get(id)).filter((d): d is Dataset => !!d),
+  };
+  try {
+    const workspace = migrate(payload);
+    if (workspace.version !== record.version) await writeAll(db, workspace);
+    return { workspace, warning: null };
+  } catch (err) {
+    const tx = db.transaction(BACKUP, "readwrite");
+    tx.objectStore(BACKUP).put({ record, datasets: stored }, Date.now());
+    await done(tx);
+    const reason = err instanceof Error ? err.message : "Unreadable data";
+    return {
+      workspace: emptyWorkspace(),
+      warning: `Saved data could not be loaded (${reason}). A copy was kept in the browser database's "${BACKUP}" store.`,
+    };
+  }
+}
+
+// Writes only what differs from `previous` (compared by reference, since every edit
+// produces a new dataset object) and deletes datasets that were removed.
+export async function saveWorkspaceDb(previous: Workspace | null, next: Workspace): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([META, DATASETS], "readwrite");
+  const datasets = tx.objectStore(DATASETS);
+  const before = new Map((previous?.datasets ?? []).map((d) => [d.id, d]));
+  next.datasets.forEach((d) => {
+    if (before.get(d.id) !== d) datasets.put(d);
+    before.delete(d.id);
+  });
+  before.forEach((_, id) => datasets.delete(id));
+  tx.objectStore(META).put(workspaceRecord(next), WORKSPACE_KEY);
+  await done(tx);
+}
@@ -0,0 +1,53 @@
+import { DataPoint, PointDiagnostics, RegressionResult } from "@/types";
+import { predictFitted } from "@/lib/regression";
+import { termValue, transformPrice } from "@/lib/models";
+
+// Rule-of-thumb cut-offs used to flag points
+export const STUDENTIZED_LIMIT = 2;
+
+export function leverageLimit(model: RegressionResult): number {
+  return (2 * (model.terms.length + 1)) / model.n;
+}
+
+export function cooksLimit(model: RegressionResult): number {
+  return 4 / model.n;
+}
+
+// Leverage, externally studentized residuals and Cook's distance for the points a model
+// was trained on. Residuals are taken on the fitted scale (log price for log models).
+// The formulas assume an ordinary least-squares fit, so robust fits get no diagnostics.
+// Separate per-category models are diagnosed within each category. Weighted fits scale each
+// point's leverage by its weight and its residual by the square root of it.
+export function influenceDiagnostics(data: DataPoint[], model: RegressionResult): PointDiagnostics[] {
+  if (model.groups) {
+    const groups = model.groups;
+    return Object.keys(groups).flatMap((c) => influenceDiagnostics(data.filter((d) => d.category === c), groups[c]));
+  }
+  const p = model.terms.length + 1;
+  const { n, df, sigma } = model;
+  if (model.method !== "ols" || !(df > 1) || !(sigma > 0)) return [];
+  const s2 = sigma * sigma;
+
+  return data.map((d) => {
+    const x = [1, ...model.terms.map((t) => termValue(d, t))];
+    const w = model.weighting?.weights[d.id] ?? 1;
+    // h_ii = w x' (X'WX)^-1 x, with (X'WX)^-1 = covariance / sigma^2
+    const leverage =
+      (w * x.reduce((s, xi, i) => s + xi * x.reduce((t, xj, j) => t + model.covariance[i][j] * xj, 0), 0)) / s2;
+    const residual = Math.sqrt(w) * (transformPrice(d.price, model.modelType) - predictFitted(d, model));
+
+    const internal = residual / (sigma * Math.sqrt(1 - leverage));
+    const studentized = internal * Math.sqrt((n - p - 1) / Math.max(n - p - internal * internal, 1e-12));
+    const cooksDistance = (internal * internal * leverage) / (p * (1 - leverage));
+
+    return {
+      id: d.id,
+      leverage,
+      studentized,
+      cooksDistance,
+      highLeverage: leverage > leverageLimit(model),
+      outlier: Math.abs(studentized) > STUDENTIZED_LIMIT,
+      influential: cooksDistance > cooksLimit(model),
+    };
+  });
+}
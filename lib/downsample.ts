@@ -0,0 +1,47 @@
+// Scatter plots render one SVG node per point, which stalls Recharts well before 100k points.
+export const MAX_SCATTER_POINTS = 2000;
+
+function occupiedCells<T>(points: T[], x: (p: T) => number, y: (p: T) => number, grid: number, bounds: number[]) {
+  const [minX, maxX, minY, maxY] = bounds;
+  const sx = maxX > minX ? grid / (maxX - minX) : 0;
+  const sy = maxY > minY ? grid / (maxY - minY) : 0;
+  const kept = new Map<number, T>();
+  points.forEach((p) => {
+    const cx = Math.min(grid - 1, Math.floor((x(p) - minX) * sx));
+    const cy = Math.min(grid - 1, Math.floor((y(p) - minY) * sy));
+    const cell = cx * grid + cy;
+    if (!kept.has(cell)) kept.set(cell, p);
+  });
+  return kept;
+}
+
+// Keeps one point per cell of a grid over the plot area, choosing the finest grid that
+// stays within `max` points. Dense clusters collapse while sparse regions and outliers
+// keep every point, so the cloud keeps its shape. Below `max` points nothing is dropped.
+export function downsample<T>(points: T[], x: (p: T) => number, y: (p: T) => number, max = MAX_SCATTER_POINTS): T[] {
+  if (points.length <= max) return points;
+
+  const bounds = [Infinity, -Infinity, Infinity, -Infinity];
+  points.forEach((p) => {
+    bounds[0] = Math.min(bounds[0], x(p));
+    bounds[1] = Math.max(bounds[1], x(p));
+    bounds[2] = Math.min(bounds[2], y(p));
+    bounds[3] = Math.max(bounds[3], y(p));
+  });
+
+  // Occupied cells grow with the grid size, so binary search for the largest grid that fits
+  let lo = 1;
+  let hi = max;
+  let best = occupiedCells(points, x, y, 1, bounds);
+  while (lo <= hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    const kept = occupiedCells(points, x, y, mid, bounds);
+    if (kept.size <= max) {
+      best = kept;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return Array.from(best.values());
+}
@@ -0,0 +1,144 @@
+import { DataPoint, ErrorMetrics, Evaluation, FitOptions, RegressionResult, ValidationMode } from "@/types";
+import { calculateRegression, FitError, predictPrice } from "@/lib/regression";
+import { createRng, shuffle } from "@/lib/random";
+
+export interface ValidationOptions {
+  mode: ValidationMode;
+  // Fraction of points held out in "holdout" mode
+  testFraction: number;
+  // Number of folds in "kfold" mode
+  folds: number;
+  seed: number;
+}
+
+// Called after each model fit; `total` is the number of fits the run will make.
+export type ProgressCallback = (done: number, total: number) => void;
+
+export function errorMetrics(actual: number[], predicted: number[]): ErrorMetrics {
+  const n = actual.length;
+  if (n === 0) return { n: 0, rmse: NaN, mae: NaN, mape: NaN, r2: NaN };
+
+  const mean = actual.reduce((s, v) => s + v, 0) / n;
+  let ssRes = 0;
+  let ssTot = 0;
+  let absErr = 0;
+  let pctErr = 0;
+  actual.forEach((y, i) => {
+    const e = y - predicted[i];
+    ssRes += e * e;
+    ssTot += Math.pow(y - mean, 2);
+    absErr += Math.abs(e);
+    pctErr += Math.abs(e / y);
+  });
+
+  return {
+    n,
+    rmse: Math.sqrt(ssRes / n),
+    mae: absErr / n,
+    mape: pctErr / n,
+    r2: ssTot === 0 ? NaN : 1 - ssRes / ssTot,
+  };
+}
+
+export function modelMetrics(data: DataPoint[], model: RegressionResult): ErrorMetrics {
+  return errorMetrics(
+    data.map((d) => d.price),
+    data.map((d) => predictPrice(d, model))
+  );
+}
+
+export function splitTrainTest(
+  data: DataPoint[],
+  testFraction: number,
+  seed: number
+): { train: DataPoint[]; test: DataPoint[] } {
+  const shuffled = shuffle(data, createRng(seed));
+  const testSize = Math.min(data.length - 1, Math.max(1, Math.round(data.length * testFraction)));
+  const testIds = new Set(shuffled.slice(0, testSize).map((d) => d.id));
+  return {
+    train: data.filter((d) => !testIds.has(d.id)),
+    test: data.filter((d) => testIds.has(d.id)),
+  };
+}
+
+// Pooled out-of-fold metrics: every point is predicted once by a model that never saw it.
+export function crossValidate(
+  data: DataPoint[],
+  options: FitOptions,
+  folds: number,
+  seed: number,
+  onProgress?: ProgressCallback
+): ErrorMetrics {
+  if (folds < 2 || folds > data.length) {
+    throw new Error(`Folds must be between 2 and the number of points (${data.length})`);
+  }
+  const shuffled = shuffle(data, createRng(seed));
+  const actual: number[] = [];
+  const predicted: number[] = [];
+
+  for (let f = 0; f < folds; f++) {
+    const test = shuffled.filter((_, i) => i % folds === f);
+    const train = shuffled.filter((_, i) => i % folds !== f);
+    let model: RegressionResult;
+    try {
+      model = calculateRegression(train, options);
+    } catch (err) {
+      const prefix = `Fold ${f + 1} of ${folds}: `;
+      if (err instanceof FitError) {
+        throw new FitError(err.diagnostics.map((d) => ({ ...d, message: prefix + d.message })));
+      }
+      throw new Error(prefix + (err instanceof Error ? err.message : "failed to train"));
+    }
+    test.forEach((d) => {
+      actual.push(d.price);
+      predicted.push(predictPrice(d, model));
+    });
+    onProgress?.(f + 1, folds);
+  }
+
+  return errorMetrics(actual, predicted);
+}
+
+// Trains according to the validation mode. Hold-out trains on the training split only;
+// k-fold trains the returned model on all points and reports cross-validated error beside it.
+export function trainAndEvaluate(
+  data: DataPoint[],
+  options: FitOptions,
+  validation: ValidationOptions,
+  onProgress?: ProgressCallback
+): { model: RegressionResult; evaluation: Evaluation } {
+  const { mode, seed } = validation;
+
+  if (mode === "holdout") {
+    const { train, test } = splitTrainTest(data, validation.testFraction, seed);
+    const model = calculateRegression(train, options);
+    onProgress?.(1, 1);
+    return {
+      model,
+      evaluation: {
+        mode,
+        seed,
+        inSample: modelMetrics(train, model),
+        outOfSample: modelMetrics(test, model),
+        testIds: test.map((d) => d.id),
+      },
+    };
+  }
+
+  const total = mode === "kfold" ? validation.folds + 1 : 1;
+  const model = calculateRegression(data, options);
+  onProgress?.(1, total);
+  return {
+    model,
+    evaluation: {
+      mode,
+      seed,
+      inSample: modelMetrics(data, model),
+      outOfSample:
+        mode === "kfold"
+          ? crossValidate(data, options, validation.folds, seed, (done) => onProgress?.(done + 1, total))
+          : null,
+      testIds: [],
+    },
+  };
+}
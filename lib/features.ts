@@ -0,0 +1,54 @@
+import { DataPoint } from "@/types";
+
+export const AREA = "area";
+// Pseudo-feature for the point category, used in diagnostics and term labels
+export const CATEGORY = "category";
+
+export const SUGGESTED_FEATURES: Array<{ key: string; label: string }> = [
+  { key: "bedrooms", label: "Bedrooms" },
+  { key: "bathrooms", label: "Bathrooms" },
+  { key: "age", label: "Age (years)" },
+  { key: "lotSize", label: "Lot size" },
+];
+
+export function featureLabel(key: string): string {
+  if (key === AREA) return "Area";
+  if (key === CATEGORY) return "Category";
+  return SUGGESTED_FEATURES.find((f) => f.key === key)?.label ?? key;
+}
+
+// Reads a predictor from a point; area lives on the point itself, everything else under `features`.
+export function featureValue(p: Pick<DataPoint, "area" | "features">, key: string): number {
+  if (key === AREA) return p.area;
+  return p.features?.[key] ?? NaN;
+}
+
+// Extra feature keys present anywhere in the dataset, in first-seen order.
+export function collectFeatureKeys(data: DataPoint[]): string[] {
+  const keys: string[] = [];
+  data.forEach((p) => {
+    Object.keys(p.features ?? {}).forEach((k) => {
+      if (!keys.includes(k)) keys.push(k);
+    });
+  });
+  return keys;
+}
+
+// Distinct point categories, sorted.
+export function collectCategories(data: DataPoint[]): string[] {
+  return Array.from(new Set(data.map((p) => p.category).filter((c): c is string => !!c))).sort((a, b) =>
+    a.localeCompare(b)
+  );
+}
+
+// Turns a free-form column name into a key usable in `features`, e.g. "Lot size" -> "lotSize".
+export function toFeatureKey(name: string): string {
+  const words = name
+    .trim()
+    .replace(/[^A-Za-z0-9 ]+/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  return words
+    .map((w, i) => (i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1)))
+    .join("");
+}
@@ -0,0 +1,82 @@
+import { Units } from "@/types";
+
+export const DEFAULT_UNITS: Units = { area: "sq m", currency: "USD", locale: "en-US" };
+
+// Intl formatters are relatively expensive to build and tables format many cells
+const moneyFormats = new Map<string, Intl.NumberFormat>();
+
+export function formatMoney(value: number, units: Units = DEFAULT_UNITS): string {
+  if (!Number.isFinite(value)) return "-";
+  const key = `${units.locale}|${units.currency}`;
+  let format = moneyFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(units.locale, {
+      style: "currency",
+      currency: units.currency,
+      maximumFractionDigits: 0,
+    });
+    moneyFormats.set(key, format);
+  }
+  return format.format(value);
+}
+
+export function round(n: number, digits = 2): number {
+  const p = Math.pow(10, digits);
+  return Math.round(n * p) / p;
+}
+
+// Rounds to a step about 1/1000 of `span`, so 123.4567 on a 0–300 axis becomes 123.5 rather
+// than a long float.
+export function roundToAxis(value: number, span: number): number {
+  if (!(span > 0)) return value;
+  const step = Math.pow(10, Math.floor(Math.log10(span / 1000)));
+  const rounded = Math.round(value / step) * step;
+  return step < 1 ? Number(rounded.toFixed(-Math.log10(step))) : rounded;
+}
+
+function decimalSeparator(locale: string): string {
+  return new Intl.NumberFormat(locale).formatToParts(1.5).find((p) => p.type === "decimal")?.value ?? ".";
+}
+
+// Shortest round-tripping digits without grouping, with a decimal comma in locales that write
+// one, so parseNumber reads the text back as the same number in that locale.
+export function formatPlain(value: number, locale = DEFAULT_UNITS.locale): string {
+  const s = String(value);
+  return decimalSeparator(locale) === "," ? s.replace(".", ",") : s;
+}
+
+// Accepts both "1,234.5" and "1.234,5" (plus space or apostrophe grouping). When both
+// separators appear the last one is the decimal point; a lone separator followed by
+// exactly three digits (e.g. "1,234") is ambiguous: a decimal comma in locales that write one,
+// otherwise a decimal point.
+export function parseNumber(v: string, locale = DEFAULT_UNITS.locale): number {
+  const cleaned = v.trim().replace(/[\s\u00a0\u202f']/g, "");
+  if (cleaned === "") return NaN;
+
+  const lastComma = cleaned.lastIndexOf(",");
+  const lastDot = cleaned.lastIndexOf(".");
+  let decimal: string;
+  if (lastComma >= 0 && lastDot >= 0) {
+    decimal = lastComma > lastDot ? "," : ".";
+  } else if (lastComma < 0 && lastDot < 0) {
+    decimal = ".";
+  } else {
+    const sep = lastComma >= 0 ? "," : ".";
+    const repeated = cleaned.indexOf(sep) !== cleaned.lastIndexOf(sep);
+    const grouped = cleaned.length - cleaned.lastIndexOf(sep) - 1 === 3;
+    if (repeated) decimal = sep === "," ? "." : ",";
+    else if (grouped) decimal = decimalSeparator(locale) === "," ? "," : ".";
+    else decimal = sep;
+  }
+
+  const group = decimal === "," ? "." : ",";
+  return Number(cleaned.split(group).join("").replace(decimal, "."));
+}
+
+export function makeId(): string {
+  // Works in modern browsers; falls back to a timestamp+random string.
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const anyCrypto = globalThis.crypto as any;
+  if (anyCrypto?.randomUUID) return anyCrypto.randomUUID();
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
@@ -0,0 +1,145 @@
+import { DataPoint } from "@/types";
+import { createRng, shuffle } from "@/lib/random";
+
+// Gradient descent on price = m·area + b, for showing how a fit is found step by step.
+// calculateRegression solves the same problem in closed form.
+
+export type BatchMode = "batch" | "mini-batch" | "sgd";
+
+export const BATCH_MODES: Array<{ value: BatchMode; label: string }> = [
+  { value: "batch", label: "Batch (all points)" },
+  { value: "mini-batch", label: "Mini-batch" },
+  { value: "sgd", label: "Stochastic (one point)" },
+];
+
+export interface GradientOptions {
+  learningRate: number;
+  epochs: number;
+  batchMode: BatchMode;
+  batchSize: number;
+  // Standardize area before descending; m and b are always reported in raw units
+  scaleFeatures: boolean;
+}
+
+export const DEFAULT_GRADIENT_OPTIONS: GradientOptions = {
+  learningRate: 0.1,
+  epochs: 200,
+  batchMode: "mini-batch",
+  batchSize: 32,
+  scaleFeatures: true,
+};
+
+export const MAX_EPOCHS = 5000;
+
+// Shuffles are seeded so replaying the same settings retraces the same path
+const SHUFFLE_SEED = 1;
+
+// A loss this many times the starting loss means the learning rate is too high
+const DIVERGENCE_FACTOR = 1e6;
+
+export interface LossPoint {
+  epoch: number;
+  mse: number;
+}
+
+export interface GradientSnapshot {
+  epoch: number;
+  m: number;
+  b: number;
+  mse: number;
+  diverged: boolean;
+  done: boolean;
+}
+
+export interface GradientRun {
+  snapshot: () => GradientSnapshot;
+  // Runs one epoch; does nothing once finished or diverged
+  step: () => GradientSnapshot;
+  history: () => LossPoint[];
+}
+
+export function validateGradientOptions(options: GradientOptions): string | null {
+  if (!(options.learningRate > 0) || !Number.isFinite(options.learningRate)) {
+    return "Learning rate must be a positive number.";
+  }
+  if (!Number.isInteger(options.epochs) || options.epochs < 1 || options.epochs > MAX_EPOCHS) {
+    return `Epochs must be a whole number between 1 and ${MAX_EPOCHS}.`;
+  }
+  if (options.batchMode === "mini-batch" && (!Number.isInteger(options.batchSize) || options.batchSize < 1)) {
+    return "Batch size must be a whole number of at least 1.";
+  }
+  return null;
+}
+
+export function createGradientDescent(points: DataPoint[], options: GradientOptions): GradientRun {
+  const n = points.length;
+  if (n < 2) throw new Error("Insufficient data points");
+
+  const y = points.map((p) => p.price);
+  const mean = points.reduce((s, p) => s + p.area, 0) / n;
+  const sd = Math.sqrt(points.reduce((s, p) => s + Math.pow(p.area - mean, 2), 0) / n);
+  if (sd === 0) throw new Error("All points have the same area; there is no slope to learn");
+  const center = options.scaleFeatures ? mean : 0;
+  const scale = options.scaleFeatures ? sd : 1;
+  const x = points.map((p) => (p.area - center) / scale);
+
+  const size = options.batchMode === "batch" ? n : options.batchMode === "sgd" ? 1 : Math.min(options.batchSize, n);
+  const rng = createRng(SHUFFLE_SEED);
+  const indices = points.map((_, i) => i);
+
+  // Weights on the (possibly scaled) input: price ≈ w·x + w0
+  let w = 0;
+  let w0 = 0;
+  let epoch = 0;
+  let diverged = false;
+
+  const mse = () => {
+    let sum = 0;
+    for (let i = 0; i < n; i++) sum += Math.pow(y[i] - (w * x[i] + w0), 2);
+    return sum / n;
+  };
+
+  const initial = mse();
+  const history: LossPoint[] = [{ epoch: 0, mse: initial }];
+
+  const snapshot = (): GradientSnapshot => {
+    const last = history[history.length - 1].mse;
+    return {
+      epoch,
+      m: w / scale,
+      b: w0 - (w * center) / scale,
+      mse: last,
+      diverged,
+      done: diverged || epoch >= options.epochs,
+    };
+  };
+
+  return {
+    snapshot,
+    history: () => history,
+    step() {
+      if (diverged || epoch >= options.epochs) return snapshot();
+      const order = options.batchMode === "batch" ? indices : shuffle(indices, rng);
+      for (let start = 0; start < n; start += size) {
+        const end = Math.min(start + size, n);
+        // Gradient of the batch mean squared error
+        let gw = 0;
+        let g0 = 0;
+        for (let j = start; j < end; j++) {
+          const i = order[j];
+          const error = w * x[i] + w0 - y[i];
+          gw += error * x[i];
+          g0 += error;
+        }
+        const factor = (2 * options.learningRate) / (end - start);
+        w -= factor * gw;
+        w0 -= factor * g0;
+      }
+      epoch++;
+      const loss = mse();
+      history.push({ epoch, mse: loss });
+      if (!Number.isFinite(loss) || loss > initial * DIVERGENCE_FACTOR) diverged = true;
+      return snapshot();
+    },
+  };
+}
@@ -0,0 +1,118 @@
+export type Matrix = number[][];
+
+export function transpose(a: Matrix): Matrix {
+  if (a.length === 0) return [];
+  return a[0].map((_, j) => a.map((row) => row[j]));
+}
+
+export function multiply(a: Matrix, b: Matrix): Matrix {
+  const bt = transpose(b);
+  return a.map((row) => bt.map((col) => row.reduce((sum, v, k) => sum + v * col[k], 0)));
+}
+
+export function multiplyVector(a: Matrix, v: number[]): number[] {
+  return a.map((row) => row.reduce((sum, x, k) => sum + x * v[k], 0));
+}
+
+// Gauss–Jordan elimination with partial pivoting. Returns null for a singular matrix.
+export function invert(a: Matrix): Matrix | null {
+  const n = a.length;
+  const m = a.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (m[pivot][col] === 0) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    const pv = m[col][col];
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= pv;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col];
+      if (f === 0) continue;
+      for (let j = 0; j < 2 * n; j++) m[r][j] -= f * m[col][j];
+    }
+  }
+
+  return m.map((row) => row.slice(n));
+}
+
+// Columns whose Householder diagonal falls below this fraction of the largest one are
+// treated as linear combinations of the columns before them.
+export const RANK_TOLERANCE = 1e-10;
+
+export interface LeastSquaresFit {
+  beta: number[];
+  // Unscaled (X'WX)^-1, for coefficient covariances
+  xtxInv: Matrix;
+}
+
+// Householder QR of the (row-weighted) design, R returned as a p×p upper triangle. The
+// same reflections are applied to y so R beta = (Q'y)[0..p) gives the least-squares fit
+// without forming X'X, which would square the condition number.
+function householder(X: Matrix, y: number[], weights?: number[]): { R: Matrix; qty: number[] } {
+  const n = X.length;
+  const p = n > 0 ? X[0].length : 0;
+  const root = weights?.map(Math.sqrt);
+  const A = X.map((row, i) => (root ? row.map((v) => v * root[i]) : [...row]));
+  const b = root ? y.map((v, i) => v * root[i]) : [...y];
+
+  for (let k = 0; k < Math.min(p, n); k++) {
+    let norm = 0;
+    for (let i = k; i < n; i++) norm += A[i][k] * A[i][k];
+    norm = Math.sqrt(norm);
+    if (norm === 0) continue;
+    const alpha = A[k][k] > 0 ? -norm : norm;
+    const v = A.slice(k).map((row) => row[k]);
+    v[0] -= alpha;
+    const vv = v.reduce((s, vi) => s + vi * vi, 0);
+    if (vv === 0) continue;
+    for (let j = k; j < p; j++) {
+      let dot = 0;
+      for (let i = k; i < n; i++) dot += v[i - k] * A[i][j];
+      const f = (2 * dot) / vv;
+      for (let i = k; i < n; i++) A[i][j] -= f * v[i - k];
+    }
+    let dot = 0;
+    for (let i = k; i < n; i++) dot += v[i - k] * b[i];
+    const f = (2 * dot) / vv;
+    for (let i = k; i < n; i++) b[i] -= f * v[i - k];
+  }
+
+  const R = Array.from({ length: p }, (_, i) => Array.from({ length: p }, (_, j) => (j >= i && i < n ? A[i][j] : 0)));
+  return { R, qty: b.slice(0, p) };
+}
+
+function dependent(R: Matrix): number[] {
+  const largest = Math.max(0, ...R.map((row, i) => Math.abs(row[i])));
+  return R.map((row, i) => i).filter((i) => !(Math.abs(R[i][i]) > RANK_TOLERANCE * largest));
+}
+
+// Indices of columns that are (numerically) linear combinations of earlier columns.
+export function dependentColumns(X: Matrix): number[] {
+  return dependent(householder(X, X.map(() => 0)).R);
+}
+
+// Weighted least squares, beta = argmin sum w_i (y_i - x_i beta)^2, solved by QR.
+// Returns null when the design is rank deficient.
+export function leastSquares(X: Matrix, y: number[], weights?: number[]): LeastSquaresFit | null {
+  const { R, qty } = householder(X, y, weights);
+  const p = R.length;
+  if (p === 0 || dependent(R).length > 0) return null;
+
+  // Back substitution for R^-1, then (X'WX)^-1 = R^-1 R^-T
+  const Rinv: Matrix = Array.from({ length: p }, () => new Array(p).fill(0));
+  for (let j = 0; j < p; j++) {
+    Rinv[j][j] = 1 / R[j][j];
+    for (let i = j - 1; i >= 0; i--) {
+      let s = 0;
+      for (let k = i + 1; k <= j; k++) s += R[i][k] * Rinv[k][j];
+      Rinv[i][j] = -s / R[i][i];
+    }
+  }
+  return { beta: multiplyVector(Rinv, qty), xtxInv: multiply(Rinv, transpose(Rinv)) };
+}
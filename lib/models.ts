@@ -0,0 +1,154 @@
+import { DataPoint, GroupingMode, ModelType } from "@/types";
+import { AREA, CATEGORY, featureLabel, featureValue } from "@/lib/features";
+
+export const LOG_AREA = "log(area)";
+
+export const MODEL_TYPES: Array<{ type: ModelType; label: string }> = [
+  { type: "linear", label: "Linear: price ~ area" },
+  { type: "polynomial", label: "Polynomial: price ~ area + area² + …" },
+  { type: "log-log", label: "Log-log: log(price) ~ log(area)" },
+  { type: "log-linear", label: "Log-linear: log(price) ~ area" },
+  { type: "linear-log", label: "Linear-log: price ~ log(area)" },
+  { type: "segmented", label: "Segmented: price ~ area, broken at breakpoints" },
+];
+
+export const POLYNOMIAL_DEGREES = [2, 3, 4, 5];
+
+export const BREAKPOINT_COUNTS = [1, 2, 3];
+
+export const GROUPING_MODES: Array<{ mode: GroupingMode; label: string }> = [
+  { mode: "none", label: "Ignore categories" },
+  { mode: "intercepts", label: "Shared slopes, intercept per category" },
+  { mode: "separate", label: "Separate model per category" },
+];
+
+const CATEGORY_PREFIX = `${CATEGORY}=`;
+const HINGE_TERM = /^\(area-(.+)\)\+$/;
+const JUMP_TERM = /^area>(.+)$/;
+
+// Breakpoints moved to other area units can carry float noise, e.g. 1291.6699999999998
+const shortNumber = (v: number) => String(Number(v.toPrecision(6)));
+
+const SUPERSCRIPTS: Record<string, string> = { "2": "²", "3": "³", "4": "⁴", "5": "⁵" };
+
+export function powerTerm(k: number): string {
+  return k === 1 ? AREA : `${AREA}^${k}`;
+}
+
+// Power of area for "area" / "area^k" terms, null for anything else.
+export function termPower(term: string): number | null {
+  if (term === AREA) return 1;
+  const match = /^area\^(\d+)$/.exec(term);
+  return match ? Number(match[1]) : null;
+}
+
+// Dummy term that is 1 for points in the given category, e.g. "category=Downtown".
+export function categoryTerm(level: string): string {
+  return CATEGORY_PREFIX + level;
+}
+
+// Category of a dummy term, null for anything else.
+export function termCategory(term: string): string | null {
+  return term.startsWith(CATEGORY_PREFIX) ? term.slice(CATEGORY_PREFIX.length) : null;
+}
+
+// Change in slope past a breakpoint c: max(0, area - c), e.g. "(area-120)+".
+export function hingeTerm(c: number): string {
+  return `(${AREA}-${c})+`;
+}
+
+// Step at a breakpoint c for discontinuous segmented fits: 1 when area > c, e.g. "area>120".
+export function jumpTerm(c: number): string {
+  return `${AREA}>${c}`;
+}
+
+// Breakpoint of a hinge or jump term, null for anything else.
+export function termBreakpoint(term: string): number | null {
+  const match = HINGE_TERM.exec(term) ?? JUMP_TERM.exec(term);
+  return match ? Number(match[1]) : null;
+}
+
+// The same hinge or jump term at another breakpoint, for re-expressing a model in other area units.
+export function moveBreakpoint(term: string, c: number): string {
+  return HINGE_TERM.test(term) ? hingeTerm(c) : JUMP_TERM.test(term) ? jumpTerm(c) : term;
+}
+
+export function isLogTarget(type: ModelType): boolean {
+  return type === "log-log" || type === "log-linear";
+}
+
+// Design terms for a model: area enters according to the model family, other features linearly,
+// and every category but the first (reference) level gets an intercept shift.
+export function modelTerms(features: string[], type: ModelType, degree = 2, categories: string[] = []): string[] {
+  const terms: string[] = [];
+  features.forEach((f) => {
+    if (f !== AREA) {
+      terms.push(f);
+    } else if (type === "polynomial") {
+      for (let k = 1; k <= degree; k++) terms.push(powerTerm(k));
+    } else if (type === "log-log" || type === "linear-log") {
+      terms.push(LOG_AREA);
+    } else {
+      terms.push(AREA);
+    }
+  });
+  categories.slice(1).forEach((c) => terms.push(categoryTerm(c)));
+  return terms;
+}
+
+// Segmented fits add a hinge (and, when discontinuous, a jump) term after area for each breakpoint.
+export function withSegments(terms: string[], breakpoints: number[], continuous: boolean): string[] {
+  const segments = breakpoints.flatMap((c) => (continuous ? [hingeTerm(c)] : [hingeTerm(c), jumpTerm(c)]));
+  return terms.flatMap((t) => (t === AREA ? [AREA, ...segments] : [t]));
+}
+
+// Raw feature a design term is built from.
+export function termFeature(term: string): string {
+  if (termCategory(term) !== null) return CATEGORY;
+  return term === LOG_AREA || termPower(term) !== null || termBreakpoint(term) !== null ? AREA : term;
+}
+
+export function termValue(input: Pick<DataPoint, "area" | "features" | "category">, term: string): number {
+  if (term === LOG_AREA) return Math.log(input.area);
+  const category = termCategory(term);
+  if (category !== null) return input.category === category ? 1 : 0;
+  const k = termPower(term);
+  if (k !== null) return Math.pow(input.area, k);
+  const c = termBreakpoint(term);
+  if (c !== null) return HINGE_TERM.test(term) ? Math.max(0, input.area - c) : input.area > c ? 1 : 0;
+  return featureValue(input, term);
+}
+
+// Coefficient-table label, e.g. "Area²" or "log(Area)".
+export function termLabel(term: string): string {
+  if (term === LOG_AREA) return "log(Area)";
+  const category = termCategory(term);
+  if (category !== null) return `Category: ${category}`;
+  const k = termPower(term);
+  if (k !== null && k > 1) return `Area${SUPERSCRIPTS[String(k)] ?? `^${k}`}`;
+  const c = termBreakpoint(term);
+  if (c !== null) return HINGE_TERM.test(term) ? `Slope change at ${shortNumber(c)}` : `Jump at ${shortNumber(c)}`;
+  return featureLabel(term);
+}
+
+// Equation symbol; `short` uses x for area when area is the only feature.
+export function termSymbol(term: string, short: boolean): string {
+  const x = short ? "x" : "area";
+  if (term === LOG_AREA) return `ln(${x})`;
+  const category = termCategory(term);
+  if (category !== null) return `[${category}]`;
+  const k = termPower(term);
+  if (k === 1) return x;
+  if (k !== null) return `${x}${SUPERSCRIPTS[String(k)] ?? `^${k}`}`;
+  const c = termBreakpoint(term);
+  if (c !== null) return HINGE_TERM.test(term) ? `(${x} − ${shortNumber(c)})₊` : `[${x} > ${shortNumber(c)}]`;
+  return featureLabel(term).toLowerCase();
+}
+
+export function transformPrice(price: number, type: ModelType): number {
+  return isLogTarget(type) ? Math.log(price) : price;
+}
+
+export function untransformPrice(y: number, type: ModelType): number {
+  return isLogTarget(type) ? Math.exp(y) : y;
+}
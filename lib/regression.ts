@@ -1,55 +1,686 @@
-import { DataPoint, RegressionResult } from "@/types";
+import {
+  BreakpointEstimate,
+  CoefficientStats,
+  DataPoint,
+  FitDiagnostic,
+  FitOptions,
+  ModelType,
+  PredictionBand,
+  RegressionResult,
+  RegularizationInfo,
+  RobustInfo,
+  WeightingInfo,
+} from "@/types";
+import { AREA, CATEGORY, collectCategories, featureLabel, featureValue } from "@/lib/features";
+import { dependentColumns, leastSquares, multiply, multiplyVector, transpose } from "@/lib/matrix";
+import {
+  BREAKPOINT_COUNTS,
+  categoryTerm,
+  hingeTerm,
+  isLogTarget,
+  LOG_AREA,
+  modelTerms,
+  moveBreakpoint,
+  powerTerm,
+  termBreakpoint,
+  termFeature,
+  termLabel,
+  termPower,
+  termCategory,
+  termSymbol,
+  termValue,
+  transformPrice,
+  untransformPrice,
+  withSegments,
+} from "@/lib/models";
+import { huberFit, ransacFit, RobustFit, theilSenFit } from "@/lib/robust";
+import { isRegularized, mixingFor, RegularizedFit, regularizedFit } from "@/lib/regularized";
+import { findBreakpoints, segmentLines } from "@/lib/segmented";
+import { extent, tQuantile, tTwoSidedP } from "@/lib/stats";
+import { checkWeights, fitWeights } from "@/lib/weights";
 
-export function calculateRegression(data: DataPoint[]): RegressionResult {
-  const n = data.length;
-  if (n < 2) {
-    throw new Error("Insufficient data points");
+export type PredictionInput = Pick<DataPoint, "area" | "features" | "category">;
+
+export const INTERCEPT = "intercept";
+
+function formatCoefficient(v: number): string {
+  const abs = Math.abs(v);
+  return abs !== 0 && (abs < 1e-3 || abs >= 1e9) ? v.toExponential(4) : v.toFixed(4);
+}
+
+function formatEquation(result: Pick<RegressionResult, "modelType" | "features" | "terms" | "coefficients" | "b">): string {
+  const { modelType, features, terms, coefficients, b } = result;
+  const areaOnly = features.length === 1 && features[0] === AREA;
+
+  // Single-feature log models read better back-transformed to the price scale
+  if (areaOnly && modelType === "log-log") {
+    return `y = ${Math.exp(b).toFixed(4)}·x^${coefficients[LOG_AREA].toFixed(4)}`;
+  }
+  if (areaOnly && modelType === "log-linear") {
+    return `y = ${Math.exp(b).toFixed(4)}·e^(${formatCoefficient(coefficients[AREA])}x)`;
   }
+  if (areaOnly && modelType === "linear") {
+    return `y = ${coefficients[AREA].toFixed(4)}x + ${b.toFixed(2)}`;
+  }
+
+  const lhs = isLogTarget(modelType) ? "ln(y)" : "y";
+  const ordered = modelType === "polynomial" ? [...terms].reverse() : terms;
+  const rhs = ordered.map((t) => `${formatCoefficient(coefficients[t])}${areaOnly ? "" : "·"}${termSymbol(t, areaOnly)}`);
+  const constant = isLogTarget(modelType) ? b.toFixed(4) : b.toFixed(2);
+  return `${lhs} = ${[...rhs, constant].join(" + ").replace(/\+ -/g, "- ")}`;
+}
 
-  let sumX = 0;
-  let sumY = 0;
-  let sumXY = 0;
-  let sumXX = 0;
+// Polynomial terms are fitted in standardized z = (area - c) / s to keep the normal
+// equations well conditioned, then mapped back to raw powers of area. The returned
+// matrix M satisfies beta_raw = M beta_z, with rows/columns ordered [intercept, ...terms].
+function polynomialBasisMap(terms: string[], c: number, s: number): number[][] {
+  const size = terms.length + 1;
+  const M: number[][] = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+  const index = (j: number) => (j === 0 ? 0 : terms.indexOf(powerTerm(j)) + 1);
+  const binomial = (n: number, k: number) => {
+    let r = 1;
+    for (let i = 1; i <= k; i++) r = (r * (n - k + i)) / i;
+    return r;
+  };
 
-  data.forEach((p) => {
-    sumX += p.area;
-    sumY += p.price;
-    sumXY += p.area * p.price;
-    sumXX += p.area * p.area;
+  terms.forEach((t, col) => {
+    const k = termPower(t);
+    if (k === null) return;
+    for (let j = 0; j <= k; j++) {
+      M[index(j)][col + 1] = (binomial(k, j) * Math.pow(-c, k - j)) / Math.pow(s, k);
+    }
   });
+  return M;
+}
 
-  // Handle vertical line case (all X are same)
-  const denominator = n * sumXX - sumX * sumX;
-  if (denominator === 0) {
-      return { m: 0, b: 0, r2: 0, rmse: 0, equation: "Undefined (Vertical Line)" };
+function inference(terms: string[], beta: number[], covariance: number[][], df: number) {
+  const stats: Record<string, CoefficientStats> = {};
+  [INTERCEPT, ...terms].forEach((name, i) => {
+    const estimate = beta[i];
+    const stdError = Math.sqrt(covariance[i][i]);
+    const tStat = estimate / stdError;
+    stats[name] = { estimate, stdError, tStat, pValue: tTwoSidedP(tStat, df) };
+  });
+  return stats;
+}
+
+// Thrown when the data cannot support the requested fit; `diagnostics` explains why.
+export class FitError extends Error {
+  diagnostics: FitDiagnostic[];
+
+  constructor(diagnostics: FitDiagnostic[]) {
+    super(diagnostics.map((d) => d.message).join(" "));
+    this.name = "FitError";
+    this.diagnostics = diagnostics;
   }
+}
+
+// A feature whose spread is below this fraction of its magnitude is treated as constant:
+// any slope fitted to it would be driven by rounding rather than by the data.
+const CONSTANT_TOLERANCE = 1e-9;
+// Variance inflation above this marks a feature as nearly collinear with the others
+const VIF_LIMIT = 10;
 
-  const m = (n * sumXY - sumX * sumY) / denominator;
-  const b = (sumY - m * sumX) / n;
+function spread(values: number[]): { mean: number; sd: number; constant: boolean } {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((s, v) => s + Math.pow(v - mean, 2), 0) / values.length);
+  return { mean, sd, constant: !(sd > CONSTANT_TOLERANCE * Math.abs(mean)) };
+}
+
+function checkValues(data: DataPoint[], features: string[], terms: string[], modelType: ModelType): FitDiagnostic[] {
+  const issues: FitDiagnostic[] = [];
+  const badPrice = data.filter((p) => !Number.isFinite(p.price)).length;
+  if (badPrice > 0) {
+    issues.push({ issue: "non-finite", severity: "error", message: `${badPrice} point(s) have a missing or invalid price.` });
+  }
+  features.forEach((f) => {
+    const missing = data.filter((p) => !Number.isFinite(featureValue(p, f))).length;
+    if (missing > 0) {
+      issues.push({
+        issue: "non-finite",
+        severity: "error",
+        message: `${missing} point(s) are missing a value for ${featureLabel(f)}.`,
+        features: [f],
+      });
+    }
+  });
+  if (issues.length > 0) return issues;
+
+  // Values are finite but a log transform can still produce -Infinity or NaN
+  const badTransform = data.filter(
+    (p) =>
+      !Number.isFinite(transformPrice(p.price, modelType)) ||
+      terms.some((t) => !Number.isFinite(termValue(p, t)))
+  ).length;
+  if (badTransform > 0) {
+    issues.push({
+      issue: "non-finite",
+      severity: "error",
+      message: `${badTransform} point(s) have a zero or negative area or price, which this log model cannot use.`,
+      features: [AREA],
+    });
+  }
+  return issues;
+}
+
+// Category levels for a grouped fit. Every point needs a known category and every level needs points.
+function categoryLevels(data: DataPoint[], fixed?: string[]): string[] {
+  const levels = fixed ?? collectCategories(data);
+  const known = new Set(levels);
+  const unknown = data.filter((p) => !p.category || !known.has(p.category)).length;
+  if (unknown > 0) {
+    throw new FitError([
+      {
+        issue: "non-finite",
+        severity: "error",
+        message: `${unknown} point(s) have no category${fixed ? " or one that is not being fitted" : ""}.`,
+        features: [CATEGORY],
+      },
+    ]);
+  }
+  const empty = levels.filter((l) => !data.some((p) => p.category === l));
+  if (empty.length > 0) {
+    throw new FitError([
+      {
+        issue: "constant-x",
+        severity: "error",
+        message: `No points are in ${empty.map((l) => `"${l}"`).join(", ")}, so ${empty.length === 1 ? "that category" : "those categories"} cannot be estimated.`,
+        features: [CATEGORY],
+      },
+    ]);
+  }
+  if (levels.length < 2) {
+    throw new FitError([
+      {
+        issue: "constant-x",
+        severity: "error",
+        message: "Every point is in the same category, so there is nothing to group by.",
+        features: [CATEGORY],
+      },
+    ]);
+  }
+  return levels;
+}
 
-  // Calculate R2 and RMSE
+// R² and RMSE on the price scale, weighted by w when given (weighted mean and mean squared error).
+function priceFit(data: DataPoint[], predicted: number[], w?: number[]): { r2: number; rmse: number } {
+  const weight = (i: number) => (w ? w[i] : 1);
+  const total = data.reduce((s, _, i) => s + weight(i), 0);
+  const meanY = data.reduce((s, p, i) => s + weight(i) * p.price, 0) / total;
   let ssTot = 0;
   let ssRes = 0;
-  const meanY = sumY / n;
+  data.forEach((p, i) => {
+    ssTot += weight(i) * Math.pow(p.price - meanY, 2);
+    ssRes += weight(i) * Math.pow(p.price - predicted[i], 2);
+  });
+  return { r2: ssTot === 0 ? 0 : 1 - ssRes / ssTot, rmse: Math.sqrt(ssRes / total) };
+}
+
+// Weighted fits report weighted R²/RMSE on the model and keep the unweighted ones here.
+function weightingInfo(data: DataPoint[], predicted: number[], w: number[], options: FitOptions): WeightingInfo {
+  const mode = options.weighting ?? "none";
+  return {
+    mode,
+    ...(mode === "decay" || mode === "both" ? { halfLifeDays: options.halfLifeDays } : {}),
+    weights: Object.fromEntries(data.map((p, i) => [p.id, w[i]])),
+    ...priceFit(data, predicted),
+  };
+}
 
-  data.forEach((p) => {
-    const predictedY = m * p.area + b;
-    ssTot += Math.pow(p.price - meanY, 2);
-    ssRes += Math.pow(p.price - predictedY, 2);
+// Path coefficients keyed by term; the fit's own coefficients are mapped back to raw units separately.
+function regularizationInfo(fit: RegularizedFit, mixing: number, terms: string[]): RegularizationInfo {
+  return {
+    mixing,
+    lambda: fit.lambda,
+    ...(fit.lambda1se !== undefined ? { lambda1se: fit.lambda1se } : {}),
+    folds: fit.folds,
+    path: fit.path.map((s) => ({
+      lambda: s.lambda,
+      coefficients: Object.fromEntries(terms.map((t, j) => [t, s.beta[j + 1]])),
+      cvRmse: s.cvRmse,
+      cvSe: s.cvSe,
+    })),
+  };
+}
+
+// Throws when the points cannot be weighted as asked; returns null for unweighted fits.
+function priorWeights(data: DataPoint[], options: FitOptions): number[] | null {
+  const mode = options.weighting ?? "none";
+  if (mode === "none") return null;
+  if ((options.method ?? "ols") !== "ols") {
+    throw new Error("Weighted fits use ordinary least squares; switch the method or turn weighting off");
+  }
+  const issues = checkWeights(data, mode);
+  if (issues.length > 0) throw new FitError(issues);
+  return fitWeights(data, mode, options.halfLifeDays);
+}
+
+// Fits the options on each category's points. R² and RMSE are pooled over every point on
+// the price scale (weighted for weighted fits); coefficients and inference only exist on the group models.
+function fitSeparate(data: DataPoint[], options: FitOptions, levels: string[]): RegressionResult {
+  const groups: Record<string, RegressionResult> = {};
+  const failures: FitDiagnostic[] = [];
+  levels.forEach((level) => {
+    const prefix = `${level}: `;
+    try {
+      groups[level] = calculateRegression(
+        data.filter((p) => p.category === level),
+        { ...options, grouping: "none", categories: undefined }
+      );
+    } catch (err) {
+      if (!(err instanceof FitError)) throw new Error(prefix + (err instanceof Error ? err.message : "failed to fit"));
+      failures.push(...err.diagnostics.map((d) => ({ ...d, message: prefix + d.message })));
+    }
   });
+  if (failures.length > 0) throw new FitError(failures);
 
-  const r2 = ssTot === 0 ? 0 : 1 - ssRes / ssTot;
-  const rmse = Math.sqrt(ssRes / n);
+  const models = levels.map((l) => groups[l]);
+  const { modelType, degree, method, features, terms } = models[0];
+  const n = data.length;
+  // Group weights are relative to each group's latest sale, so the pooled ones are recomputed
+  const prior = priorWeights(data, options);
+  const predicted = data.map((p) => predictPrice(p, groups[p.category!]));
+  const { r2, rmse } = priceFit(data, predicted, prior ?? undefined);
+  const params = models.reduce((s, m) => s + m.terms.length + 1, 0);
+  const df = models.reduce((s, m) => s + m.df, 0);
+
+  const size = terms.length + 1;
+  const covariance = Array.from({ length: size }, () => Array.from({ length: size }, () => NaN));
+  const warnings = levels.flatMap((l) => (groups[l].warnings ?? []).map((d) => ({ ...d, message: `${l}: ${d.message}` })));
+  let robust: RobustInfo | undefined;
+  if (method !== "ols" && !isRegularized(method)) {
+    robust = { iterations: Math.max(...models.map((m) => m.robust?.iterations ?? 0)) };
+    if (models.every((m) => m.robust?.weights)) robust.weights = Object.assign({}, ...models.map((m) => m.robust!.weights));
+    if (models.every((m) => m.robust?.inlierIds)) robust.inlierIds = models.flatMap((m) => m.robust!.inlierIds!);
+  }
 
   return {
-    m,
+    m: NaN,
+    b: NaN,
+    r2,
+    adjR2: n - params > 0 && data.some((p) => p.price !== data[0].price) ? 1 - ((1 - r2) * (n - 1)) / (n - params) : NaN,
+    rmse,
+    equation: "Separate model per category",
+    modelType,
+    degree,
+    method,
+    ...(robust ? { robust } : {}),
+    ...(prior ? { weighting: weightingInfo(data, predicted, prior, options) } : {}),
+    features,
+    terms,
+    coefficients: Object.fromEntries(terms.map((t) => [t, NaN])),
+    coefficientStats: inference(terms, Array.from({ length: size }, () => NaN), covariance, df),
+    n,
+    df,
+    sigma: NaN,
+    covariance,
+    ...(warnings.length > 0 ? { warnings } : {}),
+    grouping: "separate",
+    categories: levels,
+    groups,
+  };
+}
+
+export function calculateRegression(data: DataPoint[], options: FitOptions = {}): RegressionResult {
+  const { features = [AREA], modelType = "linear", degree = 2, method = "ols", grouping = "none" } = options;
+  const n = data.length;
+  if (features.length === 0) {
+    throw new Error("Select at least one feature");
+  }
+  if (modelType !== "linear" && !features.includes(AREA)) {
+    throw new Error("This model type needs the area feature");
+  }
+
+  const categories = grouping === "none" ? [] : categoryLevels(data, options.categories);
+  if (grouping === "separate") return fitSeparate(data, options, categories);
+
+  const segmented = modelType === "segmented";
+  const continuous = options.continuous ?? true;
+  const breakpointCount = options.breakpoints?.length ?? options.breakpointCount ?? 1;
+  if (segmented && !BREAKPOINT_COUNTS.includes(breakpointCount)) {
+    throw new Error(
+      `Segmented fits take ${BREAKPOINT_COUNTS[0]} to ${BREAKPOINT_COUNTS[BREAKPOINT_COUNTS.length - 1]} breakpoints`
+    );
+  }
+  if (segmented && options.breakpoints?.some((c, i, all) => !Number.isFinite(c) || (i > 0 && c <= all[i - 1]))) {
+    throw new Error("Breakpoints must be numbers in ascending order");
+  }
+
+  // Segmented fits add their hinge and jump terms once the breakpoints are known
+  const baseTerms = modelTerms(features, modelType, degree, categories);
+  const k = baseTerms.length + (segmented ? breakpointCount * (continuous ? 1 : 2) : 0);
+  // The penalty keeps regularized fits defined with more terms than points
+  const regularized = isRegularized(method);
+  if (regularized ? n < 3 : n < k + 1) {
+    throw new Error(
+      n < 2
+        ? "Insufficient data points"
+        : regularized
+          ? "Need at least 3 points to choose λ by cross-validation"
+          : `Need at least ${k + 1} points to fit ${k} terms`
+    );
+  }
+  const mixing = mixingFor(method, options.mixing);
+  if (regularized && !(mixing >= 0 && mixing <= 1)) throw new Error("Elastic-net mixing must be between 0 and 1");
+  if (regularized && options.lambda !== undefined && !(options.lambda >= 0)) {
+    throw new Error("λ must be zero or a positive number");
+  }
+
+  const invalid = checkValues(data, features, baseTerms, modelType);
+  if (invalid.length > 0) throw new FitError(invalid);
+  const prior = priorWeights(data, options);
+
+  const constant = features.filter((f) => spread(data.map((p) => featureValue(p, f))).constant);
+  if (constant.length > 0) {
+    throw new FitError(
+      constant.map((f) => ({
+        issue: "constant-x",
+        severity: "error",
+        message: `Every point has (nearly) the same ${featureLabel(f)}, so its effect on price cannot be estimated.`,
+        features: [f],
+      }))
+    );
+  }
+
+  // Breakpoints are searched with the other terms and the weights they will be fitted with
+  let breakpoints: BreakpointEstimate[] = [];
+  if (segmented) {
+    breakpoints = options.breakpoints
+      ? options.breakpoints.map((value) => ({ value, searched: false }))
+      : findBreakpoints(data, baseTerms, breakpointCount, continuous, prior);
+  }
+  const terms = segmented ? withSegments(baseTerms, breakpoints.map((c) => c.value), continuous) : baseTerms;
+  // Searched breakpoints are parameters too, which costs residual degrees of freedom
+  const searched = segmented && !options.breakpoints ? breakpointCount : 0;
+
+  const polynomial = modelType === "polynomial";
+  const meanArea = data.reduce((s, p) => s + p.area, 0) / n;
+  const sdArea = Math.sqrt(data.reduce((s, p) => s + Math.pow(p.area - meanArea, 2), 0) / n);
+  const basis = (p: DataPoint) =>
+    polynomial ? { ...p, area: (p.area - meanArea) / sdArea } : p;
+
+  // Every design column is centered and scaled before fitting so large prices and areas do
+  // not swamp the intercept; S maps the standardized coefficients back (beta = S beta_z).
+  const columns = terms.map((t) => data.map((p) => termValue(basis(p), t)));
+  // A constant column (e.g. area² when the areas are ±c about their mean) is left unscaled;
+  // once centered it is all zeros and shows up below as a dependent column.
+  const scaling = columns.map((c) => {
+    const { mean, sd, constant } = spread(c);
+    return { mean, sd: constant ? 1 : sd };
+  });
+  const S: number[][] = Array.from({ length: k + 1 }, (_, i) => Array.from({ length: k + 1 }, (_, j) => (i === j ? 1 : 0)));
+  scaling.forEach(({ mean, sd }, j) => {
+    S[j + 1][j + 1] = 1 / sd;
+    S[0][j + 1] = -mean / sd;
+  });
+
+  // Design matrix with a leading column of ones for the intercept
+  const X = data.map((_, i) => [1, ...columns.map((c, j) => (c[i] - scaling[j].mean) / scaling[j].sd)]);
+  const y = data.map((p) => transformPrice(p.price, modelType));
+
+  // Weighted least squares scales each squared residual by the point's weight. sigma is then the
+  // error of a weight-1 sale (a verified one on the latest date), which prediction intervals assume.
+  // Penalized fits cope with redundant and nearly collinear terms, so they skip both checks
+  const ols = regularized ? null : leastSquares(X, y, prior ?? undefined);
+  if (!ols && !regularized) {
+    const redundant = dependentColumns(X).filter((j) => j > 0).map((j) => terms[j - 1]);
+    throw new FitError([
+      {
+        issue: "collinear",
+        severity: "error",
+        message: `${redundant.map(termLabel).join(", ")} can be written as a combination of the other terms; remove a redundant feature.`,
+        features: Array.from(new Set(redundant.map(termFeature))),
+      },
+    ]);
+  }
+
+  // Variance inflation factors: with standardized columns VIF_j = n·[(X'X)^-1]_jj (the total
+  // weight replaces n for weighted fits). Powers of area, its segment terms and the dummies of one
+  // category are correlated by construction, so only the other features are reported.
+  const totalWeight = prior ? prior.reduce((s, v) => s + v, 0) : n;
+  const vif = ols ? terms.map((_, j) => totalWeight * ols.xtxInv[j + 1][j + 1]) : [];
+  const inflated = terms.filter(
+    (t, j) =>
+      vif[j] > VIF_LIMIT && !((polynomial || segmented) && termFeature(t) === AREA) && termFeature(t) !== CATEGORY
+  );
+  const warnings: FitDiagnostic[] = [];
+  if (inflated.length > 0) {
+    const worst = Math.max(...inflated.map((t) => vif[terms.indexOf(t)]));
+    warnings.push({
+      issue: "ill-conditioned",
+      severity: "warning",
+      message:
+        `${inflated.map(termLabel).join(", ")} ${inflated.length === 1 ? "is" : "are"} nearly collinear with ` +
+        `the other features (VIF ${Math.round(worst)}), so individual coefficients are unstable even if predictions are fine.`,
+      features: Array.from(new Set(inflated.map(termFeature))),
+    });
+  }
+  if (spread(y).constant) {
+    warnings.push({
+      issue: "constant-y",
+      severity: "warning",
+      message: "Every point has (nearly) the same price, so R² is undefined and the slopes are zero.",
+    });
+  }
+
+  let fit: RobustFit;
+  let penalized: RegularizedFit | null = null;
+  if (method === "huber") fit = huberFit(X, y, options.huberK);
+  else if (method === "theil-sen") fit = theilSenFit(X, y, options.seed ?? 0);
+  else if (method === "ransac") fit = ransacFit(X, y, options.ransacThreshold, options.seed ?? 0);
+  else if (ols) fit = { beta: ols.beta, xtxInv: ols.xtxInv, iterations: 1 };
+  else fit = penalized = regularizedFit(X, y, mixing, { lambda: options.lambda, seed: options.seed ?? 0 });
+  const betaFit = fit.beta;
+
+  // Fitted values on the model's own scale
+  const fitted = X.map((row) => row.reduce((s, v, j) => s + v * betaFit[j], 0));
+
+  // Calculate R2 and RMSE on the price scale so every model family is comparable
+  const predicted = fitted.map((f) => untransformPrice(f, modelType));
+  const { r2, rmse } = priceFit(data, predicted, prior ?? undefined);
+
+  // Robust fits estimate sigma from their final weights (Huber) or consensus set (RANSAC)
+  const w = fit.weights ?? fit.inliers?.map((inlier) => (inlier ? 1 : 0)) ?? prior ?? y.map(() => 1);
+  const ssResFit = y.reduce((s, yi, i) => s + w[i] * Math.pow(yi - fitted[i], 2), 0);
+
+  // Inference: sigma^2 (X'X)^-1 is the coefficient covariance; undefined with no residual df.
+  // Penalized fits count only their nonzero coefficients and have no analytic covariance.
+  const active = penalized ? betaFit.slice(1).filter((v) => v !== 0).length : k;
+  const df = w.filter((wi) => wi > 0).length - active - searched - 1;
+  const sigma = df > 0 ? Math.sqrt(ssResFit / df) : NaN;
+  const adjR2 =
+    df > 0 && data.some((p) => p.price !== data[0].price)
+      ? 1 - ((1 - r2) * (n - 1)) / (n - active - searched - 1)
+      : NaN;
+  const xtxInv = fit.xtxInv;
+  let covariance = xtxInv
+    ? xtxInv.map((row) => row.map((v) => v * sigma * sigma))
+    : X[0].map(() => X[0].map(() => NaN));
+  const T = polynomial ? multiply(polynomialBasisMap(terms, meanArea, sdArea), S) : S;
+  const beta = multiplyVector(T, betaFit);
+  covariance = multiply(multiply(T, covariance), transpose(T));
+
+  const b = beta[0];
+  const coefficients: Record<string, number> = {};
+  terms.forEach((t, i) => {
+    coefficients[t] = beta[i + 1];
+  });
+
+  const coefficientStats = inference(terms, beta, covariance, df);
+
+  let robust: RobustInfo | undefined;
+  if (method !== "ols" && !penalized) {
+    robust = { iterations: fit.iterations };
+    if (fit.weights) robust.weights = Object.fromEntries(data.map((p, i) => [p.id, fit.weights![i]]));
+    if (fit.inliers) robust.inlierIds = data.filter((_, i) => fit.inliers![i]).map((p) => p.id);
+  }
+
+  const result = {
+    m: coefficients[AREA] ?? coefficients[LOG_AREA] ?? 0,
     b,
     r2,
+    adjR2,
     rmse,
-    equation: `y = ${m.toFixed(4)}x + ${b.toFixed(2)}`,
+    modelType,
+    degree,
+    method,
+    ...(robust ? { robust } : {}),
+    ...(penalized ? { regularization: regularizationInfo(penalized, mixing, terms) } : {}),
+    ...(segmented
+      ? {
+          segmented: {
+            continuous,
+            breakpoints,
+            segments: segmentLines({ terms, coefficients, b, covariance }, ...extent(data.map((p) => p.area))),
+          },
+        }
+      : {}),
+    ...(prior ? { weighting: weightingInfo(data, predicted, prior, options) } : {}),
+    features,
+    terms,
+    coefficients,
+    coefficientStats,
+    n,
+    df,
+    sigma,
+    covariance,
+    ...(warnings.length > 0 ? { warnings } : {}),
+    ...(categories.length > 0 ? { grouping, categories } : {}),
   };
+  return { ...result, equation: formatEquation(result) };
+}
+
+// Model of the input's category for "separate" grouping, undefined for unknown categories.
+export function groupModel(model: RegressionResult, category: string | undefined): RegressionResult | undefined {
+  return model.groups && category !== undefined && model.categories?.includes(category)
+    ? model.groups[category]
+    : undefined;
+}
+
+// Equation for one category: its own model under "separate" grouping, otherwise the shared
+// slopes with the category's intercept shift folded into the constant.
+export function categoryEquation(model: RegressionResult, category: string): string {
+  const group = groupModel(model, category);
+  if (group) return group.equation;
+  const shift = model.coefficients[categoryTerm(category)] ?? 0;
+  return formatEquation({ ...model, terms: model.terms.filter((t) => termCategory(t) === null), b: model.b + shift });
 }
 
-export function predictPrice(area: number, m: number, b: number): number {
-    return m * area + b;
+// Prediction on the model's fitted scale (log price for log-target families). Grouped models
+// predict NaN for inputs without one of their categories.
+export function predictFitted(input: PredictionInput, model: RegressionResult): number {
+  if (model.groups) {
+    const group = groupModel(model, input.category);
+    return group ? predictFitted(input, group) : NaN;
+  }
+  if (model.categories && !(input.category !== undefined && model.categories.includes(input.category))) return NaN;
+  return model.terms.reduce((y, t) => y + model.coefficients[t] * termValue(input, t), model.b);
+}
+
+// Log-target models are back-transformed with exp(), i.e. they predict the median price.
+export function predictPrice(input: PredictionInput, model: RegressionResult): number {
+  return untransformPrice(predictFitted(input, model), model.modelType);
+}
+
+// Point estimate with a confidence interval for the mean response and a prediction
+// interval for a single new house, both at the given level (e.g. 0.95). Intervals are
+// computed on the fitted scale and back-transformed, so log models get skewed bands.
+export function predictWithInterval(input: PredictionInput, model: RegressionResult, level = 0.95): PredictionBand {
+  if (model.groups) {
+    const group = groupModel(model, input.category);
+    return group ? predictWithInterval(input, group, level) : { price: NaN, confidence: [NaN, NaN], prediction: [NaN, NaN] };
+  }
+  const fit = predictFitted(input, model);
+  const x0 = [1, ...model.terms.map((t) => termValue(input, t))];
+  const fitVariance = x0.reduce((s, xi, i) => s + xi * x0.reduce((t, xj, j) => t + model.covariance[i][j] * xj, 0), 0);
+  const t = tQuantile(1 - (1 - level) / 2, model.df);
+  const seFit = Math.sqrt(fitVariance);
+  const sePred = Math.sqrt(model.sigma * model.sigma + fitVariance);
+  const back = (v: number) => untransformPrice(v, model.modelType);
+  return {
+    price: back(fit),
+    confidence: [back(fit - t * seFit), back(fit + t * seFit)],
+    prediction: [back(fit - t * sePred), back(fit + t * sePred)],
+  };
+}
+
+// Intervals need residual degrees of freedom and an analytic covariance (Theil–Sen has none).
+export function supportsIntervals(model: RegressionResult): boolean {
+  if (model.groups) return Object.values(model.groups).every(supportsIntervals);
+  return model.df > 0 && Number.isFinite(model.sigma) && Number.isFinite(model.covariance[0][0]);
+}
+
+// Re-expresses a fitted model for areas measured in a different unit (area' = factor·area)
+// without refitting. With beta' = A·beta, area^k coefficients scale by factor^-k, log(area)
+// terms move the intercept by -coef·ln(factor), and the covariance becomes A·Cov·A'. Segment
+// breakpoints move to factor·c, so hinge coefficients scale by 1/factor and jumps stay put.
+// Predictions, residuals, R² and RMSE are unchanged.
+export function rescaleArea(model: RegressionResult, factor: number): RegressionResult {
+  if (model.groups) {
+    const groups = model.groups;
+    return {
+      ...model,
+      groups: Object.fromEntries(Object.keys(groups).map((c) => [c, rescaleArea(groups[c], factor)])),
+    };
+  }
+  const size = model.terms.length + 1;
+  const A: number[][] = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+  model.terms.forEach((t, i) => {
+    const k = termPower(t);
+    if (k !== null) A[i + 1][i + 1] = Math.pow(factor, -k);
+    if (t === LOG_AREA) A[0][i + 1] = -Math.log(factor);
+    const c = termBreakpoint(t);
+    if (c !== null && t === hingeTerm(c)) A[i + 1][i + 1] = 1 / factor;
+  });
+  const move = (t: string) => {
+    const c = termBreakpoint(t);
+    return c === null ? t : moveBreakpoint(t, c * factor);
+  };
+  const terms = model.terms.map(move);
+
+  const beta = multiplyVector(A, [model.b, ...model.terms.map((t) => model.coefficients[t])]);
+  const covariance = multiply(multiply(A, model.covariance), transpose(A));
+  const coefficients = Object.fromEntries(terms.map((t, i) => [t, beta[i + 1]]));
+  const { segmented, regularization } = model;
+  const result: RegressionResult = {
+    ...model,
+    m: coefficients[AREA] ?? coefficients[LOG_AREA] ?? 0,
+    b: beta[0],
+    terms,
+    coefficients,
+    coefficientStats: inference(terms, beta, covariance, model.df),
+    covariance,
+    ...(segmented
+      ? {
+          segmented: {
+            ...segmented,
+            breakpoints: segmented.breakpoints.map(({ value, searched, interval }) => ({
+              value: value * factor,
+              searched,
+              ...(interval ? { interval: [interval[0] * factor, interval[1] * factor] as [number, number] } : {}),
+            })),
+            segments: segmented.segments.map((s) => ({
+              ...s,
+              from: s.from * factor,
+              to: s.to * factor,
+              slope: s.slope / factor,
+              slopeStdError: s.slopeStdError / factor,
+            })),
+          },
+        }
+      : {}),
+    // Path coefficients are on standardized terms, so only the segment terms are renamed
+    ...(regularization && segmented
+      ? {
+          regularization: {
+            ...regularization,
+            path: regularization.path.map((s) => ({
+              ...s,
+              coefficients: Object.fromEntries(Object.entries(s.coefficients).map(([t, v]) => [move(t), v])),
+            })),
+          },
+        }
+      : {}),
+  };
+  return { ...result, equation: formatEquation(result) };
 }
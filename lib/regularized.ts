@@ -0,0 +1,211 @@
+import { FitMethod, RegularizationInfo } from "@/types";
+import { Matrix } from "@/lib/matrix";
+import { createRng, shuffle } from "@/lib/random";
+import { RobustFit } from "@/lib/robust";
+
+// Penalized least squares (glmnet's parameterization): minimize
+//   1/(2n)·Σ(y - b0 - x'β)² + λ·[(1 - a)/2·‖β‖² + a·‖β‖₁]
+// over the standardized design columns, leaving the intercept unpenalized. a is the mixing:
+// 0 gives ridge, 1 lasso, anything between an elastic net. y is standardized too, so λ is
+// unitless and means the same for prices and log prices.
+
+export const DEFAULT_MIXING = 0.5;
+export const REGULARIZATION_FOLDS = 5;
+// The path runs from the smallest λ that zeroes every coefficient down to LAMBDA_RATIO times
+// the lasso's; ridge never zeroes them, so its path starts where a nearly-ridge penalty would.
+const LAMBDA_COUNT = 60;
+const LAMBDA_RATIO = 1e-4;
+const MIN_MIXING_FOR_PATH = 1e-3;
+const MAX_SWEEPS = 1000;
+const TOLERANCE = 1e-9;
+
+// A step of the λ path with coefficients as [intercept, ...slopes] on the standardized columns
+export interface PathStep {
+  lambda: number;
+  beta: number[];
+  cvRmse: number;
+  cvSe: number;
+}
+
+export interface RegularizedFit extends RobustFit, Omit<RegularizationInfo, "mixing" | "path"> {
+  path: PathStep[];
+}
+
+export function isRegularized(method: FitMethod): boolean {
+  return method === "ridge" || method === "lasso" || method === "elastic-net";
+}
+
+export function mixingFor(method: FitMethod, mixing = DEFAULT_MIXING): number {
+  return method === "ridge" ? 0 : method === "lasso" ? 1 : mixing;
+}
+
+// Sums over a set of rows, so a fold's training moments are the total minus the fold's
+interface Sums {
+  n: number;
+  x: number[];
+  y: number;
+  yy: number;
+  xx: number[][];
+  xy: number[];
+}
+
+function sums(X: Matrix, y: number[], rows: number[]): Sums {
+  const p = X[0].length - 1;
+  const s: Sums = {
+    n: rows.length,
+    x: Array(p).fill(0),
+    y: 0,
+    yy: 0,
+    xx: Array.from({ length: p }, () => Array(p).fill(0)),
+    xy: Array(p).fill(0),
+  };
+  rows.forEach((i) => {
+    const row = X[i];
+    s.y += y[i];
+    s.yy += y[i] * y[i];
+    for (let j = 0; j < p; j++) {
+      const v = row[j + 1];
+      s.x[j] += v;
+      s.xy[j] += v * y[i];
+      for (let l = 0; l < p; l++) s.xx[j][l] += v * row[l + 1];
+    }
+  });
+  return s;
+}
+
+function minus(a: Sums, b: Sums): Sums {
+  return {
+    n: a.n - b.n,
+    x: a.x.map((v, j) => v - b.x[j]),
+    y: a.y - b.y,
+    yy: a.yy - b.yy,
+    xx: a.xx.map((row, j) => row.map((v, l) => v - b.xx[j][l])),
+    xy: a.xy.map((v, j) => v - b.xy[j]),
+  };
+}
+
+// Covariances of the centered columns (each divided by n), which is all coordinate descent needs
+function centered(s: Sums) {
+  const meanX = s.x.map((v) => v / s.n);
+  const meanY = s.y / s.n;
+  const gram = s.xx.map((row, j) => row.map((v, l) => v / s.n - meanX[j] * meanX[l]));
+  const cov = s.xy.map((v, j) => v / s.n - meanX[j] * meanY);
+  const sdY = Math.sqrt(Math.max(s.yy / s.n - meanY * meanY, 0));
+  return { meanX, meanY, gram, cov, sdY };
+}
+
+type Centered = ReturnType<typeof centered>;
+
+function softThreshold(z: number, t: number): number {
+  return z > t ? z - t : z < -t ? z + t : 0;
+}
+
+// Cyclic coordinate descent from `start` (a warm start from the previous λ on the path), until
+// no coefficient moves the fitted values by more than TOLERANCE standard deviations of y.
+function descend(c: Centered, lambda: number, mixing: number, start: number[]): { beta: number[]; sweeps: number } {
+  const beta = [...start];
+  const p = beta.length;
+  let sweeps = 0;
+  while (sweeps < MAX_SWEEPS) {
+    sweeps++;
+    let change = 0;
+    for (let j = 0; j < p; j++) {
+      const denominator = c.gram[j][j] + lambda * (1 - mixing);
+      let z = c.cov[j];
+      for (let l = 0; l < p; l++) if (l !== j) z -= c.gram[j][l] * beta[l];
+      const next = denominator > 0 ? softThreshold(z, lambda * mixing) / denominator : 0;
+      change = Math.max(change, Math.abs(next - beta[j]) * Math.sqrt(c.gram[j][j]));
+      beta[j] = next;
+    }
+    if (change <= TOLERANCE * c.sdY) break;
+  }
+  return { beta, sweeps };
+}
+
+function intercept(c: Centered, beta: number[]): number {
+  return c.meanY - c.meanX.reduce((s, m, j) => s + m * beta[j], 0);
+}
+
+function lambdaPath(c: Centered, mixing: number): number[] {
+  const lasso = Math.max(...c.cov.map(Math.abs)) || 1;
+  const top = lasso / Math.max(mixing, MIN_MIXING_FOR_PATH);
+  const ratio = (lasso * LAMBDA_RATIO) / top;
+  return Array.from({ length: LAMBDA_COUNT }, (_, i) => top * Math.pow(ratio, i / (LAMBDA_COUNT - 1)));
+}
+
+// Fits X (leading column of ones) by penalized least squares. Without a given λ, the path is
+// cross-validated over seeded folds and the λ with the lowest mean fold RMSE is used.
+export function regularizedFit(
+  X: Matrix,
+  y: number[],
+  mixing: number,
+  { lambda, seed = 0 }: { lambda?: number; seed?: number } = {}
+): RegularizedFit {
+  const n = X.length;
+  const p = X[0].length - 1;
+  const all = X.map((_, i) => i);
+  const meanY = y.reduce((s, v) => s + v, 0) / n;
+  const sdY = Math.sqrt(y.reduce((s, v) => s + (v - meanY) * (v - meanY), 0) / n) || 1;
+  const z = y.map((v) => (v - meanY) / sdY);
+  // Coefficients for z back on the scale of y
+  const unscale = (b0: number, beta: number[]) => [meanY + sdY * b0, ...beta.map((b) => sdY * b)];
+  const total = sums(X, z, all);
+  const full = centered(total);
+  let iterations = 0;
+
+  if (lambda !== undefined) {
+    const { beta, sweeps } = descend(full, lambda, mixing, Array(p).fill(0));
+    return {
+      beta: unscale(intercept(full, beta), beta),
+      xtxInv: null,
+      iterations: sweeps,
+      lambda,
+      folds: 0,
+      path: [],
+    };
+  }
+
+  const lambdas = lambdaPath(full, mixing);
+  const folds = Math.min(REGULARIZATION_FOLDS, n);
+  const order = shuffle(all, createRng(seed));
+  const foldErrors: number[][] = lambdas.map(() => []);
+  for (let f = 0; f < folds; f++) {
+    const held = order.filter((_, i) => i % folds === f);
+    const train = centered(minus(total, sums(X, z, held)));
+    let beta = Array(p).fill(0);
+    lambdas.forEach((l, step) => {
+      const fit = descend(train, l, mixing, beta);
+      beta = fit.beta;
+      iterations += fit.sweeps;
+      const b0 = intercept(train, beta);
+      const predict = (i: number) => beta.reduce((t, b, j) => t + b * X[i][j + 1], b0);
+      const sse = held.reduce((sum, i) => sum + Math.pow(z[i] - predict(i), 2), 0);
+      foldErrors[step].push(sdY * Math.sqrt(sse / held.length));
+    });
+  }
+
+  let beta = Array(p).fill(0);
+  const path = lambdas.map((l, step) => {
+    const fit = descend(full, l, mixing, beta);
+    beta = fit.beta;
+    iterations += fit.sweeps;
+    const errors = foldErrors[step];
+    const cvRmse = errors.reduce((s, e) => s + e, 0) / folds;
+    const sd = Math.sqrt(errors.reduce((s, e) => s + (e - cvRmse) * (e - cvRmse), 0) / Math.max(folds - 1, 1));
+    return { lambda: l, beta: unscale(intercept(full, beta), beta), cvRmse, cvSe: sd / Math.sqrt(folds) };
+  });
+
+  const best = path.reduce((b, s, i) => (s.cvRmse < path[b].cvRmse ? i : b), 0);
+  const limit = path[best].cvRmse + path[best].cvSe;
+  // The path runs from large to small λ, so the first step under the limit has the largest λ
+  const oneSe = path.findIndex((s) => s.cvRmse <= limit);
+  return {
+    beta: path[best].beta,
+    xtxInv: null,
+    iterations,
+    lambda: path[best].lambda,
+    lambda1se: path[oneSe].lambda,
+    folds,
+    path,
+  };
+}
@@ -0,0 +1,252 @@
+import {
+  AssumptionTest,
+  BatchPrediction,
+  DataPoint,
+  ErrorMetrics,
+  Evaluation,
+  PointDiagnostics,
+  RegressionResult,
+  Units,
+} from "@/types";
+import { categoryEquation, groupModel, INTERCEPT, PredictionInput } from "@/lib/regression";
+import { modelMetrics } from "@/lib/evaluation";
+import { informationCriteria, modelLabel } from "@/lib/comparison";
+import { formatPValue } from "@/lib/assumptions";
+import { STUDENTIZED_LIMIT } from "@/lib/diagnostics";
+import { termLabel } from "@/lib/models";
+import { AREA, featureLabel } from "@/lib/features";
+import { extent } from "@/lib/stats";
+import { formatMoney, round } from "@/lib/format";
+import { ChartImage } from "@/lib/chartImage";
+
+// Batch predictions beyond this are summarized rather than listed
+export const MAX_REPORT_ROWS = 200;
+
+export interface ReportPrediction {
+  input: PredictionInput;
+  price: number;
+  // Prediction interval at `level`, when the model supports one
+  range: [number, number] | null;
+  level: number;
+}
+
+export interface ReportInput {
+  datasetName: string;
+  units: Units;
+  points: DataPoint[];
+  featureKeys: string[];
+  model: RegressionResult | null;
+  // Points the model was fitted on
+  trainPoints: DataPoint[];
+  evaluation: Evaluation | null;
+  tests: AssumptionTest[];
+  influence: PointDiagnostics[];
+  prediction: ReportPrediction | null;
+  batch: BatchPrediction[];
+  charts: ChartImage[];
+}
+
+const STYLE = `
+  body {
+    font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+    color: #18181b;
+    margin: 0;
+    background: #fafafa;
+  }
+  main { max-width: 960px; margin: 0 auto; padding: 32px 24px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 17px; margin: 32px 0 8px; border-bottom: 1px solid #e4e4e7; padding-bottom: 4px; }
+  p, li { font-size: 13px; line-height: 1.5; }
+  .meta { color: #52525b; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; margin: 8px 0; }
+  th { text-align: left; color: #3f3f46; border-bottom: 1px solid #d4d4d8; padding: 4px 8px 4px 0; }
+  td { border-bottom: 1px solid #f4f4f5; padding: 4px 8px 4px 0; vertical-align: top; }
+  .num { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+  .pass { color: #15803d; } .fail { color: #b91c1c; } .skipped { color: #71717a; }
+  figure { margin: 16px 0; break-inside: avoid; }
+  figure svg { max-width: 100%; height: auto; border: 1px solid #e4e4e7; border-radius: 8px; background: #fff; }
+  @media print {
+    body { background: #fff; }
+    main { max-width: none; padding: 0; }
+    h2 { break-after: avoid; }
+    table, tr { break-inside: avoid; }
+    @page { margin: 16mm; }
+  }
+`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+function num(v: number, digits = 4): string {
+  return Number.isFinite(v) ? String(round(v, digits)) : "-";
+}
+
+function table(header: string[], rows: string[][], numeric: boolean[] = []): string {
+  const cells = header.map((h) => `<th>${escapeHtml(h)}</th>`).join("");
+  const head = header.length > 0 ? `<thead><tr>${cells}</tr></thead>` : "";
+  const body = rows
+    .map((r) => `<tr>${r.map((c, i) => `<td${numeric[i] ? ' class="num"' : ""}>${escapeHtml(c)}</td>`).join("")}</tr>`)
+    .join("");
+  return `<table>${head}<tbody>${body}</tbody></table>`;
+}
+
+function inputLabel(input: PredictionInput, model: RegressionResult, units: Units): string {
+  const parts = model.features.map((f) =>
+    f === AREA ? `${input.area} ${units.area}` : `${featureLabel(f)} ${input.features?.[f] ?? "-"}`
+  );
+  if (input.category !== undefined) parts.push(`category ${input.category}`);
+  return parts.join(", ");
+}
+
+function datasetSection({ datasetName, units, points, featureKeys, trainPoints }: ReportInput): string {
+  const excluded = points.filter((d) => d.excluded).length;
+  const categories = Array.from(new Set(points.map((d) => d.category).filter((c): c is string => !!c))).sort();
+  const rows: string[][] = [
+    ["Dataset", datasetName],
+    ["Points", `${points.length} (${excluded} excluded, ${trainPoints.length} used for training)`],
+    ["Units", `${units.area}, ${units.currency}, ${units.locale}`],
+  ];
+  if (points.length > 0) {
+    const [a0, a1] = extent(points.map((d) => d.area));
+    const [p0, p1] = extent(points.map((d) => d.price));
+    rows.push(["Area range", `${a0} – ${a1} ${units.area}`]);
+    rows.push(["Price range", `${formatMoney(p0, units)} – ${formatMoney(p1, units)}`]);
+  }
+  if (featureKeys.length > 0) rows.push(["Extra features", featureKeys.map(featureLabel).join(", ")]);
+  if (categories.length > 0) rows.push(["Categories", categories.join(", ")]);
+  return `<h2>Dataset</h2>${table([], rows)}`;
+}
+
+function modelSection(model: RegressionResult, input: ReportInput): string {
+  const { units, trainPoints, evaluation } = input;
+  let html = `<h2>Model</h2><p><strong>${escapeHtml(modelLabel(model))}</strong></p>`;
+  if (model.categories) {
+    html += table(
+      ["Category", "Equation", ...(model.groups ? ["R²", "RMSE"] : [])],
+      model.categories.map((c) => {
+        const g = groupModel(model, c);
+        const fit = model.groups ? [num(g?.r2 ?? NaN), g ? formatMoney(g.rmse, units) : "-"] : [];
+        return [c, categoryEquation(model, c), ...fit];
+      }),
+      [false, true, true, true]
+    );
+  } else {
+    html += `<p class="num">${escapeHtml(model.equation)}</p>`;
+  }
+  if (!model.groups) {
+    html += table(
+      ["Term", "Estimate", "Std. error", "t", "p-value"],
+      [INTERCEPT, ...model.terms].map((t) => {
+        const st = model.coefficientStats[t];
+        const name = t === INTERCEPT ? "Intercept" : termLabel(t);
+        return [name, num(st.estimate), num(st.stdError), num(st.tStat, 3), formatPValue(st.pValue)];
+      }),
+      [false, true, true, true, true]
+    );
+  }
+
+  const { aic, bic } = informationCriteria(trainPoints, model);
+  const metric = (label: string, fmt: (m: ErrorMetrics) => string, inSample: ErrorMetrics) => [
+    label,
+    fmt(inSample),
+    evaluation?.outOfSample ? fmt(evaluation.outOfSample) : "-",
+  ];
+  const inSample = evaluation?.inSample ?? modelMetrics(trainPoints, model);
+  const outOfSample = evaluation?.outOfSample
+    ? `${evaluation.mode === "holdout" ? "Test set" : "Cross-validated"} (n = ${evaluation.outOfSample.n})`
+    : "Out-of-sample";
+  html += `<h2>Metrics</h2>`;
+  html += table(
+    ["Metric", `In-sample (n = ${inSample.n})`, outOfSample],
+    [
+      metric("RMSE", (m) => formatMoney(m.rmse, units), inSample),
+      metric("MAE", (m) => formatMoney(m.mae, units), inSample),
+      metric("MAPE", (m) => `${round(m.mape * 100, 2)}%`, inSample),
+      metric("R²", (m) => num(m.r2), inSample),
+      ["Adjusted R²", num(model.adjR2), "-"],
+      ["AIC / BIC", `${num(aic, 1)} / ${num(bic, 1)}`, "-"],
+    ],
+    [false, true, true]
+  );
+  if (evaluation && evaluation.mode !== "none") html += `<p class="meta">Validation seed ${evaluation.seed}.</p>`;
+  return html;
+}
+
+function diagnosticsSection({ tests, influence }: ReportInput): string {
+  let html = `<h2>Diagnostics</h2>`;
+  if (tests.length > 0) {
+    const head = ["Test", "Assumption", "Statistic", "p-value", "Result"].map((h) => `<th>${h}</th>`).join("");
+    const rows = tests.map(
+      (t) =>
+        `<tr><td>${escapeHtml(t.name)}</td><td>${escapeHtml(t.assumption)}</td>` +
+        `<td class="num">${num(t.statistic, 3)}</td><td class="num">${formatPValue(t.pValue)}</td>` +
+        `<td><span class="${t.verdict}">${t.verdict}</span><br />${escapeHtml(t.summary)}</td></tr>`
+    );
+    html += `<table><thead><tr>${head}</tr></thead><tbody>${rows.join("")}</tbody></table>`;
+  }
+  if (influence.length > 0) {
+    const count = (flag: (d: PointDiagnostics) => boolean) => influence.filter(flag).length;
+    html +=
+      `<p>Of ${influence.length} training points, ${count((d) => d.highLeverage)} have high leverage, ` +
+      `${count((d) => d.outlier)} are outliers (|studentized residual| &gt; ${STUDENTIZED_LIMIT}) and ` +
+      `${count((d) => d.influential)} are influential by Cook's distance.</p>`;
+  }
+  return html;
+}
+
+function predictionSection(model: RegressionResult, { prediction, batch, units }: ReportInput): string {
+  if (!prediction && batch.length === 0) return "";
+  let html = `<h2>Predictions</h2>`;
+  if (prediction) {
+    const price = formatMoney(prediction.price, units);
+    html += `<p>${escapeHtml(inputLabel(prediction.input, model, units))}: <strong>${escapeHtml(price)}</strong>`;
+    if (prediction.range) {
+      const [lo, hi] = prediction.range.map((v) => formatMoney(v, units));
+      html += ` (${round(prediction.level * 100, 1)}% prediction interval ${escapeHtml(`${lo} – ${hi}`)})`;
+    }
+    html += `</p>`;
+  }
+  if (batch.length > 0) {
+    html += table(
+      ["Row", "Input", "Predicted price", "Interval", "Note"],
+      batch.slice(0, MAX_REPORT_ROWS).map((r) => [
+        String(r.row),
+        inputLabel(r, model, units),
+        formatMoney(r.price, units),
+        r.interval ? `${formatMoney(r.interval[0], units)} – ${formatMoney(r.interval[1], units)}` : "-",
+        r.extrapolated ? "Outside training area range" : "",
+      ]),
+      [true, false, true, true, false]
+    );
+    if (batch.length > MAX_REPORT_ROWS) {
+      html += `<p class="meta">First ${MAX_REPORT_ROWS} of ${batch.length} batch rows.</p>`;
+    }
+  }
+  return html;
+}
+
+// Self-contained HTML report: inline styles and charts, no scripts unless `print` asks the
+// browser to open its print dialog once the page has loaded.
+export function buildReport(input: ReportInput, options: { print?: boolean } = {}): string {
+  const title = `Price model report: ${input.datasetName}`;
+  const generated = new Date().toLocaleString(input.units.locale);
+  let body = `<h1>${escapeHtml(title)}</h1><p class="meta">Generated ${escapeHtml(generated)}</p>`;
+  body += datasetSection(input);
+  if (input.model) {
+    body += modelSection(input.model, input);
+    body += diagnosticsSection(input);
+    body += predictionSection(input.model, input);
+  } else {
+    body += `<p>No model has been trained on this dataset.</p>`;
+  }
+  if (input.charts.length > 0) {
+    body += `<h2>Charts</h2>`;
+    body += input.charts.map((c) => `<figure>${c.svg}</figure>`).join("");
+  }
+  const script = options.print ? `<script>window.addEventListener("load", () => window.print());</script>` : "";
+  const head =
+    `<meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" />` +
+    `<title>${escapeHtml(title)}</title><style>${STYLE}</style>`;
+  return `<!DOCTYPE html><html lang="en"><head>${head}</head><body><main>${body}</main>${script}</body></html>`;
+}
@@ -0,0 +1,142 @@
+import { FitMethod } from "@/types";
+import { leastSquares, Matrix } from "@/lib/matrix";
+import { createRng } from "@/lib/random";
+import { median } from "@/lib/stats";
+
+export const FIT_METHODS: Array<{ method: FitMethod; label: string }> = [
+  { method: "ols", label: "Ordinary least squares" },
+  { method: "huber", label: "Huber (IRLS)" },
+  { method: "theil-sen", label: "Theil–Sen (median slopes)" },
+  { method: "ransac", label: "RANSAC" },
+  { method: "ridge", label: "Ridge (L2 penalty)" },
+  { method: "lasso", label: "Lasso (L1 penalty)" },
+  { method: "elastic-net", label: "Elastic net (L1 + L2)" },
+];
+
+export const DEFAULT_HUBER_K = 1.345;
+
+const RANSAC_TRIALS = 500;
+// Theil–Sen uses every pair up to this many; larger datasets use this many seeded random pairs
+const THEIL_SEN_PAIRS = 1000000;
+
+export interface RobustFit {
+  beta: number[];
+  // Unscaled (X'WX)^-1 for inference; null when the estimator has no analytic covariance
+  xtxInv: Matrix | null;
+  // Final IRLS weights (Huber) or inlier mask (RANSAC), aligned with the rows of X
+  weights?: number[];
+  inliers?: boolean[];
+  iterations: number;
+}
+
+function residuals(X: Matrix, y: number[], beta: number[]): number[] {
+  return X.map((row, i) => y[i] - row.reduce((s, v, j) => s + v * beta[j], 0));
+}
+
+// Huber M-estimator by iteratively reweighted least squares, started from OLS.
+// Residuals beyond k robust standard deviations get weight k·s/|r| instead of 1.
+export function huberFit(X: Matrix, y: number[], k = DEFAULT_HUBER_K): RobustFit {
+  const start = leastSquares(X, y);
+  if (!start) throw new Error("Features are perfectly collinear; remove a redundant feature");
+
+  let { beta, xtxInv } = start;
+  let weights = y.map(() => 1);
+  let iterations = 0;
+
+  for (; iterations < 50; iterations++) {
+    const r = residuals(X, y, beta);
+    const s = median(r.map(Math.abs)) / 0.6745;
+    if (s === 0) break;
+    weights = r.map((ri) => (Math.abs(ri) <= k * s ? 1 : (k * s) / Math.abs(ri)));
+
+    const next = leastSquares(X, y, weights);
+    if (!next) break;
+    const change = Math.max(...next.beta.map((v, j) => Math.abs(v - beta[j])));
+    const size = Math.max(...next.beta.map(Math.abs));
+    beta = next.beta;
+    xtxInv = next.xtxInv;
+    if (change <= 1e-10 * (1 + size)) break;
+  }
+
+  return { beta, xtxInv, weights, iterations };
+}
+
+// Theil–Sen: slope is the median of all pairwise slopes, intercept the median of y - m·x.
+// Only defined for a single term (X has an intercept column plus one predictor). Above
+// THEIL_SEN_PAIRS pairs the median is taken over a seeded random sample of pairs instead,
+// since n(n-1)/2 slopes do not fit in memory for large datasets.
+export function theilSenFit(X: Matrix, y: number[], seed: number): RobustFit {
+  if (X[0].length !== 2) {
+    throw new Error("Theil–Sen supports exactly one term; use a linear, log-log, log-linear or linear-log model on area");
+  }
+  const x = X.map((row) => row[1]);
+  const n = x.length;
+  const slopes: number[] = [];
+  if ((n * (n - 1)) / 2 <= THEIL_SEN_PAIRS) {
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        if (x[j] !== x[i]) slopes.push((y[j] - y[i]) / (x[j] - x[i]));
+      }
+    }
+  } else {
+    const rng = createRng(seed);
+    for (let k = 0; k < THEIL_SEN_PAIRS; k++) {
+      const i = Math.floor(rng() * n);
+      const j = Math.floor(rng() * n);
+      if (x[j] !== x[i]) slopes.push((y[j] - y[i]) / (x[j] - x[i]));
+    }
+  }
+  if (slopes.length === 0) throw new Error("Theil–Sen needs at least two distinct area values");
+
+  const m = median(slopes);
+  const b = median(y.map((v, i) => v - m * x[i]));
+  return { beta: [b, m], xtxInv: null, iterations: 1 };
+}
+
+// RANSAC: fit exact models to random minimal subsets, keep the one with the largest
+// consensus set (|residual| ≤ threshold), then refit OLS on that set.
+// A missing threshold defaults to the MAD of y, as in scikit-learn.
+export function ransacFit(X: Matrix, y: number[], threshold: number | undefined, seed: number): RobustFit {
+  const n = X.length;
+  const p = X[0].length;
+  const limit = threshold !== undefined && threshold > 0 ? threshold : median(y.map((v) => Math.abs(v - median(y))));
+  const rng = createRng(seed);
+
+  let best: boolean[] | null = null;
+  let bestCount = 0;
+  let bestSsr = Infinity;
+
+  for (let trial = 0; trial < RANSAC_TRIALS; trial++) {
+    const picked = new Set<number>();
+    while (picked.size < p) picked.add(Math.floor(rng() * n));
+    const idx = Array.from(picked);
+    const fit = leastSquares(
+      idx.map((i) => X[i]),
+      idx.map((i) => y[i])
+    );
+    if (!fit) continue;
+
+    const r = residuals(X, y, fit.beta);
+    const mask = r.map((ri) => Math.abs(ri) <= limit);
+    const count = mask.filter(Boolean).length;
+    const ssr = r.reduce((s, ri, i) => (mask[i] ? s + ri * ri : s), 0);
+    if (count > bestCount || (count === bestCount && ssr < bestSsr)) {
+      best = mask;
+      bestCount = count;
+      bestSsr = ssr;
+    }
+  }
+
+  if (!best || bestCount < p) {
+    throw new Error("RANSAC found no consensus set; try a larger inlier threshold");
+  }
+
+  const inlierRows = X.map((_, i) => i).filter((i) => best![i]);
+  const final = leastSquares(
+    inlierRows.map((i) => X[i]),
+    inlierRows.map((i) => y[i])
+  );
+  if (!final) throw new Error("RANSAC inliers are degenerate; try a larger inlier threshold");
+
+  return { beta: final.beta, xtxInv: final.xtxInv, inliers: best, iterations: RANSAC_TRIALS };
+}
@@ -0,0 +1,122 @@
+import { DataPoint, SyntheticSpec, Units } from "@/types";
+import { DEFAULT_UNITS, makeId } from "@/lib/format";
+import { DEFAULT_SYNTHETIC_SPEC, generateSyntheticPoints } from "@/lib/synthetic";
+
+// Bundled datasets for trying the app without data of one's own. Synthetic samples keep their
+// generator settings, so the Model section can compare a fit with the true line.
+export interface SampleDataset {
+  id: string;
+  name: string;
+  description: string;
+  units: Units;
+  synthetic?: SyntheticSpec;
+  // Recorded rows for samples that are not generated
+  points?: () => DataPoint[];
+}
+
+// [area (sq ft), bedrooms, neighbourhood, sale date, price]
+const NEIGHBOURHOOD_SALES: Array<[number, number, string, string, number]> = [
+  [1811, 4, "Hillcrest", "2022-02-28", 322300],
+  [1649, 3, "Riverside", "2022-06-15", 245000],
+  [1614, 4, "Riverside", "2022-07-05", 219300],
+  [1833, 4, "Riverside", "2022-09-13", 251900],
+  [1381, 2, "Hillcrest", "2022-09-28", 272100],
+  [1457, 3, "Riverside", "2022-11-10", 209500],
+  [1556, 3, "Riverside", "2022-11-10", 237500],
+  [2053, 5, "Riverside", "2022-12-13", 319500],
+  [1135, 1, "Hillcrest", "2023-01-02", 224300],
+  [1690, 4, "Riverside", "2023-01-05", 305400],
+  [1487, 3, "Hillcrest", "2023-03-08", 287200],
+  [1632, 4, "Riverside", "2023-03-21", 256900],
+  [1285, 2, "Riverside", "2023-04-01", 183500],
+  [1134, 2, "Riverside", "2023-04-26", 194900],
+  [1146, 1, "Riverside", "2023-07-01", 173600],
+  [1394, 2, "Riverside", "2023-08-01", 214600],
+  [2113, 5, "Riverside", "2023-10-03", 342900],
+  [1144, 1, "Riverside", "2023-10-16", 192100],
+  [1925, 5, "Riverside", "2024-01-19", 303700],
+  [2075, 5, "Riverside", "2024-03-27", 329300],
+  [1463, 3, "Hillcrest", "2024-05-11", 299600],
+  [1101, 2, "Riverside", "2024-06-11", 219900],
+  [1504, 3, "Hillcrest", "2024-07-03", 277700],
+  [1684, 4, "Riverside", "2024-07-27", 294600],
+  [1392, 3, "Hillcrest", "2024-08-02", 302700],
+  [1202, 2, "Hillcrest", "2024-08-04", 260500],
+  [1379, 2, "Riverside", "2024-08-22", 187400],
+  [1589, 3, "Hillcrest", "2024-08-23", 333200],
+  [1361, 3, "Hillcrest", "2024-08-26", 308100],
+  [1187, 2, "Riverside", "2024-09-11", 200800],
+];
+
+export const SAMPLE_DATASETS: SampleDataset[] = [
+  {
+    id: "starter-homes",
+    name: "Starter homes",
+    description: "60 small homes on a straight line with normal noise.",
+    units: DEFAULT_UNITS,
+    synthetic: {
+      ...DEFAULT_SYNTHETIC_SPEC,
+      slope: 2500,
+      intercept: 40000,
+      noiseSd: 15000,
+      areaMin: 40,
+      areaMax: 160,
+      count: 60,
+      seed: 7,
+    },
+  },
+  {
+    id: "luxury-outliers",
+    name: "Luxury listings with outliers",
+    description: "Heavy-tailed noise and 8% gross outliers, for comparing robust fits with least squares.",
+    units: DEFAULT_UNITS,
+    synthetic: {
+      ...DEFAULT_SYNTHETIC_SPEC,
+      slope: 6000,
+      intercept: 150000,
+      noise: "student-t",
+      noiseSd: 60000,
+      outlierFraction: 0.08,
+      areaMin: 120,
+      areaMax: 400,
+      count: 120,
+      seed: 11,
+    },
+  },
+  {
+    id: "widening-spread",
+    name: "Widening spread",
+    description: "Noise five times larger for the biggest homes than the smallest, for weighted fits and log models.",
+    units: DEFAULT_UNITS,
+    synthetic: {
+      ...DEFAULT_SYNTHETIC_SPEC,
+      slope: 3000,
+      intercept: 20000,
+      noiseSd: 10000,
+      heteroscedasticity: 4,
+      areaMin: 50,
+      areaMax: 300,
+      count: 150,
+      seed: 3,
+    },
+  },
+  {
+    id: "neighbourhood-sales",
+    name: "Two neighbourhoods",
+    description: "30 sales with bedrooms, neighbourhood and sale date, for features, grouping and recency weights.",
+    units: { ...DEFAULT_UNITS, area: "sq ft" },
+    points: () =>
+      NEIGHBOURHOOD_SALES.map(([area, bedrooms, category, date, price]) => ({
+        id: makeId(),
+        area,
+        price,
+        features: { bedrooms },
+        category,
+        date,
+      })),
+  },
+];
+
+export function samplePoints(sample: SampleDataset): DataPoint[] {
+  return sample.synthetic ? generateSyntheticPoints(sample.synthetic, sample.units) : (sample.points?.() ?? []);
+}
@@ -0,0 +1,202 @@
+import { BreakpointEstimate, DataPoint, RegressionResult, SegmentLine } from "@/types";
+import { AREA } from "@/lib/features";
+import { roundToAxis } from "@/lib/format";
+import { leastSquares, Matrix } from "@/lib/matrix";
+import { hingeTerm, jumpTerm, termBreakpoint, termValue } from "@/lib/models";
+import { tQuantile } from "@/lib/stats";
+
+// Segmented (broken-line) regression: price is linear in area between breakpoints c_1 < … < c_k,
+// fitted as area plus a hinge max(0, area - c_i) per breakpoint, whose coefficient is the change
+// in slope there. Discontinuous fits add a step 1[area > c_i] for the jump at each breakpoint.
+
+// Each segment spans at least this many distinct areas, so no slope rests on a single pair of points
+const MIN_SEGMENT_AREAS = 3;
+// Breakpoint positions tried per sweep; larger datasets are searched coarsely, then around the best
+const MAX_CANDIDATES = 50;
+const MAX_SWEEPS = 20;
+const GOLDEN_STEPS = 30;
+const BISECTION_STEPS = 20;
+const PROFILE_LEVEL = 0.95;
+const GOLDEN = (Math.sqrt(5) - 1) / 2;
+
+// Distinct areas in ascending order; position j (1 ≤ j < m) splits them between areas[j-1] and areas[j]
+function distinctAreas(data: DataPoint[]): number[] {
+  return Array.from(new Set(data.map((p) => p.area))).sort((a, b) => a - b);
+}
+
+// Weighted residual sum of squares of price on the other terms plus the segment columns, for
+// breakpoints `at`; Infinity when the design is rank deficient.
+function residualSum(
+  data: DataPoint[],
+  base: Matrix,
+  weights: number[] | null,
+  continuous: boolean,
+  span: number
+): (at: number[]) => number {
+  const y = data.map((p) => p.price);
+  return (at) => {
+    const X = data.map((p, i) => [
+      ...base[i],
+      ...at.flatMap((c) => {
+        const hinge = Math.max(0, p.area - c) / span;
+        return continuous ? [hinge] : [hinge, p.area > c ? 1 : 0];
+      }),
+    ]);
+    const fit = leastSquares(X, y, weights ?? undefined);
+    if (!fit) return Infinity;
+    return X.reduce((s, row, i) => {
+      const r = y[i] - row.reduce((t, v, j) => t + v * fit.beta[j], 0);
+      return s + (weights ? weights[i] : 1) * r * r;
+    }, 0);
+  };
+}
+
+// Searches `count` breakpoints for price on `terms` (the other terms of the model, area included)
+// by least squares: each breakpoint in turn moves to the split of the areas that fits best while
+// the others stay put, until none moves; continuous fits then refine each one between its
+// neighbouring splits. Each comes with a profile interval: the breakpoints whose residual sum
+// of squares passes an F test against the best at PROFILE_LEVEL, with the others held fixed.
+export function findBreakpoints(
+  data: DataPoint[],
+  terms: string[],
+  count: number,
+  continuous: boolean,
+  weights: number[] | null
+): BreakpointEstimate[] {
+  const areas = distinctAreas(data);
+  const m = areas.length;
+  const needed = MIN_SEGMENT_AREAS * (count + 1);
+  if (m < needed) {
+    throw new Error(`Need at least ${needed} distinct areas to fit ${count + 1} segments`);
+  }
+  const span = areas[m - 1] - areas[0];
+  const base = data.map((p) => [1, ...terms.map((t) => termValue(p, t))]);
+  const sse = residualSum(data, base, weights, continuous, span);
+  const split = (j: number) => (areas[j - 1] + areas[j]) / 2;
+  // Range of splits breakpoint i can take with every segment keeping its minimum of areas
+  const bounds = (index: number[], i: number): [number, number] => [
+    (i > 0 ? index[i - 1] : 0) + MIN_SEGMENT_AREAS,
+    (i < count - 1 ? index[i + 1] : m) - MIN_SEGMENT_AREAS,
+  ];
+
+  const index = Array.from({ length: count }, (_, i) => Math.round(((i + 1) * m) / (count + 1)));
+  const values = () => index.map(split);
+  const stride = Math.max(1, Math.ceil(m / MAX_CANDIDATES));
+  // Moves each breakpoint to the best split within `reach` of where it is, sampling every `step`th
+  const sweep = (reach: number, step: number) => {
+    for (let s = 0; s < MAX_SWEEPS; s++) {
+      let moved = false;
+      index.forEach((current, i) => {
+        const [lo, hi] = bounds(index, i);
+        const at = values();
+        let best = current;
+        let bestSse = sse(at);
+        for (let j = Math.max(lo, current - reach); j <= Math.min(hi, current + reach); j += step) {
+          at[i] = split(j);
+          const v = sse(at);
+          if (v < bestSse) {
+            best = j;
+            bestSse = v;
+          }
+        }
+        if (best !== current) {
+          index[i] = best;
+          moved = true;
+        }
+      });
+      if (!moved) break;
+    }
+  };
+  sweep(m, stride);
+  if (stride > 1) sweep(stride, 1);
+
+  const breakpoints = values();
+  if (continuous) {
+    // The residual sum is continuous in each breakpoint, so it can sit anywhere between the splits
+    breakpoints.forEach((_, i) => {
+      const [lo, hi] = bounds(index, i);
+      let a = split(Math.max(lo, index[i] - 1));
+      let b = split(Math.min(hi, index[i] + 1));
+      const at = (c: number) => sse(breakpoints.map((v, l) => (l === i ? c : v)));
+      for (let step = 0; step < GOLDEN_STEPS; step++) {
+        const c1 = b - GOLDEN * (b - a);
+        const c2 = a + GOLDEN * (b - a);
+        if (at(c1) < at(c2)) b = c2;
+        else a = c1;
+      }
+      if (at((a + b) / 2) < at(breakpoints[i])) breakpoints[i] = (a + b) / 2;
+    });
+  }
+  // Shorter breakpoints read better, as long as rounding leaves every area on the same side
+  const below = (c: number) => areas.filter((a) => a <= c).length;
+  breakpoints.forEach((c, i) => {
+    const rounded = roundToAxis(c, span);
+    if (below(rounded) === below(c)) breakpoints[i] = rounded;
+  });
+
+  const best = sse(breakpoints);
+  const n = weights ? weights.filter((w) => w > 0).length : data.length;
+  const df = n - base[0].length - count * (continuous ? 2 : 3);
+  if (!(df > 0) || !Number.isFinite(best)) return breakpoints.map((value) => ({ value, searched: true }));
+  const t = tQuantile(1 - (1 - PROFILE_LEVEL) / 2, df);
+  const limit = best * (1 + (t * t) / df);
+
+  return breakpoints.map((value, i) => {
+    const profile = (c: number) => sse(breakpoints.map((v, l) => (l === i ? c : v)));
+    const [lo, hi] = bounds(index, i);
+    const inside = [index[i]];
+    const outside: number[] = [];
+    for (let j = lo; j <= hi; j += stride) (profile(split(j)) <= limit ? inside : outside).push(j);
+    const first = Math.min(...inside);
+    const last = Math.max(...inside);
+    // A jump anywhere between the areas either side of a split fits the same
+    if (!continuous) return { value, searched: true, interval: [areas[first - 1], areas[last]] };
+
+    // Bisect towards the nearest split outside the interval on each side
+    const edge = (from: number, to: number | undefined) => {
+      if (to === undefined) return from;
+      let [a, b] = [from, split(to)];
+      for (let step = 0; step < BISECTION_STEPS; step++) {
+        const mid = (a + b) / 2;
+        if (profile(mid) <= limit) a = mid;
+        else b = mid;
+      }
+      return a;
+    };
+    const lower = Math.min(value, split(first));
+    const upper = Math.max(value, split(last));
+    return {
+      value,
+      searched: true,
+      interval: [edge(lower, outside.filter((j) => j < first).pop()), edge(upper, outside.find((j) => j > last))],
+    };
+  });
+}
+
+// Slope and intercept of each segment from the fitted hinge and jump coefficients, with the
+// slope's standard error from the coefficient covariance. Segments run from `from` to `to`.
+export function segmentLines(
+  model: Pick<RegressionResult, "terms" | "coefficients" | "b" | "covariance">,
+  from: number,
+  to: number
+): SegmentLine[] {
+  const { terms, coefficients, covariance } = model;
+  const breakpoints = Array.from(new Set(terms.map(termBreakpoint).filter((c): c is number => c !== null)));
+  breakpoints.sort((a, b) => a - b);
+  const edges = [from, ...breakpoints, to];
+  // Covariance rows are ordered [intercept, ...terms]
+  const slopeTerms = [terms.indexOf(AREA) + 1];
+  let slope = coefficients[AREA];
+  let intercept = model.b;
+  return edges.slice(1).map((to, i) => {
+    if (i > 0) {
+      const c = breakpoints[i - 1];
+      const change = coefficients[hingeTerm(c)];
+      slope += change;
+      intercept += (coefficients[jumpTerm(c)] ?? 0) - change * c;
+      slopeTerms.push(terms.indexOf(hingeTerm(c)) + 1);
+    }
+    const variance = slopeTerms.reduce((s, a) => s + slopeTerms.reduce((t, b) => t + covariance[a][b], 0), 0);
+    return { from: edges[i], to, slope, slopeStdError: Math.sqrt(variance), intercept };
+  });
+}
@@ -0,0 +1,121 @@
+import { DataPoint, RegressionResult, Units } from "@/types";
+import { checkUnits, validateModel } from "@/lib/artifact";
+import { parseState, stringifyState } from "@/lib/storage";
+import {
+  validateArea,
+  validateFeature,
+  validatePrice,
+  validateSaleDate,
+  validateWeight,
+} from "@/lib/validation";
+
+// State shared through the URL hash, so a static deployment can reproduce it without a backend.
+export const SHARE_PARAM = "share";
+const SHARE_VERSION = 1;
+
+export interface SharePayload {
+  version: number;
+  name: string;
+  points: DataPoint[];
+  featureKeys: string[];
+  units: Units;
+  model: RegressionResult | null;
+}
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+function toBase64Url(bytes: Bytes): string {
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Bytes {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function pipe(bytes: Bytes, stream: CompressionStream | DecompressionStream): Promise<Bytes> {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+// Payloads are deflated when the browser supports CompressionStream ("z" prefix),
+// otherwise stored as plain UTF-8 JSON ("j" prefix).
+export async function encodeShare(payload: Omit<SharePayload, "version">): Promise<string> {
+  const bytes = new TextEncoder().encode(stringifyState({ version: SHARE_VERSION, ...payload }));
+  if (typeof CompressionStream !== "undefined") {
+    return `z${toBase64Url(await pipe(bytes, new CompressionStream("deflate-raw")))}`;
+  }
+  return `j${toBase64Url(bytes)}`;
+}
+
+// The first problem with a shared point, checked the way imported rows are; null when it is valid.
+function pointError(value: unknown, units: Units): string | null {
+  if (!value || typeof value !== "object") return "Not a point.";
+  const p = value as Partial<Record<keyof DataPoint, unknown>>;
+  if (typeof p.id !== "string") return "Missing id.";
+  const area = typeof p.area === "number" ? p.area : NaN;
+  const price = typeof p.price === "number" ? p.price : NaN;
+  const err = validateArea(area, units) ?? validatePrice(price, units);
+  if (err) return err;
+  if (p.features !== undefined) {
+    if (!p.features || typeof p.features !== "object") return "Features are invalid.";
+    const bad = Object.values(p.features).find((v) => validateFeature(typeof v === "number" ? v : NaN) !== null);
+    if (bad !== undefined) return "A feature value is invalid.";
+  }
+  if (p.weight !== undefined) {
+    const weightError = validateWeight(typeof p.weight === "number" ? p.weight : NaN);
+    if (weightError) return weightError;
+  }
+  if (p.date !== undefined) {
+    const dateError = typeof p.date === "string" ? validateSaleDate(p.date) : "Sale date is invalid.";
+    if (dateError) return dateError;
+  }
+  if (p.category !== undefined && typeof p.category !== "string") return "Category is invalid.";
+  if (p.excluded !== undefined && typeof p.excluded !== "boolean") return "Excluded flag is invalid.";
+  return null;
+}
+
+export async function decodeShare(encoded: string): Promise<SharePayload> {
+  if (!encoded.startsWith("z") && !encoded.startsWith("j")) throw new Error("Unrecognized share link");
+  if (encoded.startsWith("z") && typeof DecompressionStream === "undefined") {
+    throw new Error("This browser cannot open compressed share links");
+  }
+
+  let payload: SharePayload;
+  try {
+    let bytes = fromBase64Url(encoded.slice(1));
+    if (encoded.startsWith("z")) bytes = await pipe(bytes, new DecompressionStream("deflate-raw"));
+    payload = parseState(new TextDecoder().decode(bytes)) as SharePayload;
+  } catch {
+    throw new Error("Share link is damaged or incomplete");
+  }
+  if (!payload || payload.version !== SHARE_VERSION || !Array.isArray(payload.points)) {
+    throw new Error("Share link is damaged or from an incompatible version");
+  }
+  if (typeof payload.name !== "string") throw new Error("Share link has no dataset name");
+  if (!Array.isArray(payload.featureKeys) || !payload.featureKeys.every((k) => typeof k === "string")) {
+    throw new Error("Share link feature columns are invalid");
+  }
+  checkUnits(payload.units);
+  payload.points.forEach((p, i) => {
+    const err = pointError(p, payload.units);
+    if (err) throw new Error(`Share link point ${i + 1} is invalid: ${err}`);
+  });
+  if (payload.model) validateModel(payload.model);
+  return payload;
+}
+
+export function shareUrl(encoded: string): string {
+  const { origin, pathname, search } = window.location;
+  return `${origin}${pathname}${search}#${SHARE_PARAM}=${encoded}`;
+}
+
+// Returns the encoded payload from a location hash like "#share=z...", or null.
+export function readShareHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.get(SHARE_PARAM);
+}
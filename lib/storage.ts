@@ -0,0 +1,124 @@
+import { DataPoint, Dataset, Workspace } from "@/types";
+import { collectFeatureKeys } from "@/lib/features";
+import { DEFAULT_UNITS, makeId } from "@/lib/format";
+
+export const STORAGE_KEY = "housePriceTrainingData";
+export const BACKUP_KEY = `${STORAGE_KEY}.backup`;
+
+// Version 1 was a bare DataPoint[]; version 2 wraps named datasets in a workspace;
+// version 3 adds per-dataset units; version 4 drops placeholder models saved for
+// constant-area data, which are now reported as a fit error instead.
+export const CURRENT_VERSION = 4;
+
+const LEGACY_UNDEFINED_EQUATION = "Undefined (Vertical Line)";
+
+// Each migration upgrades a payload from version n to n + 1.
+const MIGRATIONS: Record<number, (old: unknown) => unknown> = {
+  1: (old) => {
+    const dataset = createDataset("Default", old as DataPoint[]);
+    return { version: 2, activeId: dataset.id, datasets: [dataset] };
+  },
+  2: (old) => {
+    const ws = old as Workspace;
+    return { ...ws, version: 3, datasets: ws.datasets.map((d) => ({ ...d, units: d.units ?? DEFAULT_UNITS })) };
+  },
+  3: (old) => {
+    const ws = old as Workspace;
+    return {
+      ...ws,
+      version: 4,
+      datasets: ws.datasets.map((d) => (d.model?.equation === LEGACY_UNDEFINED_EQUATION ? { ...d, model: null } : d)),
+    };
+  },
+};
+
+export function createDataset(name: string, points: DataPoint[] = [], id = makeId()): Dataset {
+  const now = new Date().toISOString();
+  return {
+    id,
+    name,
+    points,
+    featureKeys: collectFeatureKeys(points),
+    model: null,
+    units: DEFAULT_UNITS,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Uses a fixed id so the server-rendered page matches the first client render.
+export function emptyWorkspace(): Workspace {
+  const dataset = createDataset("Default", [], "default");
+  return { version: CURRENT_VERSION, activeId: dataset.id, datasets: [dataset] };
+}
+
+// JSON has no NaN/Infinity (they become null), but models use NaN for undefined statistics.
+// Non-finite numbers are stored as {"$nonFinite": "NaN"} and restored on load.
+export function stringifyState(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    typeof v === "number" && !Number.isFinite(v) ? { $nonFinite: String(v) } : v
+  );
+}
+
+export function parseState(raw: string): unknown {
+  return JSON.parse(raw, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v) && typeof v.$nonFinite === "string" && Object.keys(v).length === 1
+      ? Number(v.$nonFinite)
+      : v
+  );
+}
+
+function payloadVersion(payload: unknown): number {
+  if (Array.isArray(payload)) return 1;
+  if (payload && typeof payload === "object" && typeof (payload as Workspace).version === "number") {
+    return (payload as Workspace).version;
+  }
+  throw new Error("Unrecognized format");
+}
+
+function isWorkspace(w: Workspace): boolean {
+  return (
+    Array.isArray(w.datasets) &&
+    w.datasets.length > 0 &&
+    w.datasets.every((d) => typeof d.id === "string" && Array.isArray(d.points)) &&
+    w.datasets.some((d) => d.id === w.activeId)
+  );
+}
+
+// Upgrades any known payload to the current version. Throws for unreadable or newer data.
+export function migrate(payload: unknown): Workspace {
+  let version = payloadVersion(payload);
+  if (version > CURRENT_VERSION) {
+    throw new Error(`Saved data is from a newer version (${version}) of this app`);
+  }
+  let current = payload;
+  while (version < CURRENT_VERSION) {
+    current = MIGRATIONS[version](current);
+    version++;
+  }
+  const workspace = current as Workspace;
+  if (!isWorkspace(workspace)) throw new Error("Saved workspace is incomplete");
+  return workspace;
+}
+
+// Reads the workspace from storage. Unreadable data is copied to BACKUP_KEY instead of
+// being silently replaced, and the reason is returned so the UI can tell the user.
+export function loadWorkspace(storage: Storage): { workspace: Workspace; warning: string | null } {
+  const raw = storage.getItem(STORAGE_KEY);
+  if (!raw) return { workspace: emptyWorkspace(), warning: null };
+
+  try {
+    return { workspace: migrate(parseState(raw)), warning: null };
+  } catch (err) {
+    storage.setItem(BACKUP_KEY, raw);
+    const reason = err instanceof Error ? err.message : "Unreadable data";
+    return {
+      workspace: emptyWorkspace(),
+      warning: `Saved data could not be loaded (${reason}). A copy was kept in localStorage under "${BACKUP_KEY}".`,
+    };
+  }
+}
+
+export function saveWorkspace(storage: Storage, workspace: Workspace): void {
+  storage.setItem(STORAGE_KEY, stringifyState(workspace));
+}
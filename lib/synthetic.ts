@@ -0,0 +1,105 @@
+import { DataPoint, NoiseDistribution, SyntheticSpec, Units } from "@/types";
+import { makeId, round } from "@/lib/format";
+import { createRng } from "@/lib/random";
+import { validateArea, validatePrice } from "@/lib/validation";
+
+// Synthetic datasets with a known true line, for seeing how each estimator recovers it. The
+// generator is seeded, so the same settings always give the same points.
+
+export const NOISE_DISTRIBUTIONS: Array<{ value: NoiseDistribution; label: string }> = [
+  { value: "normal", label: "Normal" },
+  { value: "uniform", label: "Uniform" },
+  { value: "laplace", label: "Laplace (heavier tails)" },
+  { value: "student-t", label: "Student t, 3 df (heavy tails)" },
+];
+
+export const DEFAULT_SYNTHETIC_SPEC: SyntheticSpec = {
+  slope: 2000,
+  intercept: 50000,
+  noise: "normal",
+  noiseSd: 20000,
+  heteroscedasticity: 0,
+  outlierFraction: 0,
+  areaMin: 50,
+  areaMax: 250,
+  count: 100,
+  seed: 1,
+};
+
+export const MAX_SYNTHETIC_POINTS = 10000;
+// Outliers draw their noise with this many times the usual sd
+export const OUTLIER_SCALE = 10;
+// Prices must be positive and within bounds; draws outside are redrawn this many times at most
+const MAX_REDRAWS = 100;
+
+function standardNormal(rng: () => number): number {
+  // Box–Muller; 1 - u keeps the logarithm finite
+  return Math.sqrt(-2 * Math.log(1 - rng())) * Math.cos(2 * Math.PI * rng());
+}
+
+function standardExponential(rng: () => number): number {
+  return -Math.log(1 - rng());
+}
+
+// Noise with mean 0 and variance 1 from each distribution
+const NOISE: Record<NoiseDistribution, (rng: () => number) => number> = {
+  normal: standardNormal,
+  uniform: (rng) => (2 * rng() - 1) * Math.sqrt(3),
+  // The difference of two unit exponentials is Laplace with variance 2
+  laplace: (rng) => (standardExponential(rng) - standardExponential(rng)) / Math.SQRT2,
+  // t with 3 df has variance 3
+  "student-t": (rng) => {
+    const z = standardNormal(rng);
+    const chiSquare = [0, 1, 2].reduce((s) => s + Math.pow(standardNormal(rng), 2), 0);
+    return z / Math.sqrt(chiSquare / 3) / Math.sqrt(3);
+  },
+};
+
+export function validateSyntheticSpec(spec: SyntheticSpec, units: Units): string | null {
+  if (!Number.isInteger(spec.count) || spec.count < 2 || spec.count > MAX_SYNTHETIC_POINTS) {
+    const max = MAX_SYNTHETIC_POINTS.toLocaleString(units.locale);
+    return `Number of points must be a whole number between 2 and ${max}.`;
+  }
+  const areaError = validateArea(spec.areaMin, units) ?? validateArea(spec.areaMax, units);
+  if (areaError) return `Area range: ${areaError}`;
+  if (!(spec.areaMin < spec.areaMax)) return "The smallest area must be below the largest.";
+  if (!Number.isFinite(spec.slope) || !Number.isFinite(spec.intercept)) return "Slope and intercept must be numbers.";
+  if (!(spec.intercept + spec.slope * spec.areaMin > 0) || !(spec.intercept + spec.slope * spec.areaMax > 0)) {
+    return "The true price must be positive across the whole area range.";
+  }
+  if (!(spec.noiseSd >= 0) || !Number.isFinite(spec.noiseSd)) return "Noise sd must be zero or a positive number.";
+  if (!(spec.heteroscedasticity >= 0) || !Number.isFinite(spec.heteroscedasticity)) {
+    return "Heteroscedasticity must be zero or a positive number.";
+  }
+  if (!(spec.outlierFraction >= 0 && spec.outlierFraction <= 0.5)) {
+    return "Outlier fraction must be between 0 and 50%.";
+  }
+  if (!Number.isInteger(spec.seed)) return "Seed must be a whole number.";
+  return null;
+}
+
+// Points for a valid spec. Areas are rounded to one decimal and prices to whole units; a draw
+// that would make a price zero, negative or too large is redrawn, which trims the tails when the
+// noise is large next to the prices. Throws when the noise leaves no room for a valid price.
+export function generateSyntheticPoints(spec: SyntheticSpec, units: Units): DataPoint[] {
+  const rng = createRng(spec.seed);
+  const draw = NOISE[spec.noise];
+  const span = spec.areaMax - spec.areaMin;
+  return Array.from({ length: spec.count }, () => {
+    const area = Math.min(Math.max(round(spec.areaMin + rng() * span, 1), spec.areaMin), spec.areaMax);
+    const outlier = rng() < spec.outlierFraction;
+    const sd =
+      spec.noiseSd * (1 + (spec.heteroscedasticity * (area - spec.areaMin)) / span) * (outlier ? OUTLIER_SCALE : 1);
+    const mean = spec.intercept + spec.slope * area;
+    for (let attempt = 0; attempt < MAX_REDRAWS; attempt++) {
+      const price = Math.round(mean + sd * draw(rng));
+      if (validatePrice(price, units) === null) return { id: makeId(), area, price };
+    }
+    throw new Error("The noise is too large for prices this low; lower the noise sd or raise the prices.");
+  });
+}
+
+// The spec with areas in another unit; `factor` converts an area (see areaFactor).
+export function rescaleSyntheticSpec(spec: SyntheticSpec, factor: number): SyntheticSpec {
+  return { ...spec, slope: spec.slope / factor, areaMin: spec.areaMin * factor, areaMax: spec.areaMax * factor };
+}
@@ -0,0 +1,85 @@
+import { BootstrapResult, DataPoint, PointDiagnostics, RegressionResult } from "@/types";
+import { FitError } from "@/lib/regression";
+import { BootstrapRequest } from "@/lib/bootstrap";
+import { handleWorkerRequest, TrainingOutcome, TrainingRequest, WorkerRequest, WorkerResponse } from "@/lib/training";
+
+export interface Trainer {
+  train: (request: TrainingRequest, onProgress?: (fraction: number) => void) => Promise<TrainingOutcome>;
+  diagnose: (points: DataPoint[], model: RegressionResult) => Promise<PointDiagnostics[]>;
+  bootstrap: (request: BootstrapRequest, onProgress?: (fraction: number) => void) => Promise<BootstrapResult>;
+  dispose: () => void;
+}
+
+interface Pending {
+  resolve: (response: WorkerResponse) => void;
+  onProgress?: (fraction: number) => void;
+}
+
+// Sends training, diagnostics and bootstrap runs to a Web Worker so large datasets do not freeze the page.
+// Where workers are unavailable the same handler runs inline on the main thread.
+export function createTrainer(): Trainer {
+  let nextId = 0;
+  const pending = new Map<number, Pending>();
+
+  const receive = (response: WorkerResponse) => {
+    const entry = pending.get(response.id);
+    if (!entry) return;
+    if (response.kind === "progress") {
+      entry.onProgress?.(response.fraction);
+      return;
+    }
+    pending.delete(response.id);
+    entry.resolve(response);
+  };
+
+  let worker: Worker | null = null;
+  if (typeof Worker !== "undefined") {
+    try {
+      worker = new Worker(new URL("./training.worker.ts", import.meta.url));
+      worker.onmessage = (e: MessageEvent<WorkerResponse>) => receive(e.data);
+      worker.onerror = () => {
+        Array.from(pending.keys()).forEach((id) => receive({ id, kind: "error", message: "The training worker crashed" }));
+      };
+    } catch {
+      worker = null;
+    }
+  }
+
+  function send(message: WorkerRequest, onProgress?: (fraction: number) => void): Promise<WorkerResponse> {
+    return new Promise((resolve) => {
+      pending.set(message.id, { resolve, onProgress });
+      if (worker) worker.postMessage(message);
+      else setTimeout(() => handleWorkerRequest(message, receive), 0);
+    });
+  }
+
+  return {
+    async train(request, onProgress) {
+      const response = await send({ id: nextId++, kind: "train", request }, onProgress);
+      if (response.kind === "error") {
+        throw response.diagnostics ? new FitError(response.diagnostics) : new Error(response.message);
+      }
+      if (response.kind !== "train") throw new Error("Unexpected reply from the training worker");
+      return response.outcome;
+    },
+    async diagnose(points, model) {
+      const response = await send({ id: nextId++, kind: "diagnostics", points, model });
+      if (response.kind === "error") throw new Error(response.message);
+      if (response.kind !== "diagnostics") throw new Error("Unexpected reply from the training worker");
+      return response.diagnostics;
+    },
+    async bootstrap(request, onProgress) {
+      const response = await send({ id: nextId++, kind: "bootstrap", request }, onProgress);
+      if (response.kind === "error") throw new Error(response.message);
+      if (response.kind !== "bootstrap") throw new Error("Unexpected reply from the training worker");
+      return response.result;
+    },
+    // Runs still waiting fail rather than leave their callers waiting forever
+    dispose() {
+      worker?.terminate();
+      const message = "The training worker was stopped";
+      Array.from(pending.keys()).forEach((id) => receive({ id, kind: "error", message }));
+      pending.clear();
+    },
+  };
+}
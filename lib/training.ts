@@ -0,0 +1,98 @@
+import {
+  BootstrapResult,
+  DataPoint,
+  Evaluation,
+  FitDiagnostic,
+  FitOptions,
+  PointDiagnostics,
+  RegressionResult,
+} from "@/types";
+import { calculateRegression, FitError } from "@/lib/regression";
+import { ProgressCallback, trainAndEvaluate, ValidationOptions } from "@/lib/evaluation";
+import { influenceDiagnostics } from "@/lib/diagnostics";
+import { BootstrapRequest, runBootstrap } from "@/lib/bootstrap";
+
+export interface TrainingRequest {
+  // Every point in the dataset; excluded points are only used for the comparison fit
+  points: DataPoint[];
+  options: FitOptions;
+  validation: ValidationOptions;
+}
+
+export interface TrainingOutcome {
+  model: RegressionResult;
+  evaluation: Evaluation;
+  // Least-squares fit with the same options, overlaid when a robust method is active
+  olsModel: RegressionResult | null;
+  // Same options fitted with the excluded points put back
+  allPointsModel: RegressionResult | null;
+}
+
+// Messages between the page and lib/training.worker.ts; `id` pairs replies with requests.
+export type WorkerRequest =
+  | { id: number; kind: "train"; request: TrainingRequest }
+  | { id: number; kind: "diagnostics"; points: DataPoint[]; model: RegressionResult }
+  | { id: number; kind: "bootstrap"; request: BootstrapRequest };
+
+export type WorkerResponse =
+  | { id: number; kind: "progress"; fraction: number }
+  | { id: number; kind: "train"; outcome: TrainingOutcome }
+  | { id: number; kind: "diagnostics"; diagnostics: PointDiagnostics[] }
+  | { id: number; kind: "bootstrap"; result: BootstrapResult }
+  | { id: number; kind: "error"; message: string; diagnostics?: FitDiagnostic[] };
+
+export function runTraining({ points, options, validation }: TrainingRequest, onProgress?: ProgressCallback): TrainingOutcome {
+  const fitData = points.filter((d) => !d.excluded);
+  // Two comparison fits follow the validation run
+  const extra = (options.method !== "ols" ? 1 : 0) + (fitData.length < points.length ? 1 : 0);
+  let fits = 0;
+  let total = 1 + extra;
+  const step = () => onProgress?.(++fits, total);
+
+  const { model, evaluation } = trainAndEvaluate(fitData, options, validation, (done, runTotal) => {
+    total = runTotal + extra;
+    fits = done;
+    onProgress?.(fits, total);
+  });
+
+  const heldOut = new Set(evaluation.testIds);
+  let olsModel: RegressionResult | null = null;
+  if (options.method !== "ols") {
+    try {
+      olsModel = calculateRegression(fitData.filter((d) => !heldOut.has(d.id)), { ...options, method: "ols" });
+    } catch {
+      olsModel = null;
+    }
+    step();
+  }
+
+  let allPointsModel: RegressionResult | null = null;
+  if (fitData.length < points.length) {
+    try {
+      allPointsModel = calculateRegression(points.filter((d) => !heldOut.has(d.id)), options);
+    } catch {
+      allPointsModel = null;
+    }
+    step();
+  }
+
+  return { model, evaluation, olsModel, allPointsModel };
+}
+
+export function handleWorkerRequest(message: WorkerRequest, post: (response: WorkerResponse) => void): void {
+  const { id } = message;
+  try {
+    const progress = (done: number, total: number) => post({ id, kind: "progress", fraction: done / total });
+    if (message.kind === "train") {
+      post({ id, kind: "train", outcome: runTraining(message.request, progress) });
+    } else if (message.kind === "bootstrap") {
+      post({ id, kind: "bootstrap", result: runBootstrap(message.request, progress) });
+    } else {
+      post({ id, kind: "diagnostics", diagnostics: influenceDiagnostics(message.points, message.model) });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Failed to train model";
+    // Class identity does not survive postMessage, so FitError travels as plain data
+    post({ id, kind: "error", message, ...(err instanceof FitError ? { diagnostics: err.diagnostics } : {}) });
+  }
+}
@@ -0,0 +1,8 @@
+import { handleWorkerRequest, WorkerRequest, WorkerResponse } from "@/lib/training";
+
+// Runs training and influence diagnostics off the main thread (see lib/trainer.ts).
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  handleWorkerRequest(e.data, (response: WorkerResponse) => ctx.postMessage(response));
+};
@@ -0,0 +1,41 @@
+import { AreaUnit, DataPoint, Units } from "@/types";
+
+// 1 ft = 0.3048 m exactly, so 1 sq ft = 0.09290304 sq m exactly.
+export const AREA_UNITS: Array<{ unit: AreaUnit; label: string; squareMetres: number }> = [
+  { unit: "sq m", label: "Square metres (sq m)", squareMetres: 1 },
+  { unit: "sq ft", label: "Square feet (sq ft)", squareMetres: 0.09290304 },
+];
+
+export const SUGGESTED_CURRENCIES = ["USD", "EUR", "GBP", "CHF", "CAD", "AUD", "JPY", "INR", "IRR"];
+export const SUGGESTED_LOCALES = ["en-US", "en-GB", "de-DE", "fr-FR", "es-ES", "it-IT", "nl-NL", "de-CH", "fa-IR"];
+
+function squareMetres(unit: AreaUnit): number {
+  return AREA_UNITS.find((u) => u.unit === unit)?.squareMetres ?? 1;
+}
+
+// Multiply an area in `from` units by this factor to express it in `to` units.
+export function areaFactor(from: AreaUnit, to: AreaUnit): number {
+  return squareMetres(from) / squareMetres(to);
+}
+
+// Single multiply-then-divide so sq m → sq ft → sq m round-trips to within one ulp.
+export function convertArea(area: number, from: AreaUnit, to: AreaUnit): number {
+  if (from === to) return area;
+  return (area * squareMetres(from)) / squareMetres(to);
+}
+
+export function convertPoints(points: DataPoint[], from: AreaUnit, to: AreaUnit): DataPoint[] {
+  if (from === to) return points;
+  return points.map((p) => ({ ...p, area: convertArea(p.area, from, to) }));
+}
+
+// Returns an error message for a currency code or locale Intl cannot format with.
+export function validateUnits(units: Units): string | null {
+  if (!/^[A-Za-z]{3}$/.test(units.currency)) return "Currency must be a three-letter ISO code, e.g. EUR.";
+  try {
+    new Intl.NumberFormat(units.locale, { style: "currency", currency: units.currency });
+  } catch {
+    return `"${units.locale}" is not a valid locale.`;
+  }
+  return null;
+}
@@ -0,0 +1,53 @@
+import { Units } from "@/types";
+import { DEFAULT_UNITS, formatMoney } from "@/lib/format";
+import { convertArea } from "@/lib/units";
+import { parseSaleDate } from "@/lib/weights";
+
+// Upper bounds in base units; the area bound is converted to the dataset's unit.
+const MAX_AREA_SQ_M = 10000;
+// Price bounds per currency, around 100 million US dollars each; other currencies have none.
+const MAX_PRICE: Record<string, number> = {
+  USD: 100000000,
+  EUR: 100000000,
+  GBP: 100000000,
+  CHF: 100000000,
+  CAD: 100000000,
+  AUD: 100000000,
+  JPY: 20000000000,
+  INR: 10000000000,
+  IRR: 100000000000000,
+};
+
+export function validateArea(area: number, units: Units = DEFAULT_UNITS): string | null {
+  const max = convertArea(MAX_AREA_SQ_M, "sq m", units.area);
+  if (!Number.isFinite(area)) return "Area is required.";
+  if (area <= 0) return "Area must be a positive number.";
+  if (area > max) {
+    return `Area must be ≤ ${Math.round(max).toLocaleString(units.locale)} ${units.area}.`;
+  }
+  return null;
+}
+
+export function validatePrice(price: number, units: Units = DEFAULT_UNITS): string | null {
+  if (!Number.isFinite(price)) return "Price is required.";
+  if (price <= 0) return "Price must be a positive number.";
+  const max = MAX_PRICE[units.currency.toUpperCase()];
+  if (max !== undefined && price > max) return `Price must be ≤ ${formatMoney(max, units)}.`;
+  return null;
+}
+
+export function validateFeature(value: number): string | null {
+  if (!Number.isFinite(value)) return "Must be a number.";
+  if (value < 0) return "Must be zero or positive.";
+  return null;
+}
+
+export function validateWeight(value: number): string | null {
+  if (!Number.isFinite(value)) return "Weight must be a number.";
+  if (value < 0) return "Weight must be zero or positive.";
+  return null;
+}
+
+export function validateSaleDate(text: string): string | null {
+  return Number.isFinite(parseSaleDate(text)) ? null : "Sale date must be a valid YYYY-MM-DD date.";
+}
@@ -0,0 +1,89 @@
+import { DataPoint, FitDiagnostic, WeightingMode } from "@/types";
+import { extent } from "@/lib/stats";
+
+export const WEIGHTING_MODES: Array<{ mode: WeightingMode; label: string }> = [
+  { mode: "none", label: "Unweighted" },
+  { mode: "manual", label: "Point weights" },
+  { mode: "decay", label: "Recency decay" },
+  { mode: "both", label: "Point weights × recency decay" },
+];
+
+export const DEFAULT_HALF_LIFE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const usesManual = (mode: WeightingMode) => mode === "manual" || mode === "both";
+const usesDecay = (mode: WeightingMode) => mode === "decay" || mode === "both";
+
+// Milliseconds since the epoch for a YYYY-MM-DD date, NaN for anything else (including 2023-02-30).
+export function parseSaleDate(text: string): number {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+  if (!match) return NaN;
+  const [year, month, day] = match.slice(1).map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? time : NaN;
+}
+
+// Imported dates may come as "2023-05-01", "2023/5/1" or "May 1, 2023"; they are stored as YYYY-MM-DD.
+export function normalizeSaleDate(text: string): string | null {
+  const pad = (v: number) => String(v).padStart(2, "0");
+  const numeric = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(text.trim());
+  if (numeric) {
+    const date = `${numeric[1]}-${pad(Number(numeric[2]))}-${pad(Number(numeric[3]))}`;
+    return Number.isFinite(parseSaleDate(date)) ? date : null;
+  }
+  // Named months only; Date.parse reads bare numbers like "5/1/23" differently across browsers
+  if (!/[a-z]/i.test(text)) return null;
+  const time = Date.parse(text);
+  if (!Number.isFinite(time)) return null;
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Points a weighted fit cannot use: manual weights must be finite and ≥ 0, decay needs every
+// sale date, and at least one point has to keep a positive weight.
+export function checkWeights(data: DataPoint[], mode: WeightingMode): FitDiagnostic[] {
+  const issues: FitDiagnostic[] = [];
+  if (mode === "none") return issues;
+  if (usesManual(mode)) {
+    const invalid = data.filter((p) => p.weight !== undefined && !(Number.isFinite(p.weight) && p.weight >= 0)).length;
+    if (invalid > 0) {
+      issues.push({
+        issue: "weights",
+        severity: "error",
+        message: `${invalid} point(s) have a weight that is negative or not a number.`,
+      });
+    }
+  }
+  if (usesDecay(mode)) {
+    const undated = data.filter((p) => !Number.isFinite(parseSaleDate(p.date ?? ""))).length;
+    if (undated > 0) {
+      issues.push({
+        issue: "weights",
+        severity: "error",
+        message:
+          `${undated} point(s) have no sale date, so their age cannot be weighted; ` +
+          "add dates or use point weights instead.",
+      });
+    }
+  }
+  if (issues.length === 0 && usesManual(mode) && data.every((p) => p.weight === 0)) {
+    issues.push({ issue: "weights", severity: "error", message: "Every point has zero weight." });
+  }
+  return issues;
+}
+
+// Weight of each point (aligned with data): its own weight (1 when unset) and/or
+// 0.5^(age / half-life), with ages counted back from the latest sale. Assumes checkWeights passed.
+export function fitWeights(data: DataPoint[], mode: WeightingMode, halfLifeDays = DEFAULT_HALF_LIFE_DAYS): number[] {
+  if (usesDecay(mode) && !(halfLifeDays > 0)) {
+    throw new Error("The half-life must be a positive number of days");
+  }
+  const times = usesDecay(mode) ? data.map((p) => parseSaleDate(p.date ?? "")) : [];
+  const latest = extent(times)[1];
+  return data.map((p, i) => {
+    const manual = usesManual(mode) ? p.weight ?? 1 : 1;
+    return usesDecay(mode) ? manual * Math.pow(0.5, (latest - times[i]) / DAY_MS / halfLifeDays) : manual;
+  });
+}
@@ -2,12 +2,361 @@ export interface DataPoint {
   id: string;
   area: number;
   price: number;
+  features?: Record<string, number>;
+  // Group label such as a neighborhood or property type
+  category?: string;
+  // Kept in the dataset but left out of training
+  excluded?: boolean;
+  // Relative reliability for weighted fits, e.g. lower for unverified listings; 1 when unset
+  weight?: number;
+  // Sale date (YYYY-MM-DD), used by recency-decay weighting
+  date?: string;
+}
+
+export type ModelType = "linear" | "polynomial" | "log-log" | "log-linear" | "linear-log" | "segmented";
+
+export type FitMethod = "ols" | "huber" | "theil-sen" | "ransac" | "ridge" | "lasso" | "elastic-net";
+
+// How the point categories enter a fit: ignored, as per-category intercepts on shared
+// slopes (dummy encoding), or as a separate model per category
+export type GroupingMode = "none" | "intercepts" | "separate";
+
+// Weighted least squares weights: the points' own weights, an exponential decay by sale age,
+// or both multiplied together
+export type WeightingMode = "none" | "manual" | "decay" | "both";
+
+export interface FitOptions {
+  features?: string[];
+  modelType?: ModelType;
+  // Polynomial degree (2–5), only used by the polynomial family
+  degree?: number;
+  // Number of area breakpoints (1–3) the segmented family searches for
+  breakpointCount?: number;
+  // Fixed segmented breakpoints, in ascending order; searched for when unset
+  breakpoints?: number[];
+  // Whether segments meet at the breakpoints (default) or may jump there
+  continuous?: boolean;
+  method?: FitMethod;
+  // Huber tuning constant, in robust standard deviations
+  huberK?: number;
+  // RANSAC inlier threshold on the fitted scale; defaults to the MAD of the target
+  ransacThreshold?: number;
+  // RANSAC subset sampling seed, also used to split the folds that choose λ
+  seed?: number;
+  // Elastic-net share of the penalty that is L1 (0 is ridge, 1 is lasso)
+  mixing?: number;
+  // Penalty strength for regularized fits; chosen by cross-validation when unset
+  lambda?: number;
+  grouping?: GroupingMode;
+  // Category levels to fit, first is the reference; defaults to those in the data
+  categories?: string[];
+  weighting?: WeightingMode;
+  // Age at which a sale counts half as much as the latest one
+  halfLifeDays?: number;
+}
+
+export interface CoefficientStats {
+  estimate: number;
+  stdError: number;
+  tStat: number;
+  pValue: number;
+}
+
+export interface RobustInfo {
+  // Final Huber IRLS weights by point id
+  weights?: Record<string, number>;
+  // RANSAC consensus set
+  inlierIds?: string[];
+  iterations: number;
+}
+
+// One penalty strength on a regularized fit's λ path
+export interface LambdaStep {
+  lambda: number;
+  // Coefficients on the standardized terms, comparable across features
+  coefficients: Record<string, number>;
+  // Cross-validated RMSE on the fitted scale and its standard error over the folds; NaN without CV
+  cvRmse: number;
+  cvSe: number;
+}
+
+export interface RegularizationInfo {
+  mixing: number;
+  // Penalty the model was fitted with
+  lambda: number;
+  // Largest λ whose CV error is within one standard error of the best
+  lambda1se?: number;
+  // Cross-validation folds; 0 when λ was given
+  folds: number;
+  path: LambdaStep[];
+}
+
+export interface WeightingInfo {
+  mode: WeightingMode;
+  halfLifeDays?: number;
+  // Weight of each training point by id; a verified sale on the latest date has weight 1
+  weights: Record<string, number>;
+  // Unweighted R² and RMSE, for comparison with the weighted ones on the model
+  r2: number;
+  rmse: number;
+}
+
+export interface BreakpointEstimate {
+  value: number;
+  // Whether the fit searched for the breakpoint rather than taking it as fixed
+  searched: boolean;
+  // 95% profile interval: where a breakpoint fits the data not significantly worse. Absent when
+  // fixed, or when no residual degrees of freedom are left to compute it.
+  interval?: [number, number];
+}
+
+// Line of one segment with the other features at zero (and the reference category)
+export interface SegmentLine {
+  // Area range the segment covers, from the smallest to the largest training area
+  from: number;
+  to: number;
+  slope: number;
+  slopeStdError: number;
+  intercept: number;
+}
+
+export interface SegmentedInfo {
+  continuous: boolean;
+  breakpoints: BreakpointEstimate[];
+  segments: SegmentLine[];
+}
+
+export type FitIssue = "non-finite" | "constant-x" | "constant-y" | "collinear" | "ill-conditioned" | "weights";
+
+// Problems with the data found while fitting. Errors stop the fit; warnings are kept on the model.
+export interface FitDiagnostic {
+  issue: FitIssue;
+  severity: "error" | "warning";
+  message: string;
+  // Features involved, when the problem is tied to specific inputs
+  features?: string[];
 }
 
 export interface RegressionResult {
   m: number;
   b: number;
   r2: number;
+  adjR2: number;
   rmse: number;
   equation: string;
+  modelType: ModelType;
+  degree: number;
+  method: FitMethod;
+  // Method-specific details for robust fits
+  robust?: RobustInfo;
+  // Penalty and λ path of ridge, lasso and elastic-net fits
+  regularization?: RegularizationInfo;
+  // Breakpoints and per-segment lines of segmented fits
+  segmented?: SegmentedInfo;
+  // Weighted least squares details; R² and RMSE above are then weighted
+  weighting?: WeightingInfo;
+  // Raw features the model needs as input
+  features: string[];
+  // Design terms derived from the features, e.g. "area^2" or "log(area)"
+  terms: string[];
+  coefficients: Record<string, number>;
+  // Inference on the fitted (possibly log) scale, keyed by term plus INTERCEPT
+  coefficientStats: Record<string, CoefficientStats>;
+  n: number;
+  // Residual degrees of freedom (n - features - 1)
+  df: number;
+  // Residual standard error
+  sigma: number;
+  // Coefficient covariance matrix, ordered [intercept, ...terms]
+  covariance: number[][];
+  // Data problems that did not prevent the fit
+  warnings?: FitDiagnostic[];
+  grouping?: GroupingMode;
+  // Category levels the model predicts for; the first is the reference for intercept shifts
+  categories?: string[];
+  // One model per category for "separate" grouping; the top-level coefficients are then NaN
+  groups?: Record<string, RegressionResult>;
+}
+
+export interface PredictionBand {
+  price: number;
+  confidence: [number, number];
+  prediction: [number, number];
+}
+
+// One row of a batch prediction; `row` is the 1-based line in the pasted or uploaded text.
+export interface BatchPrediction {
+  row: number;
+  area: number;
+  features: Record<string, number>;
+  category?: string;
+  price: number;
+  interval: [number, number] | null;
+  // Area falls outside the range the model was trained on
+  extrapolated: boolean;
+}
+
+export type ValidationMode = "none" | "holdout" | "kfold";
+
+export interface ErrorMetrics {
+  n: number;
+  rmse: number;
+  mae: number;
+  // Mean absolute percentage error, as a fraction (0.1 = 10%)
+  mape: number;
+  r2: number;
+}
+
+export interface Evaluation {
+  mode: ValidationMode;
+  seed: number;
+  inSample: ErrorMetrics;
+  // Hold-out test metrics or pooled out-of-fold metrics; null when mode is "none"
+  outOfSample: ErrorMetrics | null;
+  // Points held out of training (hold-out mode only)
+  testIds: string[];
+}
+
+export interface PointDiagnostics {
+  id: string;
+  leverage: number;
+  // Externally studentized residual
+  studentized: number;
+  cooksDistance: number;
+  highLeverage: boolean;
+  outlier: boolean;
+  influential: boolean;
+}
+
+// "pairs" resamples whole points; "residual" keeps the points and resamples fitted residuals
+export type BootstrapMethod = "pairs" | "residual";
+
+export interface BootstrapSample {
+  b: number;
+  coefficients: Record<string, number>;
+}
+
+export interface BootstrapResult {
+  method: BootstrapMethod;
+  seed: number;
+  // Successful refits; resamples that cannot be fitted (e.g. a single distinct area) are skipped
+  samples: BootstrapSample[];
+  failed: number;
+  // Leave-one-out (or delete-a-group for large data) fits, for the BCa acceleration
+  jackknife: BootstrapSample[];
+  // Centered, variance-corrected residuals of the original fit on the fitted scale
+  residuals: number[];
+}
+
+export interface ComparisonMetrics {
+  n: number;
+  r2: number;
+  adjR2: number;
+  rmse: number;
+  mae: number;
+  // Gaussian information criteria on the price scale, so log and linear families compare
+  aic: number;
+  bic: number;
+  // Pooled out-of-fold metrics from a fixed-seed k-fold run; null when it could not be fitted
+  cv: ErrorMetrics | null;
+}
+
+// A trained model kept for side-by-side comparison (for the current session only)
+export interface PinnedModel {
+  id: string;
+  label: string;
+  datasetId: string;
+  datasetName: string;
+  units: Units;
+  model: RegressionResult;
+  metrics: ComparisonMetrics;
+  // Points left out of training when the model was pinned
+  excluded: number;
+}
+
+// Outcome of a residual assumption test; "skipped" when the test does not apply
+export type Verdict = "pass" | "fail" | "skipped";
+
+export interface AssumptionTest {
+  name: string;
+  // The linear-model assumption being checked, e.g. "Normal residuals"
+  assumption: string;
+  statistic: number;
+  // NaN for tests judged by a rule of thumb (Durbin–Watson)
+  pValue: number;
+  verdict: Verdict;
+  // Plain-language reading of the result
+  summary: string;
+}
+
+export type NoiseDistribution = "normal" | "uniform" | "laplace" | "student-t";
+
+// Settings a synthetic dataset is generated from: price = intercept + slope·area + noise, with
+// areas drawn uniformly from [areaMin, areaMax]. Areas and the slope are in the dataset's area unit.
+export interface SyntheticSpec {
+  slope: number;
+  intercept: number;
+  noise: NoiseDistribution;
+  // Standard deviation of the noise at the smallest area
+  noiseSd: number;
+  // The noise sd grows linearly across the area range, to (1 + heteroscedasticity) × noiseSd at the largest area
+  heteroscedasticity: number;
+  // Share of points whose noise is drawn with a much larger sd
+  outlierFraction: number;
+  areaMin: number;
+  areaMax: number;
+  count: number;
+  seed: number;
+}
+
+export interface Dataset {
+  id: string;
+  name: string;
+  points: DataPoint[];
+  // Extra feature columns shown for this dataset, in display order
+  featureKeys: string[];
+  // Last model trained on these points; cleared whenever the points change
+  model: RegressionResult | null;
+  // Unit the areas (and area coefficients) are stored in, plus price formatting
+  units: Units;
+  // Generator settings when the points are synthetic, so fits can be compared with the true line
+  synthetic?: SyntheticSpec;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Workspace {
+  version: number;
+  activeId: string;
+  datasets: Dataset[];
+}
+
+export type AreaUnit = "sq m" | "sq ft";
+
+// Dataset-level display and input settings; prices are never converted between currencies.
+export interface Units {
+  area: AreaUnit;
+  // ISO 4217 code, e.g. "USD" or "EUR"
+  currency: string;
+  // BCP 47 tag used for number formatting and parsing, e.g. "en-US" or "de-DE"
+  locale: string;
+}
+
+export interface ModelArtifact {
+  format: "house-price-model";
+  version: number;
+  createdAt: string;
+  units: Units;
+  // Fingerprint of the dataset the model was trained on (see hashDataset)
+  trainingDataHash: string;
+  // [min, max] area of the points the model was fitted to, so predictions can flag extrapolation
+  trainingAreaRange?: [number, number];
+  metrics: {
+    n: number;
+    r2: number;
+    adjR2: number;
+    rmse: number;
+    outOfSample: ErrorMetrics | null;
+  };
+  model: RegressionResult;
 }